@@ -0,0 +1,71 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import type { ConfigAdminService as Servicio } from "./config-admin.service";
+
+const CONFIG = {
+  empresa: { nombre: "prueba", baseUrl: "http://localhost:8098" },
+  modulos: [{ nombre: "Ventas", crear: [], leer: [], actualizar: [], eliminar: [] }]
+};
+
+describe("ConfigAdminService con archivos dañados", () => {
+  const entorno = { ...process.env };
+  let directorio: string;
+  let ruta: string;
+  let admin: Servicio;
+
+  beforeEach(() => {
+    directorio = fs.mkdtempSync(path.join(os.tmpdir(), "config-admin-"));
+    ruta = path.join(directorio, "configuracion_prueba.json");
+    fs.writeFileSync(ruta, JSON.stringify(CONFIG));
+    process.env.ERP_CONFIG_DIR = directorio;
+
+    // El registro toma ERP_CONFIG_DIR al crearse: uno nuevo por prueba
+    jest.isolateModules(() => {
+      const { ConfigAdminService } = require("./config-admin.service");
+      admin = new ConfigAdminService();
+    });
+    jest.spyOn(console, "error").mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(directorio, { recursive: true, force: true });
+    process.env = { ...entorno };
+  });
+
+  const DANADO = '{ "empresa": { "nombre": "prueba"';
+
+  it("lee la configuración válida", () => {
+    expect(admin.leer("prueba")).toMatchObject({ success: true, version: 0 });
+  });
+
+  it("informa el archivo que el registro rechazó en lugar de una empresa inexistente", () => {
+    admin.leer("prueba");
+    fs.writeFileSync(ruta, DANADO);
+    fs.utimesSync(ruta, new Date(), new Date(Date.now() + 5000));
+
+    const resultado = admin.leer("prueba");
+    expect(resultado).toMatchObject({ success: false, error: "ARCHIVO_INVALIDO" });
+    expect(!resultado.success && resultado.problemas?.[0].mensaje).toMatch(/^JSON inválido/);
+    expect(admin.archivoRechazado("prueba")).toMatchObject({ error: "ARCHIVO_INVALIDO" });
+  });
+
+  it("no lanza si el archivo se daña después de que el registro lo validó", () => {
+    admin.leer("prueba");
+    // El archivo cambia entre la validación del registro y la lectura del servicio
+    const modulo: typeof fs = require("fs");
+    const leerOriginal = modulo.readFileSync;
+    jest.spyOn(modulo, "readFileSync").mockImplementation(((archivo: fs.PathOrFileDescriptor, opciones?: any) =>
+      archivo === ruta ? DANADO : leerOriginal(archivo, opciones)) as typeof fs.readFileSync);
+
+    const resultado = admin.leer("prueba");
+    expect(resultado).toMatchObject({ success: false, error: "ARCHIVO_INVALIDO" });
+    expect(!resultado.success && resultado.details).toContain(`${ruta}: JSON inválido`);
+  });
+
+  it("una empresa sin archivo sigue siendo EMPRESA_NO_CONFIGURADA", () => {
+    expect(admin.archivoRechazado("otra")).toBeNull();
+    expect(admin.leer("otra")).toMatchObject({ success: false, error: "EMPRESA_NO_CONFIGURADA" });
+  });
+});
@@ -0,0 +1,321 @@
+import * as fs from "fs";
+import * as path from "path";
+import { AccionCRUD, ConfiguracionAPI, Endpoint, Modulo } from "./configs/api-config";
+import { configuracionRegistry } from "./configs/config-registry";
+import { esConfiguracionLegacy } from "./configs/config-converter";
+import { ProblemaConfiguracion, ubicarErrorSintaxis, validarConfiguracion } from "./configs/config-validator";
+
+export type ErrorAdmin =
+  | "EMPRESA_NO_CONFIGURADA"
+  | "FORMATO_LEGACY"
+  | "ARCHIVO_INVALIDO"
+  | "CONFLICTO_VERSION"
+  | "CONFIGURACION_INVALIDA"
+  | "MODULO_NO_ENCONTRADO"
+  | "MODULO_DUPLICADO"
+  | "ENDPOINT_NO_ENCONTRADO";
+
+export type ResultadoAdmin<T> =
+  | { success: true; version: number; data: T; advertencias?: ProblemaConfiguracion[] }
+  | { success: false; error: ErrorAdmin; details: string; problemas?: ProblemaConfiguracion[] };
+
+/**
+ * Cambio sobre una copia de la configuración; devuelve lo que se responde o un fallo
+ */
+type Mutacion<T> = (config: ConfiguracionAPI) => { data: T } | { error: ErrorAdmin; details: string };
+
+export interface ResumenModulo {
+  nombre: string;
+  endpoints: Record<AccionCRUD, number>;
+}
+
+export interface EndpointUbicado {
+  modulo: string;
+  accion: AccionCRUD;
+  endpoint: Endpoint;
+}
+
+export interface CambiosEndpoint {
+  endpoint: Omit<Endpoint, "id">;
+  modulo?: string;          // mueve el endpoint a otro módulo
+  accion?: AccionCRUD;      // o a otra acción
+}
+
+const ACCIONES: AccionCRUD[] = ["crear", "leer", "actualizar", "eliminar"];
+
+function buscarModulo(config: ConfiguracionAPI, nombre: string): Modulo | undefined {
+  return config.modulos.find(m => m.nombre.toLowerCase() === nombre.toLowerCase());
+}
+
+function ubicarEndpoint(config: ConfiguracionAPI, id: number): EndpointUbicado | undefined {
+  for (const modulo of config.modulos) {
+    for (const accion of ACCIONES) {
+      const endpoint = modulo[accion].find(ep => ep.id === id);
+      if (endpoint) return { modulo: modulo.nombre, accion, endpoint };
+    }
+  }
+  return undefined;
+}
+
+function quitarEndpoint(config: ConfiguracionAPI, id: number): void {
+  for (const modulo of config.modulos) {
+    for (const accion of ACCIONES) {
+      modulo[accion] = modulo[accion].filter(ep => ep.id !== id);
+    }
+  }
+}
+
+function siguienteId(config: ConfiguracionAPI): number {
+  const ids = config.modulos.flatMap(m => ACCIONES.flatMap(a => m[a].map(ep => ep.id)));
+  return ids.length > 0 ? Math.max(...ids) + 1 : 1;
+}
+
+/**
+ * Altas, cambios y bajas de módulos y endpoints sobre el archivo de la empresa.
+ * Cada escritura valida la configuración completa, incrementa `version`, reemplaza el
+ * archivo de forma atómica (temporal + rename) e invalida el registro, así que los
+ * motores usan la versión nueva desde la siguiente petición.
+ */
+export class ConfigAdminService {
+  /* ============================================================
+     Lectura
+     ============================================================ */
+
+  leer(empresa: string): ResultadoAdmin<ConfiguracionAPI> {
+    return this.consultar<ConfiguracionAPI>(empresa, config => ({ data: config }));
+  }
+
+  listarModulos(empresa: string): ResultadoAdmin<ResumenModulo[]> {
+    return this.consultar<ResumenModulo[]>(empresa, config => ({
+      data: config.modulos.map(modulo => ({
+        nombre: modulo.nombre,
+        endpoints: Object.fromEntries(ACCIONES.map(a => [a, modulo[a].length])) as Record<AccionCRUD, number>
+      }))
+    }));
+  }
+
+  listarEndpoints(empresa: string, nombreModulo: string): ResultadoAdmin<EndpointUbicado[]> {
+    return this.consultar<EndpointUbicado[]>(empresa, config => {
+      const modulo = buscarModulo(config, nombreModulo);
+      if (!modulo) return { error: "MODULO_NO_ENCONTRADO", details: `No existe el módulo '${nombreModulo}'` };
+      return { data: ACCIONES.flatMap(accion => modulo[accion].map(endpoint => ({ modulo: modulo.nombre, accion, endpoint }))) };
+    });
+  }
+
+  obtenerEndpoint(empresa: string, id: number): ResultadoAdmin<EndpointUbicado> {
+    return this.consultar<EndpointUbicado>(empresa, config => {
+      const ubicado = ubicarEndpoint(config, id);
+      return ubicado ? { data: ubicado } : { error: "ENDPOINT_NO_ENCONTRADO", details: `No existe el endpoint ${id}` };
+    });
+  }
+
+  /* ============================================================
+     Módulos
+     ============================================================ */
+
+  crearModulo(empresa: string, nombre: string, versionEsperada?: number): ResultadoAdmin<Modulo> {
+    return this.escribir<Modulo>(empresa, versionEsperada, config => {
+      if (buscarModulo(config, nombre)) return { error: "MODULO_DUPLICADO", details: `El módulo '${nombre}' ya existe` };
+
+      const modulo: Modulo = { nombre, crear: [], leer: [], actualizar: [], eliminar: [] };
+      config.modulos.push(modulo);
+      return { data: modulo };
+    });
+  }
+
+  renombrarModulo(empresa: string, nombreModulo: string, nombre: string, versionEsperada?: number): ResultadoAdmin<Modulo> {
+    return this.escribir<Modulo>(empresa, versionEsperada, config => {
+      const modulo = buscarModulo(config, nombreModulo);
+      if (!modulo) return { error: "MODULO_NO_ENCONTRADO", details: `No existe el módulo '${nombreModulo}'` };
+
+      const otro = buscarModulo(config, nombre);
+      if (otro && otro !== modulo) return { error: "MODULO_DUPLICADO", details: `El módulo '${nombre}' ya existe` };
+
+      modulo.nombre = nombre;
+      return { data: modulo };
+    });
+  }
+
+  /**
+   * Borra el módulo con sus endpoints; si otro endpoint los usa como fuente, la validación lo rechaza
+   */
+  eliminarModulo(empresa: string, nombreModulo: string, versionEsperada?: number): ResultadoAdmin<Modulo> {
+    return this.escribir<Modulo>(empresa, versionEsperada, config => {
+      const modulo = buscarModulo(config, nombreModulo);
+      if (!modulo) return { error: "MODULO_NO_ENCONTRADO", details: `No existe el módulo '${nombreModulo}'` };
+
+      config.modulos = config.modulos.filter(m => m !== modulo);
+      return { data: modulo };
+    });
+  }
+
+  /* ============================================================
+     Endpoints
+     ============================================================ */
+
+  /**
+   * Agrega el endpoint al módulo y acción indicados; sin id se usa el siguiente libre
+   */
+  crearEndpoint(
+    empresa: string,
+    nombreModulo: string,
+    accion: AccionCRUD,
+    endpoint: Omit<Endpoint, "id"> & { id?: number },
+    versionEsperada?: number
+  ): ResultadoAdmin<EndpointUbicado> {
+    return this.escribir<EndpointUbicado>(empresa, versionEsperada, config => {
+      const modulo = buscarModulo(config, nombreModulo);
+      if (!modulo) return { error: "MODULO_NO_ENCONTRADO", details: `No existe el módulo '${nombreModulo}'` };
+
+      const { id, ...definicion } = endpoint;
+      const nuevo: Endpoint = { id: id ?? siguienteId(config), ...definicion };
+      modulo[accion].push(nuevo);
+      return { data: { modulo: modulo.nombre, accion, endpoint: nuevo } };
+    });
+  }
+
+  /**
+   * Reemplaza la definición conservando el id; opcionalmente lo mueve de módulo o acción
+   */
+  actualizarEndpoint(empresa: string, id: number, cambios: CambiosEndpoint, versionEsperada?: number): ResultadoAdmin<EndpointUbicado> {
+    return this.escribir<EndpointUbicado>(empresa, versionEsperada, config => {
+      const actual = ubicarEndpoint(config, id);
+      if (!actual) return { error: "ENDPOINT_NO_ENCONTRADO", details: `No existe el endpoint ${id}` };
+
+      const modulo = buscarModulo(config, cambios.modulo || actual.modulo);
+      if (!modulo) return { error: "MODULO_NO_ENCONTRADO", details: `No existe el módulo '${cambios.modulo}'` };
+
+      const accion = cambios.accion || actual.accion;
+      const { id: _ignorado, ...definicion } = cambios.endpoint as Endpoint;
+      const endpoint: Endpoint = { id, ...definicion };
+
+      quitarEndpoint(config, id);
+      modulo[accion].push(endpoint);
+      return { data: { modulo: modulo.nombre, accion, endpoint } };
+    });
+  }
+
+  eliminarEndpoint(empresa: string, id: number, versionEsperada?: number): ResultadoAdmin<EndpointUbicado> {
+    return this.escribir<EndpointUbicado>(empresa, versionEsperada, config => {
+      const actual = ubicarEndpoint(config, id);
+      if (!actual) return { error: "ENDPOINT_NO_ENCONTRADO", details: `No existe el endpoint ${id}` };
+
+      quitarEndpoint(config, id);
+      return { data: actual };
+    });
+  }
+
+  /* ============================================================
+     Persistencia
+     ============================================================ */
+
+  /**
+   * Archivo de la empresa que el registro rechazó (JSON roto o configuración inválida): para
+   * el resto de la API la empresa no existe; aquí se informa el motivo con sus errores
+   */
+  archivoRechazado(empresa: string): ResultadoAdmin<never> | null {
+    if (configuracionRegistry.existe(empresa)) return null;
+
+    const clave = empresa.toLowerCase();
+    const diagnostico = configuracionRegistry.diagnosticos().find(d => {
+      const archivo = path.basename(d.ruta, ".json").toLowerCase();
+      return d.errores.length > 0
+        && (d.empresa?.toLowerCase() === clave || archivo === clave || archivo === `configuracion_${clave}`);
+    });
+    if (!diagnostico) return null;
+
+    return {
+      success: false,
+      error: "ARCHIVO_INVALIDO",
+      details: `${diagnostico.ruta} tiene ${diagnostico.errores.length} errores y no se cargó`,
+      problemas: diagnostico.errores
+    };
+  }
+
+  /**
+   * Lee el archivo (no el objeto cacheado del registro, que comparten los motores)
+   */
+  private leerArchivo(empresa: string):
+    | { ruta: string; config: ConfiguracionAPI }
+    | { error: ErrorAdmin; details: string; problemas?: ProblemaConfiguracion[] } {
+    const ruta = configuracionRegistry.rutaDeEmpresa(empresa);
+    if (!ruta) {
+      const rechazo = this.archivoRechazado(empresa);
+      if (rechazo && !rechazo.success) return rechazo;
+      return { error: "EMPRESA_NO_CONFIGURADA", details: `No existe configuración para la empresa '${empresa}'` };
+    }
+
+    // Un archivo corrupto o a medio escribir no debe convertirse en un 500
+    let texto: string;
+    try {
+      texto = fs.readFileSync(ruta, "utf-8");
+    } catch (error: any) {
+      return { error: "ARCHIVO_INVALIDO", details: `${ruta}: no se pudo leer (${error.message})` };
+    }
+
+    let json: any;
+    try {
+      json = JSON.parse(texto);
+    } catch (error: any) {
+      return { error: "ARCHIVO_INVALIDO", details: `${ruta}: JSON inválido: ${ubicarErrorSintaxis(texto, error.message)}` };
+    }
+    if (esConfiguracionLegacy(json)) {
+      return { error: "FORMATO_LEGACY", details: `${ruta} está en formato ERPConfig; migra el archivo con npm run config:migrate` };
+    }
+    return { ruta, config: json };
+  }
+
+  private consultar<T>(empresa: string, consulta: Mutacion<T>): ResultadoAdmin<T> {
+    const archivo = this.leerArchivo(empresa);
+    if ("error" in archivo) return { success: false, ...archivo };
+
+    const resultado = consulta(archivo.config);
+    if ("error" in resultado) return { success: false, ...resultado };
+    return { success: true, version: archivo.config.version ?? 0, data: resultado.data };
+  }
+
+  /**
+   * Lectura, cambio, validación y escritura son síncronos: dos peticiones del mismo
+   * proceso no pueden intercalarse. versionEsperada (If-Match) evita pisar cambios ajenos.
+   */
+  private escribir<T>(empresa: string, versionEsperada: number | undefined, mutar: Mutacion<T>): ResultadoAdmin<T> {
+    const archivo = this.leerArchivo(empresa);
+    if ("error" in archivo) return { success: false, ...archivo };
+
+    const { ruta, config } = archivo;
+    const versionActual = config.version ?? 0;
+    if (versionEsperada !== undefined && versionEsperada !== versionActual) {
+      return {
+        success: false,
+        error: "CONFLICTO_VERSION",
+        details: `La configuración está en la versión ${versionActual}, no en la ${versionEsperada}`
+      };
+    }
+
+    const resultado = mutar(config);
+    if ("error" in resultado) return { success: false, ...resultado };
+
+    config.version = versionActual + 1;
+    const validacion = validarConfiguracion(config);
+    if (validacion.errores.length > 0) {
+      return {
+        success: false,
+        error: "CONFIGURACION_INVALIDA",
+        details: `El cambio deja ${validacion.errores.length} errores en la configuración`,
+        problemas: validacion.errores
+      };
+    }
+
+    const temporal = `${ruta}.tmp`;
+    fs.writeFileSync(temporal, JSON.stringify(config, null, 2) + "\n", "utf-8");
+    fs.renameSync(temporal, ruta);
+    configuracionRegistry.invalidar(ruta);
+
+    return {
+      success: true,
+      version: config.version,
+      data: resultado.data,
+      ...(validacion.advertencias.length > 0 ? { advertencias: validacion.advertencias } : {})
+    };
+  }
+}
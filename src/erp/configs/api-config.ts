@@ -1,27 +1,32 @@
-import * as fs from "fs";
-import * as path from "path";
-
-/* ============================================================
-   Nombre del archivo JSON
-   ============================================================ */
-
-const archivoJSON = "empresa-config.json";
+import { configuracionRegistry } from "./config-registry";
 
 /* ============================================================
    Tipos Base
    ============================================================ */
 
-export type TipoPrimitivo = "string" | "int" | "boolean" | "object";
+export type TipoPrimitivo = "string" | "int" | "boolean" | "date" | "object";
+
+export type AccionCRUD = "leer" | "crear" | "actualizar" | "eliminar";
 
 export interface Empresa {
   nombre: string;
   baseUrl: string;
+  zonaHoraria?: string;     // IANA, p. ej. "America/Lima" (por defecto ERP_ZONA_HORARIA o UTC)
+  formatoFecha?: string;    // formato de los campos fecha string, p. ej. "DD/MM/YYYY" (por defecto YYYY-MM-DD)
 }
 
+/**
+ * Papel de un campo fecha dentro de un periodo; si no se indica se deduce del nombre
+ */
+export type RolFecha = "desde" | "hasta";
+
 export interface PropiedadEstructura {
   nombre: string;
-  tipo: "string" | "int" | "boolean";
+  tipo: "string" | "int" | "boolean" | "date";
   opcional: boolean;
+  fuente?: Fuente;
+  ejemplo?: any;
+  rolFecha?: RolFecha;
 }
 
 export interface EstructuraParametro {
@@ -30,9 +35,16 @@ export interface EstructuraParametro {
   propiedades: PropiedadEstructura[];
 }
 
+/**
+ * Origen del valor. idReferencia 0 ("Directo") = lo escribe el usuario;
+ * cualquier otro id = se busca con el texto del usuario en el endpoint N.
+ */
 export interface Fuente {
   idReferencia: number;
   nombreReferencia: string;
+  campoBusqueda?: string;     // propiedad del endpoint N que recibe el texto
+  campoValor?: string;        // campo de la fila encontrada que se usa como valor
+  campoDescripcion?: string;  // campo de la fila que se muestra al usuario
 }
 
 export interface Parametro {
@@ -42,6 +54,8 @@ export interface Parametro {
   opcional: boolean;
   fuente: Fuente;
   estructura?: EstructuraParametro;
+  ejemplo?: any;
+  rolFecha?: RolFecha;
 }
 
 export interface Endpoint {
@@ -51,6 +65,8 @@ export interface Endpoint {
   descripcion: string;
   metodo: "GET" | "POST" | "PUT" | "DELETE";
   parametros: Parametro[];
+  tipoSalida?: string;      // tipo_salida del formato ERPConfig
+  observaciones?: string;
 }
 
 export interface Modulo {
@@ -61,26 +77,64 @@ export interface Modulo {
   eliminar: Endpoint[];
 }
 
+export type ProveedorLLM = "deepseek" | "openai" | "openai-compatible" | "gemini" | "fixture";
+
+/**
+ * Datos personales que detecta la redacción incorporada
+ */
+export type TipoDatoPersonal = "DNI" | "RUC" | "EMAIL" | "TELEFONO" | "NOMBRE";
+
+/**
+ * Patrón propio de la empresa; lo que coincide se reemplaza por [TIPO_n]
+ */
+export interface PatronRedaccion {
+  tipo: string;             // etiqueta del placeholder, en mayúsculas (HISTORIA, DIAGNOSTICO)
+  patron: string;           // expresión regular
+  flags?: string;           // i, m, s, u (g se agrega siempre)
+}
+
+/**
+ * Datos personales que se reemplazan por placeholders antes de llamar al LLM
+ */
+export interface ConfiguracionRedaccion {
+  activa?: boolean;         // por defecto LLM_REDACCION (activa salvo "false")
+  tipos?: TipoDatoPersonal[];       // detectores incorporados; por defecto todos
+  patrones?: PatronRedaccion[];
+  excepciones?: string[];   // textos que nunca se reemplazan (los nombres de módulo ya lo son)
+}
+
+/**
+ * Proveedor de LLM de la empresa. Lo no indicado se toma de las variables LLM_* del entorno
+ */
+export interface ConfiguracionLLM {
+  proveedor?: ProveedorLLM;
+  modelo?: string;
+  baseUrl?: string;
+  apiKeyEnv?: string;       // nombre de la variable de entorno con la API key
+  temperatura?: number;
+  timeoutMs?: number;
+  fixtures?: string;        // ruta del archivo de fixtures (proveedor "fixture")
+  herramientas?: boolean;   // function calling si el proveedor lo soporta (por defecto LLM_HERRAMIENTAS o true)
+  redaccion?: ConfiguracionRedaccion;
+}
+
 export interface ConfiguracionAPI {
   empresa: Empresa;
   modulos: Modulo[];
+  llm?: ConfiguracionLLM;
+  version?: number;         // la incrementa cada escritura de la API de administración
 }
 
 /* ============================================================
    Cargar JSON
    ============================================================ */
 
-export function cargarConfiguracion(): ConfiguracionAPI {
-  const archivos = fs.readdirSync(__dirname);
-  const jsonFile = archivos.find(file => file.endsWith('.json'));
-  
-  if (!jsonFile) {
-    throw new Error('No se encontró ningún archivo JSON en el directorio');
-  }
-
-  const ruta = path.join(__dirname, jsonFile);
-  const contenido = fs.readFileSync(ruta, "utf-8");
-  return JSON.parse(contenido) as ConfiguracionAPI;
+/**
+ * Devuelve la configuración de la empresa desde el registro (cacheada y
+ * recargada si el archivo cambia). Sin empresa, usa la empresa por defecto.
+ */
+export function cargarConfiguracion(empresa?: string): ConfiguracionAPI {
+  return configuracionRegistry.obtener(empresa);
 }
 
 /* ============================================================
@@ -100,6 +154,38 @@ export function obtenerEndpointPorId(
   return null;
 }
 
+/* ============================================================
+   Obtener Acción CRUD de un Endpoint
+   ============================================================ */
+
+export function obtenerAccionDeEndpoint(
+  config: ConfiguracionAPI,
+  endpointId: number
+): AccionCRUD | null {
+  for (const modulo of config.modulos) {
+    for (const crud of ["crear", "leer", "actualizar", "eliminar"] as const) {
+      if (modulo[crud].some(e => e.id === endpointId)) return crud;
+    }
+  }
+  return null;
+}
+
+/* ============================================================
+   Obtener Módulo de un Endpoint
+   ============================================================ */
+
+export function obtenerModuloDeEndpoint(
+  config: ConfiguracionAPI,
+  endpointId: number
+): string | null {
+  for (const modulo of config.modulos) {
+    for (const crud of ["crear", "leer", "actualizar", "eliminar"] as const) {
+      if (modulo[crud].some(e => e.id === endpointId)) return modulo.nombre;
+    }
+  }
+  return null;
+}
+
 /* ============================================================
    Construir URL completa
    ============================================================ */
@@ -111,17 +197,50 @@ export function construirUrlCompleta(
   return `${config.empresa.baseUrl}${endpoint.endpoint}`;
 }
 
+/* ============================================================
+   Valor por Defecto según Tipo
+   ============================================================ */
+
+/**
+ * Una fecha no tiene valor neutro: undefined deja el campo fuera y la validación lo informa como faltante
+ */
+export function valorPorDefecto(tipo: string): any {
+  switch (tipo?.toLowerCase()) {
+    case "string": return "";
+    case "date": return undefined;
+    case "int":
+    case "number": return 0;
+    case "boolean": return false;
+    case "object": return {};
+    case "array": return [];
+    default: return null;
+  }
+}
+
 /* ============================================================
    Validación de Tipos
    ============================================================ */
 
 function validarTipo(valor: any, tipo: string): boolean {
   if (tipo === "string") return typeof valor === "string";
-  if (tipo === "int") return typeof valor === "number";
+  // Misma regla que cumpleTipo (parametros.ts): un int es un número entero
+  if (tipo === "int") return Number.isInteger(valor);
   if (tipo === "boolean") return typeof valor === "boolean";
+  if (tipo === "date") return esFechaISO(valor);
   return false;
 }
 
+/**
+ * Fechas en formato AAAA-MM-DD (opcionalmente con hora ISO) que existen en el calendario
+ */
+export function esFechaISO(valor: any): boolean {
+  if (typeof valor !== "string") return false;
+  const match = valor.match(/^(\d{4})-(\d{2})-(\d{2})(T[\d:.]+(Z|[+-]\d{2}:?\d{2})?)?$/);
+  if (!match) return false;
+  const fecha = new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])));
+  return fecha.getUTCMonth() === Number(match[2]) - 1 && fecha.getUTCDate() === Number(match[3]);
+}
+
 /* ============================================================
    Validar Estructura Interna de Objetos
    ============================================================ */
@@ -197,6 +316,18 @@ export function validarPayload(
   return { faltantes, erroresTipo, erroresEstructura };
 }
 
+/**
+ * Resultado de validarPayload como lista legible ("falta oEntity", "tipo incorrecto en id"...)
+ */
+export function describirErroresPayload(endpoint: Endpoint, payload: Record<string, any>): string[] {
+  const { faltantes, erroresTipo, erroresEstructura } = validarPayload(endpoint, payload);
+  return [
+    ...faltantes.map(f => `falta ${f}`),
+    ...erroresTipo.map(e => `tipo incorrecto en ${e}`),
+    ...erroresEstructura
+  ];
+}
+
 /* ============================================================
    Crear Objeto de Envío
    ============================================================ */
@@ -205,6 +336,7 @@ export interface RequestPreparado {
   url: string;
   metodo: string;
   body?: Record<string, any>;
+  headers?: Record<string, string>;
 }
 
 export function prepararRequest(
@@ -369,11 +501,13 @@ export function ejemploUsoFlexible() {
  * FUNCIÓN PRINCIPAL - Recibe 2 strings (módulo y acción) y retorna los endpoints
  * @param moduloStr - Nombre del módulo o texto parcial
  * @param accionStr - Acción a buscar (leer, eliminar, etc.) o texto parcial
+ * @param empresa - Empresa cuya configuración se consulta (por defecto la del registro)
  * @returns Objeto con los resultados de la búsqueda
  */
 export function obtenerEndpointsPorModuloYAccion(
   moduloStr: string,
-  accionStr: string
+  accionStr: string,
+  empresa?: string
 ): {
   success: boolean;
   message: string;
@@ -388,7 +522,7 @@ export function obtenerEndpointsPorModuloYAccion(
 } {
   try {
     // 1. Cargar configuración
-    const config = cargarConfiguracion();
+    const config = cargarConfiguracion(empresa);
     
     // 2. Normalizar entradas
     const moduloLower = moduloStr.toLowerCase();
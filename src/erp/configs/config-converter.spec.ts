@@ -0,0 +1,48 @@
+import type { ERPConfigEndpoint } from "../erp-config.service";
+import { convertirLegacyACanonica } from "./config-converter";
+import { validarConfiguracion } from "./config-validator";
+
+function endpoint(ruta: string, id?: number): ERPConfigEndpoint {
+  return {
+    ...(id !== undefined ? { id } : {}),
+    intencion: `Intención ${ruta}`,
+    descripcion: `Descripción ${ruta}`,
+    endpoint: ruta,
+    metodo: "POST",
+    payload: { sCodigo: "" },
+    tipo_salida: "json"
+  };
+}
+
+describe("convertirLegacyACanonica", () => {
+  it("no genera ids que ya usan otros endpoints", () => {
+    const config = convertirLegacyACanonica({
+      erp: "prueba",
+      baseUrl: "http://localhost:8098",
+      modulos: {
+        Ventas: {
+          CREATE: [endpoint("/ventas/crear")],
+          READ: [endpoint("/ventas/listar", 2), endpoint("/ventas/obtener")],
+          UPDATE: [],
+          DELETE: []
+        },
+        Compras: {
+          CREATE: [endpoint("/compras/crear", 1)],
+          READ: [endpoint("/compras/listar")],
+          UPDATE: [],
+          DELETE: []
+        }
+      }
+    });
+
+    const ids = config.modulos.flatMap(modulo => [...modulo.crear, ...modulo.leer].map(ep => [ep.endpoint, ep.id]));
+    expect(Object.fromEntries(ids)).toEqual({
+      "/ventas/crear": 3,
+      "/ventas/listar": 2,
+      "/ventas/obtener": 4,
+      "/compras/crear": 1,
+      "/compras/listar": 5
+    });
+    expect(validarConfiguracion(config).errores).toEqual([]);
+  });
+});
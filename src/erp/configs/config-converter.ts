@@ -0,0 +1,215 @@
+import {
+  AccionCRUD,
+  ConfiguracionAPI,
+  Endpoint,
+  Modulo,
+  Parametro,
+  PropiedadEstructura,
+  valorPorDefecto
+} from "./api-config";
+import type { ERPConfig, ERPConfigEndpoint } from "../erp-config.service";
+
+/* ============================================================
+   Conversión entre el formato canónico (ConfiguracionAPI) y el
+   formato ERPConfig (CREATE/READ/UPDATE/DELETE + payload de ejemplo)
+   ============================================================ */
+
+export type CrudLegacy = "CREATE" | "READ" | "UPDATE" | "DELETE";
+
+export const CRUD_A_ACCION: Record<CrudLegacy, AccionCRUD> = {
+  CREATE: "crear",
+  READ: "leer",
+  UPDATE: "actualizar",
+  DELETE: "eliminar"
+};
+
+export const ACCION_A_CRUD: Record<AccionCRUD, CrudLegacy> = {
+  crear: "CREATE",
+  leer: "READ",
+  actualizar: "UPDATE",
+  eliminar: "DELETE"
+};
+
+const METODOS_VALIDOS = ["GET", "POST", "PUT", "DELETE"] as const;
+
+export function esConfiguracionLegacy(json: any): json is ERPConfig {
+  return !!json
+    && typeof json.erp === "string"
+    && !!json.modulos
+    && typeof json.modulos === "object"
+    && !Array.isArray(json.modulos);
+}
+
+export function esConfiguracionCanonica(json: any): json is ConfiguracionAPI {
+  return !!json?.empresa?.nombre && Array.isArray(json?.modulos);
+}
+
+/**
+ * Acepta cualquiera de los dos formatos y devuelve siempre el canónico
+ */
+export function normalizarConfiguracion(json: any): ConfiguracionAPI {
+  if (esConfiguracionCanonica(json)) return json;
+  if (esConfiguracionLegacy(json)) return convertirLegacyACanonica(json);
+  throw new Error("Formato de configuración no reconocido: se esperaba { empresa, modulos[] } o { erp, baseUrl, modulos{} }");
+}
+
+/* ============================================================
+   ERPConfig -> ConfiguracionAPI
+   ============================================================ */
+
+export function convertirLegacyACanonica(legacy: ERPConfig): ConfiguracionAPI {
+  // Los ids generados saltan los que ya traen los endpoints, para no repetirlos
+  const idsExplicitos = new Set(
+    Object.values(legacy.modulos).flatMap(crud =>
+      (Object.keys(CRUD_A_ACCION) as CrudLegacy[]).flatMap(clave => (crud?.[clave] || []).map(ep => ep.id))
+    )
+  );
+  let ultimoId = 0;
+  const siguienteId = (): number => {
+    do ultimoId++; while (idsExplicitos.has(ultimoId));
+    return ultimoId;
+  };
+
+  const modulos: Modulo[] = Object.entries(legacy.modulos).map(([nombre, crud]) => {
+    const modulo: Modulo = { nombre, crear: [], leer: [], actualizar: [], eliminar: [] };
+
+    for (const clave of Object.keys(CRUD_A_ACCION) as CrudLegacy[]) {
+      modulo[CRUD_A_ACCION[clave]] = (crud?.[clave] || []).map(ep => convertirEndpointLegacy(ep, ep.id ?? siguienteId()));
+    }
+
+    return modulo;
+  });
+
+  return {
+    empresa: {
+      nombre: legacy.erp,
+      baseUrl: legacy.baseUrl
+    },
+    modulos
+  };
+}
+
+function convertirEndpointLegacy(ep: ERPConfigEndpoint, id: number): Endpoint {
+  const metodo = (ep.metodo || "POST").toUpperCase();
+
+  return {
+    id,
+    endpoint: ep.endpoint,
+    nombreReferencia: ep.intencion,
+    descripcion: ep.descripcion,
+    metodo: (METODOS_VALIDOS as readonly string[]).includes(metodo) ? metodo as Endpoint["metodo"] : "POST",
+    parametros: inferirParametros(ep.payload),
+    tipoSalida: ep.tipo_salida,
+    observaciones: ep.observaciones
+  };
+}
+
+/**
+ * Deduce los parámetros tipados a partir del payload de ejemplo del formato ERPConfig
+ */
+function inferirParametros(payload: any): Parametro[] {
+  if (!payload || typeof payload !== "object" || Array.isArray(payload)) return [];
+
+  return Object.entries(payload).map(([nombre, valor]): Parametro => {
+    const base = {
+      nombre,
+      obligatorio: true,
+      opcional: false,
+      fuente: { idReferencia: 0, nombreReferencia: "Directo" }
+    };
+
+    if (Array.isArray(valor)) {
+      return {
+        ...base,
+        tipo: "object",
+        estructura: { esObjeto: false, esArray: true, propiedades: [] },
+        ejemplo: valor
+      };
+    }
+
+    if (valor && typeof valor === "object") {
+      const propiedades: PropiedadEstructura[] = Object.entries(valor).map(([prop, valorProp]) => ({
+        nombre: prop,
+        tipo: inferirTipoEscalar(valorProp),
+        opcional: false,
+        ejemplo: valorProp
+      }));
+
+      return {
+        ...base,
+        tipo: "object",
+        estructura: { esObjeto: true, esArray: false, propiedades }
+      };
+    }
+
+    return { ...base, tipo: inferirTipoEscalar(valor), ejemplo: valor };
+  });
+}
+
+function inferirTipoEscalar(valor: any): PropiedadEstructura["tipo"] {
+  if (typeof valor === "number") return "int";
+  if (typeof valor === "boolean") return "boolean";
+  return "string";
+}
+
+/* ============================================================
+   ConfiguracionAPI -> ERPConfig
+   ============================================================ */
+
+export function convertirCanonicaALegacy(config: ConfiguracionAPI): ERPConfig {
+  const modulos: ERPConfig["modulos"] = {};
+
+  for (const modulo of config.modulos) {
+    modulos[modulo.nombre] = { CREATE: [], READ: [], UPDATE: [], DELETE: [] };
+    for (const accion of Object.keys(ACCION_A_CRUD) as AccionCRUD[]) {
+      modulos[modulo.nombre][ACCION_A_CRUD[accion]] = (modulo[accion] || []).map(convertirEndpointCanonico);
+    }
+  }
+
+  return {
+    erp: config.empresa.nombre,
+    baseUrl: config.empresa.baseUrl,
+    modulos
+  };
+}
+
+function convertirEndpointCanonico(ep: Endpoint): ERPConfigEndpoint {
+  return {
+    id: ep.id,
+    intencion: ep.nombreReferencia,
+    descripcion: ep.descripcion,
+    endpoint: ep.endpoint,
+    metodo: ep.metodo,
+    payload: construirPayloadEjemplo(ep.parametros),
+    tipo_salida: ep.tipoSalida || "json",
+    observaciones: ep.observaciones
+  };
+}
+
+/**
+ * El ejemplo conserva todas las claves: las fechas, sin valor por defecto, quedan como ""
+ */
+function valorDeEjemplo(tipo: string): any {
+  const valor = valorPorDefecto(tipo);
+  return valor === undefined ? "" : valor;
+}
+
+export function construirPayloadEjemplo(parametros: Parametro[]): Record<string, any> {
+  const payload: Record<string, any> = {};
+
+  for (const param of parametros) {
+    if (param.ejemplo !== undefined) {
+      payload[param.nombre] = param.ejemplo;
+    } else if (param.estructura?.esArray) {
+      payload[param.nombre] = [];
+    } else if (param.tipo === "object" || param.estructura?.esObjeto) {
+      payload[param.nombre] = Object.fromEntries(
+        (param.estructura?.propiedades || []).map(prop => [prop.nombre, prop.ejemplo ?? valorDeEjemplo(prop.tipo)])
+      );
+    } else {
+      payload[param.nombre] = valorDeEjemplo(param.tipo);
+    }
+  }
+
+  return payload;
+}
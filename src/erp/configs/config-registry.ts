@@ -0,0 +1,183 @@
+import * as fs from "fs";
+import * as path from "path";
+import type { ConfiguracionAPI } from "./api-config";
+import { DiagnosticoConfiguracion, formatearProblema, validarArchivo } from "./config-validator";
+
+interface EntradaRegistro {
+  nombre: string;
+  ruta: string;
+  mtimeMs: number;
+  config: ConfiguracionAPI;
+}
+
+/**
+ * Registro de configuraciones por empresa (empresa.nombre).
+ * Cachea cada archivo y lo vuelve a leer cuando cambia su fecha de modificación en disco.
+ * Acepta archivos en formato canónico o ERPConfig; estos últimos se convierten al cargar.
+ * Cada archivo se valida al leerlo: con errores no se carga y queda en diagnosticos().
+ */
+export class ConfiguracionRegistry {
+  private readonly directorio: string;
+  private porEmpresa = new Map<string, EntradaRegistro>();
+  private porRuta = new Map<string, EntradaRegistro>();
+  private ordenCarga: string[] = [];
+  private diagnosticosPorRuta = new Map<string, DiagnosticoConfiguracion & { mtimeMs: number }>();
+
+  constructor(directorio: string = process.env.ERP_CONFIG_DIR || __dirname) {
+    this.directorio = directorio;
+  }
+
+  /**
+   * Devuelve la configuración de la empresa, o la de por defecto si no se indica
+   */
+  obtener(empresa?: string): ConfiguracionAPI {
+    this.sincronizar();
+
+    const nombre = empresa || this.empresaPorDefecto();
+    if (!nombre) {
+      throw new Error(`No se encontró ninguna configuración de empresa en ${this.directorio}`);
+    }
+
+    const entrada = this.buscarEntrada(nombre);
+    if (!entrada) {
+      throw new Error(`No existe configuración para la empresa ${nombre}. Disponibles: ${this.listarEmpresas().join(", ")}`);
+    }
+
+    return entrada.config;
+  }
+
+  existe(empresa: string): boolean {
+    this.sincronizar();
+    return !!this.buscarEntrada(empresa);
+  }
+
+  listarEmpresas(): string[] {
+    this.sincronizar();
+    return this.ordenCarga.map(clave => this.porEmpresa.get(clave)!.nombre);
+  }
+
+  /**
+   * ERP_EMPRESA_DEFAULT o la primera empresa encontrada en el directorio
+   */
+  empresaPorDefecto(): string | undefined {
+    if (process.env.ERP_EMPRESA_DEFAULT) return process.env.ERP_EMPRESA_DEFAULT;
+    this.sincronizar();
+    const primera = this.ordenCarga[0];
+    return primera ? this.porEmpresa.get(primera)!.nombre : undefined;
+  }
+
+  rutaDeEmpresa(empresa: string): string | undefined {
+    this.sincronizar();
+    return this.buscarEntrada(empresa)?.ruta;
+  }
+
+  /**
+   * Fuerza a releer el archivo en la próxima consulta aunque su fecha de modificación
+   * no haya cambiado (dos escrituras dentro del mismo tick del sistema de archivos)
+   */
+  invalidar(ruta: string): void {
+    this.diagnosticosPorRuta.delete(ruta);
+  }
+
+  /**
+   * Resultado de la última validación de cada archivo del directorio, se haya cargado o no
+   */
+  diagnosticos(): DiagnosticoConfiguracion[] {
+    this.sincronizar();
+    return [...this.diagnosticosPorRuta.values()].map(({ mtimeMs, ...diagnostico }) => diagnostico);
+  }
+
+  /**
+   * Recorre el directorio, carga archivos nuevos o modificados y descarta los eliminados
+   */
+  sincronizar(): void {
+    const archivos = fs.existsSync(this.directorio)
+      ? fs.readdirSync(this.directorio).filter(file => file.endsWith(".json")).sort()
+      : [];
+    const rutasActuales = new Set(archivos.map(file => path.join(this.directorio, file)));
+
+    for (const ruta of [...this.porRuta.keys()]) {
+      if (!rutasActuales.has(ruta)) this.descartar(ruta);
+    }
+    for (const ruta of [...this.diagnosticosPorRuta.keys()]) {
+      if (!rutasActuales.has(ruta)) this.diagnosticosPorRuta.delete(ruta);
+    }
+
+    for (const ruta of rutasActuales) {
+      const mtimeMs = fs.statSync(ruta).mtimeMs;
+      // Ni los cargados ni los rechazados por errores se vuelven a leer hasta que cambien
+      const previo = this.diagnosticosPorRuta.get(ruta);
+      if (previo?.mtimeMs === mtimeMs && (this.porRuta.has(ruta) || previo.errores.length > 0)) continue;
+
+      const actual = this.porRuta.get(ruta);
+      const config = this.leerArchivo(ruta, mtimeMs);
+      if (actual) this.descartar(ruta);
+      if (!config) continue;
+
+      const clave = this.normalizar(config.empresa.nombre);
+      const duplicada = this.porEmpresa.get(clave);
+      if (duplicada && duplicada.ruta !== ruta) {
+        console.error(`La empresa ${config.empresa.nombre} está definida en ${duplicada.ruta} y ${ruta}; se ignora ${ruta}`);
+        continue;
+      }
+
+      const entrada: EntradaRegistro = { nombre: config.empresa.nombre, ruta, mtimeMs, config };
+      this.porRuta.set(ruta, entrada);
+      this.porEmpresa.set(clave, entrada);
+      if (!this.ordenCarga.includes(clave)) this.ordenCarga.push(clave);
+    }
+  }
+
+  /**
+   * Busca por empresa.nombre y, por compatibilidad, por nombre de archivo
+   * ("minierp" -> configuracion_minierp.json)
+   */
+  private buscarEntrada(empresa: string): EntradaRegistro | undefined {
+    const clave = this.normalizar(empresa);
+    const porNombre = this.porEmpresa.get(clave);
+    if (porNombre) return porNombre;
+
+    return [...this.porRuta.values()].find(entrada => {
+      const archivo = path.basename(entrada.ruta, ".json").toLowerCase();
+      return archivo === clave || archivo === `configuracion_${clave}`;
+    });
+  }
+
+  private leerArchivo(ruta: string, mtimeMs: number): ConfiguracionAPI | null {
+    let diagnostico: DiagnosticoConfiguracion;
+    try {
+      diagnostico = validarArchivo(ruta);
+    } catch (error: any) {
+      diagnostico = { ruta, errores: [{ severidad: "error", ruta: "$", mensaje: error.message }], advertencias: [] };
+    }
+    this.diagnosticosPorRuta.set(ruta, { ...diagnostico, mtimeMs });
+
+    for (const advertencia of diagnostico.advertencias) {
+      console.warn(`Configuración ${ruta}: ${formatearProblema(advertencia)}`);
+    }
+    if (diagnostico.errores.length > 0) {
+      console.error(`Configuración ${ruta} rechazada (${diagnostico.errores.length} errores):`);
+      for (const error of diagnostico.errores) console.error(`   ${formatearProblema(error)}`);
+    }
+
+    return diagnostico.config || null;
+  }
+
+  private descartar(ruta: string): void {
+    const entrada = this.porRuta.get(ruta);
+    if (!entrada) return;
+    this.porRuta.delete(ruta);
+
+    const clave = this.normalizar(entrada.nombre);
+    if (this.porEmpresa.get(clave)?.ruta === ruta) {
+      this.porEmpresa.delete(clave);
+      this.ordenCarga = this.ordenCarga.filter(c => c !== clave);
+    }
+  }
+
+  private normalizar(empresa: string): string {
+    return empresa.trim().toLowerCase();
+  }
+}
+
+export const configuracionRegistry = new ConfiguracionRegistry();
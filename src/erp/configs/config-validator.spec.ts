@@ -0,0 +1,83 @@
+import * as path from "path";
+import type { ConfiguracionAPI, Endpoint } from "./api-config";
+import { validarArchivo, validarConfiguracion } from "./config-validator";
+
+function endpoint(id: number, ruta: string, cambios: Partial<Endpoint> = {}): Endpoint {
+  return {
+    id,
+    endpoint: ruta,
+    nombreReferencia: `Endpoint ${id}`,
+    descripcion: `Descripción ${id}`,
+    metodo: "POST",
+    parametros: [],
+    ...cambios
+  };
+}
+
+function configuracion(leer: Endpoint[], crear: Endpoint[] = []): ConfiguracionAPI {
+  return {
+    empresa: { nombre: "prueba", baseUrl: "http://localhost:8098" },
+    modulos: [{ nombre: "Ventas", crear, leer, actualizar: [], eliminar: [] }]
+  };
+}
+
+describe("validarConfiguracion", () => {
+  it("acepta una configuración válida y la devuelve", () => {
+    const resultado = validarConfiguracion(configuracion([endpoint(1, "/ventas/listar")]));
+
+    expect(resultado.errores).toEqual([]);
+    expect(resultado.config?.modulos[0].leer[0].id).toBe(1);
+  });
+
+  it("marca como error la misma ruta y método repetidos en una acción", () => {
+    const resultado = validarConfiguracion(configuracion([endpoint(1, "/ventas/listar"), endpoint(2, "/ventas/listar")]));
+
+    expect(resultado.config).toBeUndefined();
+    expect(resultado.errores).toEqual([
+      expect.objectContaining({ ruta: "$.modulos[0].leer[1].endpoint", mensaje: expect.stringContaining("repetido") })
+    ]);
+  });
+
+  it("marca como error la misma ruta bajo dos acciones", () => {
+    const resultado = validarConfiguracion(configuracion([endpoint(1, "/ventas")], [endpoint(2, "/ventas")]));
+
+    expect(resultado.errores).toHaveLength(1);
+    expect(resultado.errores[0].mensaje).toMatch(/ya está declarado como/);
+  });
+
+  it("marca como error un objeto sin propiedades y solo advierte un array vacío", () => {
+    const conEstructura = (esObjeto: boolean): Endpoint => endpoint(1, "/ventas/crear", {
+      parametros: [{
+        nombre: "oEntity",
+        tipo: "object",
+        obligatorio: true,
+        opcional: false,
+        fuente: { idReferencia: 0, nombreReferencia: "Directo" },
+        estructura: { esObjeto, esArray: !esObjeto, propiedades: [] }
+      }]
+    });
+
+    const objeto = validarConfiguracion(configuracion([], [conEstructura(true)]));
+    expect(objeto.errores).toEqual([
+      expect.objectContaining({ ruta: "$.modulos[0].crear[0].parametros[0].estructura.propiedades" })
+    ]);
+
+    const array = validarConfiguracion(configuracion([], [conEstructura(false)]));
+    expect(array.errores).toEqual([]);
+    expect(array.advertencias.map(a => a.mensaje)).toContain("array sin propiedades: se enviará vacío");
+  });
+
+  it("reporta errores de forma con su ruta JSON", () => {
+    const resultado = validarConfiguracion(configuracion([endpoint(0, "/ventas/listar", { metodo: "PATCH" as any })]));
+
+    expect(resultado.errores.map(e => e.ruta)).toEqual(["$.modulos[0].leer[0].id", "$.modulos[0].leer[0].metodo"]);
+  });
+});
+
+describe("validarArchivo", () => {
+  it("la configuración de ejemplo no tiene errores", () => {
+    const diagnostico = validarArchivo(path.join(__dirname, "configuracion_minierp.json"));
+
+    expect(diagnostico.errores).toEqual([]);
+  });
+});
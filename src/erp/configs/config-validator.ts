@@ -0,0 +1,438 @@
+import * as fs from "fs";
+import { z } from "zod";
+import type { AccionCRUD, ConfiguracionAPI, Endpoint, Fuente } from "./api-config";
+import { convertirLegacyACanonica, esConfiguracionLegacy } from "./config-converter";
+import { recorrerParametros } from "./parametros";
+
+/* ============================================================
+   Validación de archivos de configuración de empresa
+   ============================================================ */
+
+export type Severidad = "error" | "advertencia";
+
+export interface ProblemaConfiguracion {
+  severidad: Severidad;
+  ruta: string;          // JSONPath dentro del archivo: $.modulos[0].leer[3].parametros[0]
+  mensaje: string;
+}
+
+export interface ResultadoValidacion {
+  errores: ProblemaConfiguracion[];
+  advertencias: ProblemaConfiguracion[];
+  config?: ConfiguracionAPI;     // solo si no hay errores (ya en formato canónico)
+}
+
+export interface DiagnosticoConfiguracion extends ResultadoValidacion {
+  ruta: string;          // archivo
+  empresa?: string;
+}
+
+const ACCIONES: AccionCRUD[] = ["crear", "leer", "actualizar", "eliminar"];
+
+/* ============================================================
+   Esquema (forma y tipos)
+   ============================================================ */
+
+const FuenteSchema = z.strictObject({
+  idReferencia: z.number().int().min(0),
+  nombreReferencia: z.string(),
+  campoBusqueda: z.string().min(1).optional(),
+  campoValor: z.string().min(1).optional(),
+  campoDescripcion: z.string().min(1).optional()
+});
+
+const RolFechaSchema = z.enum(["desde", "hasta"]);
+
+const PropiedadSchema = z.strictObject({
+  nombre: z.string().min(1),
+  tipo: z.enum(["string", "int", "boolean", "date"]),
+  opcional: z.boolean(),
+  fuente: FuenteSchema.optional(),
+  ejemplo: z.any().optional(),
+  rolFecha: RolFechaSchema.optional()
+});
+
+const ParametroSchema = z.strictObject({
+  nombre: z.string().min(1),
+  tipo: z.enum(["string", "int", "boolean", "date", "object"]),
+  obligatorio: z.boolean(),
+  opcional: z.boolean(),
+  fuente: FuenteSchema,
+  estructura: z.strictObject({
+    esObjeto: z.boolean(),
+    esArray: z.boolean(),
+    propiedades: z.array(PropiedadSchema)
+  }).optional(),
+  ejemplo: z.any().optional(),
+  rolFecha: RolFechaSchema.optional()
+});
+
+export const EndpointSchema = z.strictObject({
+  id: z.number().int().positive(),
+  endpoint: z.string().min(1),
+  nombreReferencia: z.string().min(1),
+  descripcion: z.string(),
+  metodo: z.enum(["GET", "POST", "PUT", "DELETE"]),
+  parametros: z.array(ParametroSchema),
+  tipoSalida: z.string().optional(),
+  observaciones: z.string().optional()
+});
+
+const ModuloSchema = z.strictObject({
+  nombre: z.string().min(1),
+  crear: z.array(EndpointSchema),
+  leer: z.array(EndpointSchema),
+  actualizar: z.array(EndpointSchema),
+  eliminar: z.array(EndpointSchema)
+});
+
+function esZonaHoraria(zona: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: zona });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function esExpresionRegular(patron: string): boolean {
+  try {
+    new RegExp(patron, "u");
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const RedaccionSchema = z.strictObject({
+  activa: z.boolean().optional(),
+  tipos: z.array(z.enum(["DNI", "RUC", "EMAIL", "TELEFONO", "NOMBRE"])).optional(),
+  patrones: z.array(z.strictObject({
+    tipo: z.string().regex(/^[A-Z][A-Z0-9]*$/, "usa mayúsculas y dígitos, sin espacios"),
+    patron: z.string().min(1).refine(esExpresionRegular, { message: "expresión regular no válida" }),
+    flags: z.string().regex(/^[imsu]*$/, "solo se admiten los flags i, m, s, u").optional()
+  })).optional(),
+  excepciones: z.array(z.string().min(1)).optional()
+});
+
+export const ConfiguracionAPISchema = z.strictObject({
+  empresa: z.strictObject({
+    nombre: z.string().min(1),
+    baseUrl: z.url(),
+    zonaHoraria: z.string().refine(esZonaHoraria, { message: "zona horaria IANA desconocida" }).optional(),
+    formatoFecha: z.string().min(1).optional()
+  }),
+  modulos: z.array(ModuloSchema),
+  llm: z.strictObject({
+    proveedor: z.enum(["deepseek", "openai", "openai-compatible", "gemini", "fixture"]).optional(),
+    modelo: z.string().min(1).optional(),
+    baseUrl: z.url().optional(),
+    apiKeyEnv: z.string().min(1).optional(),
+    temperatura: z.number().min(0).max(2).optional(),
+    timeoutMs: z.number().int().positive().optional(),
+    fixtures: z.string().min(1).optional(),
+    herramientas: z.boolean().optional(),
+    redaccion: RedaccionSchema.optional()
+  }).optional(),
+  version: z.number().int().min(0).optional()
+});
+
+/* ============================================================
+   Rutas JSONPath y mensajes
+   ============================================================ */
+
+export function rutaJSON(segmentos: readonly PropertyKey[]): string {
+  return segmentos.reduce<string>((ruta, segmento) => {
+    if (typeof segmento === "number") return `${ruta}[${segmento}]`;
+    const clave = String(segmento);
+    return /^[A-Za-z_$][\w$]*$/.test(clave) ? `${ruta}.${clave}` : `${ruta}[${JSON.stringify(clave)}]`;
+  }, "$");
+}
+
+function describirIssue(issue: z.core.$ZodIssue, entrada: unknown): string {
+  switch (issue.code) {
+    case "invalid_type": {
+      const valor = issue.path.reduce<any>((nodo, segmento) => nodo?.[segmento as any], entrada);
+      return valor === undefined ? `falta el campo (${issue.expected})` : `se esperaba ${issue.expected}`;
+    }
+    case "invalid_value":
+      return `valor no permitido; se esperaba ${issue.values.map(v => JSON.stringify(v)).join(" | ")}`;
+    case "too_small":
+      return issue.origin === "string" ? "no puede estar vacío" : `debe ser >= ${issue.minimum}`;
+    case "too_big":
+      return `debe ser <= ${issue.maximum}`;
+    case "invalid_format":
+      return issue.format === "url" ? "URL no válida" : `formato ${issue.format} no válido`;
+    default:
+      return issue.message;
+  }
+}
+
+/* ============================================================
+   Reglas semánticas
+   ============================================================ */
+
+interface EndpointUbicado {
+  ruta: string;
+  accion: AccionCRUD;
+  endpoint: Endpoint;
+}
+
+class Problemas {
+  readonly errores: ProblemaConfiguracion[] = [];
+  readonly advertencias: ProblemaConfiguracion[] = [];
+
+  error(ruta: string, mensaje: string): void {
+    this.errores.push({ severidad: "error", ruta, mensaje });
+  }
+
+  advertencia(ruta: string, mensaje: string): void {
+    this.advertencias.push({ severidad: "advertencia", ruta, mensaje });
+  }
+}
+
+function ubicarEndpoints(config: ConfiguracionAPI): EndpointUbicado[] {
+  return config.modulos.flatMap((modulo, m) =>
+    ACCIONES.flatMap(accion => modulo[accion].map((endpoint, e) => ({
+      ruta: rutaJSON(["modulos", m, accion, e]),
+      accion,
+      endpoint
+    })))
+  );
+}
+
+/**
+ * Nombres repetidos dentro de una lista (parámetros, propiedades, módulos).
+ * Los módulos se buscan sin distinguir mayúsculas; las claves del payload sí las distinguen.
+ */
+function revisarNombresUnicos(
+  nombres: string[],
+  ruta: (indice: number) => string,
+  que: string,
+  problemas: Problemas,
+  ignorarMayusculas = false
+): void {
+  const vistos = new Map<string, number>();
+  nombres.forEach((nombre, i) => {
+    const clave = ignorarMayusculas ? nombre.toLowerCase() : nombre;
+    if (vistos.has(clave)) {
+      problemas.error(ruta(i), `${que} '${nombre}' repetido (también en ${ruta(vistos.get(clave)!)})`);
+    } else {
+      vistos.set(clave, i);
+    }
+  });
+}
+
+function revisarFuente(
+  fuente: Fuente | undefined,
+  ruta: string,
+  propio: Endpoint,
+  porId: Map<number, EndpointUbicado>,
+  problemas: Problemas
+): void {
+  if (!fuente || fuente.idReferencia === 0) return;
+
+  const referido = porId.get(fuente.idReferencia);
+  if (!referido) {
+    problemas.error(`${ruta}.idReferencia`, `apunta al endpoint ${fuente.idReferencia}, que no existe`);
+    return;
+  }
+  if (referido.endpoint.id === propio.id) {
+    problemas.error(`${ruta}.idReferencia`, "el endpoint no puede ser fuente de sí mismo");
+    return;
+  }
+  if (referido.accion !== "leer") {
+    problemas.advertencia(`${ruta}.idReferencia`, `el endpoint ${fuente.idReferencia} es de '${referido.accion}': la búsqueda de la fuente lo ejecutaría`);
+  }
+  if (fuente.campoBusqueda && !recorrerParametros(referido.endpoint).some(c => c.nombre === fuente.campoBusqueda)) {
+    problemas.error(`${ruta}.campoBusqueda`, `el endpoint ${fuente.idReferencia} no tiene el campo '${fuente.campoBusqueda}' (${referido.ruta})`);
+  }
+}
+
+function revisarEndpoint(ubicado: EndpointUbicado, porId: Map<number, EndpointUbicado>, problemas: Problemas): void {
+  const { endpoint, ruta } = ubicado;
+
+  if (!endpoint.endpoint.startsWith("/")) {
+    problemas.advertencia(`${ruta}.endpoint`, "la ruta debería empezar con '/': se concatena a empresa.baseUrl");
+  }
+  if (!endpoint.descripcion.trim()) {
+    problemas.advertencia(`${ruta}.descripcion`, "sin descripción: el modelo la usa para elegir el endpoint");
+  }
+  if (endpoint.metodo === "GET" && endpoint.parametros.length > 0) {
+    problemas.advertencia(`${ruta}.parametros`, "GET con parámetros: el ejecutor solo envía el payload como cuerpo en POST/PUT/DELETE");
+  }
+
+  revisarNombresUnicos(endpoint.parametros.map(p => p.nombre), i => `${ruta}.parametros[${i}].nombre`, "parámetro", problemas);
+
+  endpoint.parametros.forEach((param, i) => {
+    const rutaParam = `${ruta}.parametros[${i}]`;
+
+    if (param.obligatorio && param.opcional) {
+      problemas.error(rutaParam, "obligatorio y opcional no pueden ser true a la vez");
+    }
+
+    revisarFuente(param.fuente, `${rutaParam}.fuente`, endpoint, porId, problemas);
+
+    const estructura = param.estructura;
+    if (param.tipo !== "object") {
+      if (estructura) problemas.advertencia(`${rutaParam}.estructura`, `se ignora: el parámetro es de tipo ${param.tipo}`);
+      return;
+    }
+    if (!estructura) {
+      problemas.advertencia(rutaParam, "tipo object sin estructura: el modelo no sabe qué propiedades enviar");
+      return;
+    }
+
+    const rutaEstructura = `${rutaParam}.estructura`;
+    if (estructura.esObjeto === estructura.esArray) {
+      problemas.error(rutaEstructura, "debe ser esObjeto o esArray (uno de los dos)");
+    }
+    if (estructura.propiedades.length === 0) {
+      // Un objeto vacío no sirve de payload; un array sin propiedades puede ser de escalares
+      if (estructura.esObjeto) {
+        problemas.error(`${rutaEstructura}.propiedades`, "objeto sin propiedades: el modelo no puede completarlo y se enviaría vacío");
+      } else {
+        problemas.advertencia(`${rutaEstructura}.propiedades`, "array sin propiedades: se enviará vacío");
+      }
+    }
+
+    revisarNombresUnicos(
+      estructura.propiedades.map(p => p.nombre),
+      j => `${rutaEstructura}.propiedades[${j}].nombre`,
+      "propiedad",
+      problemas
+    );
+    estructura.propiedades.forEach((prop, j) =>
+      revisarFuente(prop.fuente, `${rutaEstructura}.propiedades[${j}].fuente`, endpoint, porId, problemas)
+    );
+  });
+}
+
+/**
+ * Reglas que el esquema no expresa: ids únicos, referencias que existen,
+ * flags coherentes y rutas que no se repiten
+ */
+function revisarSemantica(config: ConfiguracionAPI, problemas: Problemas): void {
+  revisarNombresUnicos(config.modulos.map(m => m.nombre), i => rutaJSON(["modulos", i, "nombre"]), "módulo", problemas, true);
+
+  const ubicados = ubicarEndpoints(config);
+
+  const porId = new Map<number, EndpointUbicado>();
+  for (const ubicado of ubicados) {
+    const previo = porId.get(ubicado.endpoint.id);
+    if (previo) {
+      problemas.error(`${ubicado.ruta}.id`, `id ${ubicado.endpoint.id} repetido (también en ${previo.ruta})`);
+    } else {
+      porId.set(ubicado.endpoint.id, ubicado);
+    }
+  }
+
+  // Misma ruta y método bajo dos acciones: el permiso de una acción abriría la otra.
+  // En la misma acción, el ejecutor y los planes no sabrían a cuál de los dos se refiere la ruta.
+  const porRuta = new Map<string, EndpointUbicado>();
+  for (const ubicado of ubicados) {
+    const clave = `${ubicado.endpoint.metodo} ${ubicado.endpoint.endpoint}`;
+    const previo = porRuta.get(clave);
+    if (!previo) {
+      porRuta.set(clave, ubicado);
+    } else if (previo.accion !== ubicado.accion) {
+      problemas.error(
+        `${ubicado.ruta}.endpoint`,
+        `${clave} ya está declarado como '${previo.accion}' en ${previo.ruta}; aquí como '${ubicado.accion}'`
+      );
+    } else {
+      problemas.error(`${ubicado.ruta}.endpoint`, `${clave} repetido (también en ${previo.ruta})`);
+    }
+  }
+
+  for (const ubicado of ubicados) {
+    revisarEndpoint(ubicado, porId, problemas);
+  }
+}
+
+/* ============================================================
+   API
+   ============================================================ */
+
+/**
+ * Valida un JSON de configuración (canónico o ERPConfig). Los ERPConfig se validan
+ * después de convertirlos, así que sus rutas se refieren al formato canónico.
+ */
+export function validarConfiguracion(json: unknown): ResultadoValidacion {
+  const problemas = new Problemas();
+  let entrada = json;
+
+  if (esConfiguracionLegacy(json)) {
+    problemas.advertencia("$", "formato ERPConfig: las rutas se refieren a su conversión canónica (npm run config:migrate)");
+    try {
+      entrada = convertirLegacyACanonica(json);
+    } catch (error: any) {
+      problemas.error("$", `no se pudo convertir desde ERPConfig: ${error.message}`);
+      return { errores: problemas.errores, advertencias: problemas.advertencias };
+    }
+  }
+
+  const resultado = ConfiguracionAPISchema.safeParse(entrada);
+  if (!resultado.success) {
+    for (const issue of resultado.error.issues) {
+      const ruta = rutaJSON(issue.path);
+      if (issue.code === "unrecognized_keys") {
+        // Un campo desconocido suele ser un error de tipeo, pero no impide cargar
+        problemas.advertencia(ruta, `campo desconocido: ${issue.keys.join(", ")}`);
+      } else {
+        problemas.error(ruta, describirIssue(issue, entrada));
+      }
+    }
+  }
+
+  // Con la forma rota las reglas semánticas darían falsos positivos
+  if (problemas.errores.length > 0) {
+    return { errores: problemas.errores, advertencias: problemas.advertencias };
+  }
+
+  const config = entrada as ConfiguracionAPI;
+  revisarSemantica(config, problemas);
+
+  return {
+    errores: problemas.errores,
+    advertencias: problemas.advertencias,
+    ...(problemas.errores.length === 0 ? { config } : {})
+  };
+}
+
+/**
+ * "at position N" de JSON.parse -> línea y columna
+ */
+export function ubicarErrorSintaxis(texto: string, mensaje: string): string {
+  const posicion = mensaje.match(/position (\d+)/);
+  if (!posicion) return mensaje;
+
+  const previo = texto.slice(0, Number(posicion[1])).split("\n");
+  return `${mensaje} (línea ${previo.length}, columna ${previo[previo.length - 1].length + 1})`;
+}
+
+export function validarArchivo(ruta: string): DiagnosticoConfiguracion {
+  const texto = fs.readFileSync(ruta, "utf-8");
+
+  let json: any;
+  try {
+    json = JSON.parse(texto);
+  } catch (error: any) {
+    return {
+      ruta,
+      errores: [{ severidad: "error", ruta: "$", mensaje: `JSON inválido: ${ubicarErrorSintaxis(texto, error.message)}` }],
+      advertencias: []
+    };
+  }
+
+  const empresa = json?.empresa?.nombre ?? json?.erp;
+  return {
+    ruta,
+    ...(typeof empresa === "string" ? { empresa } : {}),
+    ...validarConfiguracion(json)
+  };
+}
+
+export function formatearProblema(problema: ProblemaConfiguracion): string {
+  return `${problema.severidad === "error" ? "✖" : "⚠"} ${problema.ruta}: ${problema.mensaje}`;
+}
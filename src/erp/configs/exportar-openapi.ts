@@ -0,0 +1,74 @@
+import * as fs from "fs";
+import * as path from "path";
+import { configuracionRegistry } from "./config-registry";
+import { generarOpenAPI } from "./openapi";
+
+/**
+ * Genera el documento OpenAPI 3.1 de cada empresa como artefacto de build.
+ *
+ *   npm run config:openapi -- [empresa]... [--salida <directorio>] [--stdout]
+ *
+ * Sin empresas exporta todas las del registro (ERP_CONFIG_DIR).
+ * Escribe <directorio>/<empresa>.openapi.json (por defecto openapi/, fuera de dist/
+ * para que un build limpio no lo borre).
+ */
+
+function leerArgumentos() {
+  const args = process.argv.slice(2);
+  const indiceSalida = args.indexOf("--salida");
+  const salida = indiceSalida >= 0 ? args[indiceSalida + 1] : "openapi";
+  const empresas = args.filter((arg, i) => !arg.startsWith("--") && (indiceSalida < 0 || i !== indiceSalida + 1));
+
+  return { empresas, salida, stdout: args.includes("--stdout") };
+}
+
+/**
+ * El nombre termina en una ruta de archivo: sin separadores ni "." / ".."
+ */
+function esNombreDeArchivo(nombre: string): boolean {
+  return nombre.length > 0 && !/[\\/]/.test(nombre) && nombre !== "." && nombre !== "..";
+}
+
+function main() {
+  const { empresas, salida, stdout } = leerArgumentos();
+  const registradas = configuracionRegistry.listarEmpresas();
+  const seleccion = empresas.length > 0 ? empresas : registradas;
+
+  if (seleccion.length === 0) {
+    console.error("No hay configuraciones de empresa para exportar");
+    process.exit(1);
+  }
+
+  let errores = 0;
+  for (const solicitada of seleccion) {
+    const empresa = registradas.find(nombre => nombre.toLowerCase() === solicitada.toLowerCase());
+    if (!empresa || !esNombreDeArchivo(empresa)) {
+      errores++;
+      console.error(empresa
+        ? `✖ ${empresa}: el nombre de la empresa no puede usarse como nombre de archivo`
+        : `✖ ${solicitada}: no existe configuración para la empresa. Disponibles: ${registradas.join(", ")}`);
+      continue;
+    }
+
+    try {
+      const documento = JSON.stringify(generarOpenAPI(configuracionRegistry.obtener(empresa)), null, 2) + "\n";
+
+      if (stdout) {
+        process.stdout.write(documento);
+        continue;
+      }
+
+      fs.mkdirSync(salida, { recursive: true });
+      const archivo = path.join(salida, `${empresa}.openapi.json`);
+      fs.writeFileSync(archivo, documento, "utf-8");
+      console.log(`✔ ${empresa}: ${archivo}`);
+    } catch (error: any) {
+      errores++;
+      console.error(`✖ ${empresa}: ${error.message}`);
+    }
+  }
+
+  process.exit(errores > 0 ? 1 : 0);
+}
+
+main();
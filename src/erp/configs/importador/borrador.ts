@@ -0,0 +1,184 @@
+import { AccionCRUD, ConfiguracionAPI, Endpoint, Modulo, Parametro, PropiedadEstructura } from "../api-config";
+
+/* ============================================================
+   Borrador de ConfiguracionAPI generado por los importadores
+   ============================================================ */
+
+export interface OpcionesImportacion {
+  empresa: string;
+  baseUrl?: string;     // si no se indica, la del documento (servers, host o address)
+  modulo?: string;      // agrupa todo en un único módulo
+}
+
+/**
+ * Punto que una persona debe revisar antes de usar el borrador
+ */
+export interface RevisionImportacion {
+  endpoint?: string;    // "POST /ruta" o nombre de la operación
+  campo?: string;
+  motivo: string;
+}
+
+export interface ResultadoImportacion {
+  config: ConfiguracionAPI;
+  revisiones: RevisionImportacion[];
+}
+
+export type TipoEscalar = PropiedadEstructura["tipo"];
+
+export const FUENTE_DIRECTA = { idReferencia: 0, nombreReferencia: "Directo" };
+
+/* ============================================================
+   Sugerencia de acción CRUD
+   ============================================================ */
+
+const VERBOS_ACCION: Record<AccionCRUD, string[]> = {
+  leer: ["get", "list", "search", "find", "query", "fetch", "read", "select", "obtener", "obtiene", "listar", "lista",
+    "buscar", "busca", "consultar", "consulta", "traer", "trae", "ver", "mostrar"],
+  crear: ["create", "add", "insert", "save", "register", "new", "crear", "insertar", "registrar", "agregar", "guardar",
+    "grabar", "nuevo"],
+  actualizar: ["update", "edit", "modify", "set", "patch", "actualizar", "modificar", "editar", "cambiar"],
+  eliminar: ["delete", "remove", "cancel", "eliminar", "borrar", "anular", "quitar"]
+};
+
+const ACCION_POR_METODO: Record<string, AccionCRUD> = {
+  GET: "leer",
+  POST: "crear",
+  PUT: "actualizar",
+  PATCH: "actualizar",
+  DELETE: "eliminar"
+};
+
+/**
+ * Acción por la primera palabra del nombre de la operación y, si no dice nada, por el verbo HTTP.
+ * Los servicios WCF publican todo como POST, así que el nombre manda cuando hay conflicto.
+ */
+export function sugerirAccion(
+  nombreOperacion: string,
+  metodo?: string
+): { accion: AccionCRUD; revision?: string } {
+  const primera = humanizar(nombreOperacion).split(" ")[0].toLowerCase();
+  const porNombre = (Object.keys(VERBOS_ACCION) as AccionCRUD[]).find(accion => VERBOS_ACCION[accion].includes(primera));
+  const verbo = metodo?.toUpperCase();
+  const porMetodo = verbo ? ACCION_POR_METODO[verbo] : undefined;
+
+  if (porNombre) {
+    return porMetodo && porMetodo !== porNombre && verbo !== "POST"
+      ? { accion: porNombre, revision: `el nombre sugiere '${porNombre}' pero el método ${verbo} sugiere '${porMetodo}'` }
+      : { accion: porNombre };
+  }
+  if (porMetodo) {
+    return verbo === "POST"
+      ? { accion: porMetodo, revision: "POST sin verbo reconocible en el nombre: puede ser una consulta" }
+      : { accion: porMetodo };
+  }
+  return { accion: "leer", revision: "el nombre no indica la acción; se asumió 'leer'" };
+}
+
+/**
+ * "GetAllTablaEmpresa" / "get_all-items" -> "Get All Tabla Empresa" / "Get all items"
+ */
+export function humanizar(nombre: string): string {
+  const texto = nombre
+    .replace(/^(f|fun)_/i, "")
+    .replace(/([a-z])([A-Z])/g, "$1 $2")
+    .replace(/[_\-]+/g, " ")
+    .trim();
+  return texto.charAt(0).toUpperCase() + texto.slice(1);
+}
+
+/* ============================================================
+   Construcción del borrador
+   ============================================================ */
+
+export class BorradorConfiguracion {
+  private readonly modulos = new Map<string, Modulo>();
+  private readonly revisiones: RevisionImportacion[] = [];
+  private siguienteId = 1;
+  private baseUrl = "";
+
+  constructor(private readonly opciones: OpcionesImportacion) {}
+
+  establecerBaseUrl(baseUrl: string): void {
+    if (!this.baseUrl) this.baseUrl = baseUrl;
+  }
+
+  revisar(revision: RevisionImportacion): void {
+    this.revisiones.push(revision);
+  }
+
+  /**
+   * Agrega el endpoint con id secuencial; sus revisiones se copian también en observaciones,
+   * para que se vean al abrir el archivo generado
+   */
+  agregar(
+    modulo: string,
+    accion: AccionCRUD,
+    endpoint: Omit<Endpoint, "id">,
+    revisiones: RevisionImportacion[] = []
+  ): void {
+    const nombreModulo = this.opciones.modulo || modulo;
+    if (!this.modulos.has(nombreModulo)) {
+      this.modulos.set(nombreModulo, { nombre: nombreModulo, crear: [], leer: [], actualizar: [], eliminar: [] });
+    }
+
+    const pendientes = revisiones.map(r => (r.campo ? `${r.campo}: ${r.motivo}` : r.motivo));
+    const observaciones = [endpoint.observaciones, ...(pendientes.length ? [`REVISAR: ${pendientes.join("; ")}`] : [])]
+      .filter(Boolean)
+      .join(" | ");
+
+    this.modulos.get(nombreModulo)![accion].push({
+      id: this.siguienteId++,
+      ...endpoint,
+      ...(observaciones ? { observaciones } : {})
+    });
+    this.revisiones.push(...revisiones);
+  }
+
+  resultado(): ResultadoImportacion {
+    if (!this.opciones.baseUrl && !this.baseUrl) {
+      this.revisiones.push({ motivo: "el documento no indica la URL base; completa empresa.baseUrl" });
+    }
+    if (this.modulos.size === 0) {
+      this.revisiones.push({ motivo: "no se encontró ninguna operación" });
+    }
+
+    return {
+      config: {
+        empresa: { nombre: this.opciones.empresa, baseUrl: this.opciones.baseUrl || this.baseUrl },
+        modulos: [...this.modulos.values()]
+      },
+      revisiones: this.revisiones
+    };
+  }
+}
+
+/**
+ * Parámetro escalar u objeto con estructura de un nivel
+ */
+export function parametroEscalar(nombre: string, tipo: TipoEscalar, obligatorio: boolean, ejemplo?: any): Parametro {
+  return {
+    nombre,
+    tipo,
+    obligatorio,
+    opcional: !obligatorio,
+    fuente: FUENTE_DIRECTA,
+    ...(ejemplo !== undefined ? { ejemplo } : {})
+  };
+}
+
+export function parametroObjeto(
+  nombre: string,
+  propiedades: PropiedadEstructura[],
+  obligatorio: boolean,
+  esArray = false
+): Parametro {
+  return {
+    nombre,
+    tipo: "object",
+    obligatorio,
+    opcional: !obligatorio,
+    fuente: FUENTE_DIRECTA,
+    estructura: { esObjeto: !esArray, esArray, propiedades }
+  };
+}
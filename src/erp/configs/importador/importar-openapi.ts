@@ -0,0 +1,289 @@
+import { Endpoint, Parametro, PropiedadEstructura } from "../api-config";
+import {
+  BorradorConfiguracion,
+  OpcionesImportacion,
+  ResultadoImportacion,
+  RevisionImportacion,
+  TipoEscalar,
+  humanizar,
+  parametroEscalar,
+  parametroObjeto,
+  sugerirAccion
+} from "./borrador";
+
+/* ============================================================
+   OpenAPI 3.x / Swagger 2.0 -> ConfiguracionAPI
+   ============================================================ */
+
+const METODOS = ["get", "post", "put", "patch", "delete"] as const;
+
+type Esquema = Record<string, any>;
+
+/**
+ * Acumula las revisiones de un endpoint mientras se leen sus parámetros
+ */
+class ContextoOperacion {
+  readonly revisiones: RevisionImportacion[] = [];
+
+  constructor(readonly endpoint: string) {}
+
+  revisar(motivo: string, campo?: string): void {
+    this.revisiones.push({ endpoint: this.endpoint, ...(campo ? { campo } : {}), motivo });
+  }
+}
+
+export function esDocumentoOpenAPI(documento: any): boolean {
+  return !!documento && typeof documento === "object" && (!!documento.openapi || !!documento.swagger) && !!documento.paths;
+}
+
+/**
+ * Sigue $ref locales (#/components/schemas/X, #/definitions/X); las referencias externas no se resuelven
+ */
+function resolver(documento: any, esquema: any, contexto: ContextoOperacion, campo?: string, visitados = new Set<string>()): Esquema {
+  if (!esquema || typeof esquema !== "object" || !esquema.$ref) return esquema || {};
+
+  const ref: string = esquema.$ref;
+  if (!ref.startsWith("#/") || visitados.has(ref)) {
+    contexto.revisar(`referencia ${ref} ${visitados.has(ref) ? "circular" : "externa"} sin resolver`, campo);
+    return {};
+  }
+
+  const destino = ref.slice(2).split("/")
+    .map(parte => parte.replace(/~1/g, "/").replace(/~0/g, "~"))
+    .reduce((nodo: any, parte) => nodo?.[parte], documento);
+  if (!destino) {
+    contexto.revisar(`referencia ${ref} inexistente`, campo);
+    return {};
+  }
+
+  return resolver(documento, destino, contexto, campo, new Set([...visitados, ref]));
+}
+
+/**
+ * allOf se combina; oneOf/anyOf toma la primera opción y lo marca para revisión
+ */
+function aplanar(documento: any, esquema: Esquema, contexto: ContextoOperacion, campo?: string): Esquema {
+  const base = resolver(documento, esquema, contexto, campo);
+
+  if (Array.isArray(base.allOf)) {
+    return base.allOf
+      .map((parte: any) => aplanar(documento, parte, contexto, campo))
+      .reduce((acumulado: Esquema, parte: Esquema) => ({
+        ...acumulado,
+        ...parte,
+        properties: { ...acumulado.properties, ...parte.properties },
+        required: [...(acumulado.required || []), ...(parte.required || [])]
+      }), { type: "object" });
+  }
+
+  const alternativas = base.oneOf || base.anyOf;
+  if (Array.isArray(alternativas) && alternativas.length > 0) {
+    contexto.revisar(`el esquema admite ${alternativas.length} variantes (oneOf/anyOf); se tomó la primera`, campo);
+    return aplanar(documento, alternativas[0], contexto, campo);
+  }
+
+  return base;
+}
+
+function tipoEscalar(esquema: Esquema, contexto: ContextoOperacion, campo: string): TipoEscalar {
+  const tipo = Array.isArray(esquema.type) ? esquema.type.find((t: string) => t !== "null") : esquema.type;
+
+  switch (tipo) {
+    case "integer":
+      return "int";
+    case "number":
+      contexto.revisar("number importado como int: los decimales no tienen tipo propio", campo);
+      return "int";
+    case "boolean":
+      return "boolean";
+    case "string":
+      if (esquema.format === "date" || esquema.format === "date-time") return "date";
+      return "string";
+    default:
+      contexto.revisar(`tipo '${tipo ?? "sin definir"}' importado como string`, campo);
+      return "string";
+  }
+}
+
+function esObjeto(esquema: Esquema): boolean {
+  return esquema.type === "object" || (!esquema.type && !!esquema.properties);
+}
+
+/**
+ * Propiedades escalares de un objeto; la estructura solo admite un nivel de anidamiento
+ */
+function propiedadesDe(documento: any, esquema: Esquema, contexto: ContextoOperacion, ruta: string): PropiedadEstructura[] {
+  const requeridas = new Set<string>(esquema.required || []);
+
+  return Object.entries<any>(esquema.properties || {}).flatMap(([nombre, valor]) => {
+    const campo = `${ruta}.${nombre}`;
+    const propiedad = aplanar(documento, valor, contexto, campo);
+
+    if (esObjeto(propiedad) || propiedad.type === "array") {
+      contexto.revisar("objeto o array anidado en segundo nivel: la estructura solo admite un nivel, se omitió", campo);
+      return [];
+    }
+
+    return [{
+      nombre,
+      tipo: tipoEscalar(propiedad, contexto, campo),
+      opcional: !requeridas.has(nombre),
+      ...(propiedad.example !== undefined ? { ejemplo: propiedad.example } : {})
+    }];
+  });
+}
+
+/**
+ * Cada propiedad de primer nivel del cuerpo es un Parametro (escalar u objeto con estructura)
+ */
+function parametrosDelCuerpo(documento: any, esquemaCuerpo: any, requerido: boolean, contexto: ContextoOperacion): Parametro[] {
+  const cuerpo = aplanar(documento, esquemaCuerpo, contexto, "body");
+
+  if (!esObjeto(cuerpo)) {
+    contexto.revisar(`el cuerpo no es un objeto (${cuerpo.type ?? "sin tipo"}); define los parámetros a mano`, "body");
+    return [];
+  }
+
+  const requeridas = new Set<string>(cuerpo.required || []);
+
+  return Object.entries<any>(cuerpo.properties || {}).flatMap(([nombre, valor]): Parametro[] => {
+    const esquema = aplanar(documento, valor, contexto, nombre);
+    const obligatorio = requerido && requeridas.has(nombre);
+
+    if (esquema.type === "array") {
+      const items = aplanar(documento, esquema.items || {}, contexto, nombre);
+      if (!esObjeto(items)) {
+        contexto.revisar("array de valores simples: no hay tipo para representarlo, se omitió", nombre);
+        return [];
+      }
+      return [parametroObjeto(nombre, propiedadesDe(documento, items, contexto, nombre), obligatorio, true)];
+    }
+
+    if (esObjeto(esquema)) {
+      const propiedades = propiedadesDe(documento, esquema, contexto, nombre);
+      if (propiedades.length === 0) {
+        contexto.revisar("objeto sin propiedades definidas", nombre);
+      }
+      return [parametroObjeto(nombre, propiedades, obligatorio)];
+    }
+
+    return [parametroEscalar(nombre, tipoEscalar(esquema, contexto, nombre), obligatorio, esquema.example)];
+  });
+}
+
+/**
+ * Parámetros in: query/path (y el in: body de Swagger 2.0)
+ */
+function parametrosDeOperacion(documento: any, parametros: any[], contexto: ContextoOperacion): { parametros: Parametro[]; cuerpo?: { esquema: any; requerido: boolean } } {
+  const resultado: Parametro[] = [];
+  let cuerpo: { esquema: any; requerido: boolean } | undefined;
+
+  for (const original of parametros) {
+    const param = resolver(documento, original, contexto);
+    const nombre = param.name || "?";
+
+    if (param.in === "body") {
+      cuerpo = { esquema: param.schema, requerido: !!param.required };
+      continue;
+    }
+
+    if (param.in === "header" || param.in === "cookie") {
+      contexto.revisar(`parámetro en ${param.in}: el ejecutor no lo envía`, nombre);
+      continue;
+    }
+
+    if (param.in === "path") {
+      contexto.revisar("parámetro de ruta: el ejecutor no sustituye {} en la URL", nombre);
+    }
+
+    // Swagger 2.0 declara el tipo en el propio parámetro; OpenAPI 3 en schema
+    const esquema = aplanar(documento, param.schema || param, contexto, nombre);
+    resultado.push(parametroEscalar(nombre, tipoEscalar(esquema, contexto, nombre), !!param.required, param.example ?? esquema.example));
+  }
+
+  return { parametros: resultado, cuerpo };
+}
+
+function baseUrlDelDocumento(documento: any): string {
+  if (documento.servers?.[0]?.url) return String(documento.servers[0].url).replace(/\/+$/, "");
+  if (documento.host) {
+    const esquema = documento.schemes?.[0] || "https";
+    return `${esquema}://${documento.host}${(documento.basePath || "").replace(/\/+$/, "")}`;
+  }
+  return "";
+}
+
+/**
+ * Módulo: primer tag de la operación o, si no tiene, el primer segmento de la ruta
+ */
+function moduloDe(operacion: any, ruta: string): string {
+  if (Array.isArray(operacion.tags) && operacion.tags[0]) return String(operacion.tags[0]);
+  const segmento = ruta.split("/").find(parte => parte && !parte.startsWith("{"));
+  return segmento ? humanizar(segmento) : "General";
+}
+
+export function importarOpenAPI(documento: any, opciones: OpcionesImportacion): ResultadoImportacion {
+  if (!esDocumentoOpenAPI(documento)) {
+    throw new Error("El documento no es OpenAPI 3.x ni Swagger 2.0 (faltan openapi/swagger o paths)");
+  }
+
+  const borrador = new BorradorConfiguracion(opciones);
+  borrador.establecerBaseUrl(baseUrlDelDocumento(documento));
+
+  for (const [ruta, item] of Object.entries<any>(documento.paths)) {
+    const comunes: any[] = item.parameters || [];
+
+    for (const metodo of METODOS) {
+      const operacion = item[metodo];
+      if (!operacion) continue;
+
+      const verbo = metodo.toUpperCase();
+      const contexto = new ContextoOperacion(`${verbo} ${ruta}`);
+      const nombreOperacion = operacion.operationId || operacion.summary || `${verbo} ${ruta}`;
+
+      const { parametros, cuerpo } = parametrosDeOperacion(documento, [...comunes, ...(operacion.parameters || [])], contexto);
+
+      const esquemaCuerpo = operacion.requestBody
+        ? resolver(documento, operacion.requestBody, contexto, "body")
+        : undefined;
+      const contenido = esquemaCuerpo?.content;
+      if (contenido && !contenido["application/json"]) {
+        contexto.revisar(`el cuerpo no es application/json (${Object.keys(contenido).join(", ")})`, "body");
+      }
+      const cuerpoJson = contenido
+        ? { esquema: (contenido["application/json"] || Object.values<any>(contenido)[0])?.schema, requerido: !!esquemaCuerpo.required }
+        : cuerpo;
+
+      if (cuerpoJson?.esquema) {
+        parametros.push(...parametrosDelCuerpo(documento, cuerpoJson.esquema, cuerpoJson.requerido, contexto));
+      }
+
+      if (verbo === "GET" && parametros.length > 0) {
+        contexto.revisar("GET con parámetros: el ejecutor solo envía el payload como cuerpo en POST/PUT/DELETE");
+      }
+      if (verbo === "PATCH") {
+        contexto.revisar("PATCH no está soportado; se importó como PUT");
+      }
+
+      const sugerencia = sugerirAccion(operacion.operationId || ruta.split("/").filter(Boolean).pop() || "", verbo);
+      if (sugerencia.revision) contexto.revisar(sugerencia.revision);
+
+      const descripcion = operacion.description || operacion.summary || "";
+      if (!descripcion) {
+        contexto.revisar("sin descripción: se generó desde el nombre y el modelo la usa para elegir el endpoint");
+      }
+
+      const endpoint: Omit<Endpoint, "id"> = {
+        endpoint: ruta,
+        nombreReferencia: operacion.summary || humanizar(nombreOperacion),
+        descripcion: descripcion || humanizar(nombreOperacion),
+        metodo: verbo === "PATCH" ? "PUT" : verbo as Endpoint["metodo"],
+        parametros
+      };
+
+      borrador.agregar(moduloDe(operacion, ruta), sugerencia.accion, endpoint, contexto.revisiones);
+    }
+  }
+
+  return borrador.resultado();
+}
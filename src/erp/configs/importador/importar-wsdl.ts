@@ -0,0 +1,306 @@
+import { XMLParser } from "fast-xml-parser";
+import { Endpoint, Parametro, PropiedadEstructura } from "../api-config";
+import {
+  BorradorConfiguracion,
+  OpcionesImportacion,
+  ResultadoImportacion,
+  RevisionImportacion,
+  TipoEscalar,
+  humanizar,
+  parametroEscalar,
+  parametroObjeto,
+  sugerirAccion
+} from "./borrador";
+
+/* ============================================================
+   WSDL 1.1 (servicios WCF .svc) -> ConfiguracionAPI
+   ============================================================ */
+
+// Elementos que pueden repetirse; el parser los devuelve siempre como array
+const REPETIBLES = new Set([
+  "schema", "element", "complexType", "simpleType", "import", "message", "part",
+  "portType", "operation", "binding", "service", "port"
+]);
+
+const TIPOS_XSD: Record<string, TipoEscalar> = {
+  string: "string", guid: "string", char: "string", anyURI: "string", base64Binary: "string",
+  int: "int", long: "int", short: "int", byte: "int", integer: "int",
+  unsignedInt: "int", unsignedLong: "int", unsignedShort: "int", unsignedByte: "int",
+  decimal: "int", double: "int", float: "int",
+  boolean: "boolean",
+  dateTime: "date", date: "date", dateTimeOffset: "date"
+};
+
+const DECIMALES = new Set(["decimal", "double", "float"]);
+
+type NodoXML = Record<string, any>;
+
+/**
+ * "tns:Cliente" -> "Cliente"
+ */
+function sinPrefijo(nombre: string | undefined): string {
+  return (nombre || "").split(":").pop() || "";
+}
+
+class IndiceEsquemas {
+  private readonly elementos = new Map<string, NodoXML>();
+  private readonly tiposComplejos = new Map<string, NodoXML>();
+  private readonly tiposSimples = new Map<string, NodoXML>();
+
+  constructor(esquemas: NodoXML[]) {
+    for (const esquema of esquemas) {
+      for (const elemento of esquema.element || []) this.elementos.set(elemento["@_name"], elemento);
+      for (const tipo of esquema.complexType || []) this.tiposComplejos.set(tipo["@_name"], tipo);
+      for (const tipo of esquema.simpleType || []) this.tiposSimples.set(tipo["@_name"], tipo);
+    }
+  }
+
+  elemento(nombre: string): NodoXML | undefined {
+    return this.elementos.get(sinPrefijo(nombre));
+  }
+
+  tipoComplejo(nombre: string): NodoXML | undefined {
+    return this.tiposComplejos.get(sinPrefijo(nombre));
+  }
+
+  tipoSimple(nombre: string): NodoXML | undefined {
+    return this.tiposSimples.get(sinPrefijo(nombre));
+  }
+}
+
+/**
+ * Acumula las revisiones de una operación
+ */
+class ContextoOperacion {
+  readonly revisiones: RevisionImportacion[] = [];
+
+  constructor(readonly endpoint: string) {}
+
+  revisar(motivo: string, campo?: string): void {
+    this.revisiones.push({ endpoint: this.endpoint, ...(campo ? { campo } : {}), motivo });
+  }
+}
+
+/**
+ * Hijos de una secuencia (sequence / all, también dentro de complexContent/extension)
+ */
+function hijosDe(tipo: NodoXML | undefined, indice: IndiceEsquemas, contexto: ContextoOperacion, campo: string): NodoXML[] {
+  if (!tipo) return [];
+
+  const extension = tipo.complexContent?.extension;
+  if (extension) {
+    const base = indice.tipoComplejo(extension["@_base"]);
+    return [...hijosDe(base, indice, contexto, campo), ...hijosDe(extension, indice, contexto, campo)];
+  }
+
+  if (tipo.choice) {
+    contexto.revisar("xsd:choice: las alternativas se importaron como propiedades opcionales", campo);
+  }
+
+  const grupo = tipo.sequence || tipo.all;
+  const elementos = [...(grupo?.element || []), ...(tipo.choice?.element || [])];
+  return elementos.map(elemento => (tipo.choice?.element?.includes(elemento) ? { ...elemento, "@_minOccurs": "0" } : elemento));
+}
+
+/**
+ * Tipo escalar de un elemento; los simpleType (enumeraciones) se reducen a su base
+ */
+function tipoEscalar(tipoXsd: string, indice: IndiceEsquemas, contexto: ContextoOperacion, campo: string): TipoEscalar | undefined {
+  const nombre = sinPrefijo(tipoXsd);
+  const simple = indice.tipoSimple(nombre);
+  if (simple) {
+    return tipoEscalar(simple.restriction?.["@_base"] || "string", indice, contexto, campo);
+  }
+
+  const tipo = TIPOS_XSD[nombre];
+  if (tipo && DECIMALES.has(nombre)) {
+    contexto.revisar(`${nombre} importado como int: los decimales no tienen tipo propio`, campo);
+  }
+  return tipo;
+}
+
+function esRepetido(elemento: NodoXML): boolean {
+  const max = elemento["@_maxOccurs"];
+  return max === "unbounded" || Number(max) > 1;
+}
+
+function esOpcional(elemento: NodoXML): boolean {
+  return elemento["@_minOccurs"] === "0";
+}
+
+/**
+ * Tipo complejo de un elemento: por atributo type o definido en línea
+ */
+function tipoComplejoDe(elemento: NodoXML, indice: IndiceEsquemas): NodoXML | undefined {
+  return elemento.complexType?.[0] || (elemento["@_type"] ? indice.tipoComplejo(elemento["@_type"]) : undefined);
+}
+
+/**
+ * Los ArrayOfX de WCF envuelven una secuencia de un único elemento repetido
+ */
+function elementoDeArrayWCF(tipo: NodoXML | undefined, indice: IndiceEsquemas): NodoXML | undefined {
+  const hijos = tipo?.sequence?.element || [];
+  return hijos.length === 1 && esRepetido(hijos[0]) ? hijos[0] : undefined;
+}
+
+function propiedadesDe(tipo: NodoXML | undefined, indice: IndiceEsquemas, contexto: ContextoOperacion, ruta: string): PropiedadEstructura[] {
+  return hijosDe(tipo, indice, contexto, ruta).flatMap(hijo => {
+    const nombre = hijo["@_name"] || sinPrefijo(hijo["@_ref"]);
+    const campo = `${ruta}.${nombre}`;
+    const escalar = hijo["@_type"] ? tipoEscalar(hijo["@_type"], indice, contexto, campo) : undefined;
+
+    if (!escalar || esRepetido(hijo)) {
+      contexto.revisar("objeto o lista anidada en segundo nivel: la estructura solo admite un nivel, se omitió", campo);
+      return [];
+    }
+
+    return [{ nombre, tipo: escalar, opcional: esOpcional(hijo) }];
+  });
+}
+
+/**
+ * Cada hijo del elemento envoltorio (document/literal wrapped) es un Parametro
+ */
+function parametrosDeEntrada(envoltorio: NodoXML | undefined, indice: IndiceEsquemas, contexto: ContextoOperacion): Parametro[] {
+  const tipo = envoltorio ? tipoComplejoDe(envoltorio, indice) : undefined;
+
+  return hijosDe(tipo, indice, contexto, "entrada").flatMap((hijo): Parametro[] => {
+    const nombre = hijo["@_name"] || sinPrefijo(hijo["@_ref"]);
+    const obligatorio = !esOpcional(hijo);
+    const escalar = hijo["@_type"] ? tipoEscalar(hijo["@_type"], indice, contexto, nombre) : undefined;
+
+    if (escalar && !esRepetido(hijo)) {
+      return [parametroEscalar(nombre, escalar, obligatorio)];
+    }
+
+    const complejo = tipoComplejoDe(hijo, indice);
+    const itemArray = elementoDeArrayWCF(complejo, indice);
+    if (esRepetido(hijo) || itemArray) {
+      const item = itemArray || hijo;
+      const tipoItem = tipoComplejoDe(item, indice);
+      if (!tipoItem) {
+        contexto.revisar("lista de valores simples: no hay tipo para representarla, se omitió", nombre);
+        return [];
+      }
+      return [parametroObjeto(nombre, propiedadesDe(tipoItem, indice, contexto, nombre), obligatorio, true)];
+    }
+
+    if (!complejo) {
+      contexto.revisar(`tipo '${hijo["@_type"] ?? "sin definir"}' desconocido, importado como string`, nombre);
+      return [parametroEscalar(nombre, "string", obligatorio)];
+    }
+
+    const propiedades = propiedadesDe(complejo, indice, contexto, nombre);
+    if (propiedades.length === 0) {
+      contexto.revisar("objeto sin propiedades definidas", nombre);
+    }
+    return [parametroObjeto(nombre, propiedades, obligatorio)];
+  });
+}
+
+/**
+ * Ruta del servicio (address location del primer port) sin el origen; este va a baseUrl
+ */
+function direccionDelServicio(definiciones: NodoXML): { origen: string; ruta: string } {
+  for (const servicio of definiciones.service || []) {
+    for (const puerto of servicio.port || []) {
+      const location = puerto.address?.["@_location"];
+      if (!location) continue;
+      try {
+        const url = new URL(location);
+        return { origen: url.origin, ruta: url.pathname.replace(/\/+$/, "") };
+      } catch {
+        return { origen: "", ruta: location };
+      }
+    }
+  }
+  return { origen: "", ruta: "" };
+}
+
+export function esDocumentoWSDL(texto: string): boolean {
+  return /<(\w+:)?definitions[\s>]/.test(texto);
+}
+
+/**
+ * Genera un endpoint POST <ruta del .svc>/<operación> por operación del portType, como los expone
+ * WCF con webHttpBinding y cuerpo JSON envuelto. El módulo es el nombre del servicio.
+ */
+export function importarWSDL(xml: string, opciones: OpcionesImportacion): ResultadoImportacion {
+  const parser = new XMLParser({
+    ignoreAttributes: false,
+    attributeNamePrefix: "@_",
+    removeNSPrefix: true,
+    isArray: nombre => REPETIBLES.has(nombre)
+  });
+
+  const definiciones: NodoXML | undefined = parser.parse(xml)?.definitions;
+  if (!definiciones) {
+    throw new Error("El documento no es un WSDL 1.1 (falta wsdl:definitions)");
+  }
+
+  const borrador = new BorradorConfiguracion(opciones);
+  const esquemas: NodoXML[] = (Array.isArray(definiciones.types) ? definiciones.types : [definiciones.types])
+    .flatMap((types: NodoXML | undefined) => types?.schema || []);
+
+  if (esquemas.some(esquema => (esquema.import || []).some((imp: NodoXML) => imp["@_schemaLocation"]))) {
+    borrador.revisar({ motivo: "el WSDL importa esquemas externos (?xsd=); usa la URL ?singleWsdl para incluirlos" });
+  }
+
+  const indice = new IndiceEsquemas(esquemas);
+  const mensajes = new Map<string, NodoXML>((definiciones.message || []).map((m: NodoXML) => [m["@_name"], m]));
+  const { origen, ruta: rutaServicio } = direccionDelServicio(definiciones);
+  borrador.establecerBaseUrl(origen);
+
+  const nombreServicio = definiciones.service?.[0]?.["@_name"] || definiciones["@_name"] || "Servicio";
+  const todoOpcional = { total: 0, opcionales: 0 };
+
+  for (const portType of definiciones.portType || []) {
+    for (const operacion of portType.operation || []) {
+      const nombre: string = operacion["@_name"];
+      const ruta = `${rutaServicio}/${nombre}`;
+      const contexto = new ContextoOperacion(`POST ${ruta}`);
+
+      const mensaje = mensajes.get(sinPrefijo(operacion.input?.["@_message"]));
+      const parte = mensaje?.part?.[0];
+      let parametros: Parametro[] = [];
+
+      if (parte?.["@_element"]) {
+        parametros = parametrosDeEntrada(indice.elemento(parte["@_element"]), indice, contexto);
+      } else if (mensaje?.part?.length) {
+        // rpc/literal: cada part es un parámetro
+        contexto.revisar("estilo rpc: cada part se importó como parámetro");
+        parametros = mensaje.part.map((p: NodoXML) =>
+          parametroEscalar(p["@_name"], tipoEscalar(p["@_type"] || "", indice, contexto, p["@_name"]) || "string", true)
+        );
+      }
+
+      todoOpcional.total += parametros.length;
+      todoOpcional.opcionales += parametros.filter(p => p.opcional).length;
+
+      const sugerencia = sugerirAccion(nombre);
+      if (sugerencia.revision) contexto.revisar(sugerencia.revision);
+
+      const documentacion = typeof operacion.documentation === "string" ? operacion.documentation.trim() : "";
+      if (!documentacion) {
+        contexto.revisar("sin documentación: la descripción se generó desde el nombre y el modelo la usa para elegir el endpoint");
+      }
+
+      const endpoint: Omit<Endpoint, "id"> = {
+        endpoint: ruta,
+        nombreReferencia: humanizar(nombre),
+        descripcion: documentacion || humanizar(nombre),
+        metodo: "POST",
+        parametros
+      };
+
+      borrador.agregar(sinPrefijo(nombreServicio), sugerencia.accion, endpoint, contexto.revisiones);
+    }
+  }
+
+  // WCF publica casi todo con minOccurs="0": obligatorio no es fiable
+  if (todoOpcional.total > 0 && todoOpcional.opcionales === todoOpcional.total) {
+    borrador.revisar({ motivo: "todos los parámetros son minOccurs=0 (habitual en WCF); marca a mano los obligatorios" });
+  }
+
+  return borrador.resultado();
+}
@@ -0,0 +1,92 @@
+import * as fs from "fs";
+import axios from "axios";
+import { esDocumentoOpenAPI, importarOpenAPI } from "./importador/importar-openapi";
+import { esDocumentoWSDL, importarWSDL } from "./importador/importar-wsdl";
+import { OpcionesImportacion, ResultadoImportacion } from "./importador/borrador";
+
+/**
+ * Genera un borrador de ConfiguracionAPI desde un OpenAPI/Swagger (JSON) o un WSDL de WCF.
+ *
+ *   npm run config:import -- <archivo|url> --empresa <nombre> [--base-url <url>] [--modulo <nombre>] [--salida <archivo>]
+ *
+ * Sin --salida el borrador se escribe por stdout. Los puntos dudosos se listan al final
+ * y quedan en observaciones ("REVISAR: ...") de cada endpoint.
+ */
+
+function valorDe(args: string[], opcion: string): string | undefined {
+  const indice = args.indexOf(opcion);
+  return indice >= 0 ? args[indice + 1] : undefined;
+}
+
+async function leerOrigen(origen: string): Promise<string> {
+  if (/^https?:\/\//.test(origen)) {
+    const response = await axios.get(origen, { responseType: "text", transformResponse: r => r, timeout: 30000 });
+    return response.data;
+  }
+  return fs.readFileSync(origen, "utf-8");
+}
+
+function importar(texto: string, opciones: OpcionesImportacion): ResultadoImportacion {
+  if (esDocumentoWSDL(texto)) return importarWSDL(texto, opciones);
+
+  let documento: any;
+  try {
+    documento = JSON.parse(texto);
+  } catch {
+    throw new Error("Formato no reconocido: se espera OpenAPI/Swagger en JSON o un WSDL (para YAML, conviértelo antes a JSON)");
+  }
+
+  if (!esDocumentoOpenAPI(documento)) {
+    throw new Error("El JSON no es un documento OpenAPI 3.x ni Swagger 2.0");
+  }
+  return importarOpenAPI(documento, opciones);
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const conValor = ["--empresa", "--base-url", "--modulo", "--salida"];
+  const origen = args.find((arg, i) => !arg.startsWith("--") && !conValor.includes(args[i - 1]));
+  const empresa = valorDe(args, "--empresa");
+  const salida = valorDe(args, "--salida");
+
+  if (!origen || !empresa) {
+    console.log("Uso: npm run config:import -- <archivo|url> --empresa <nombre> [--base-url <url>] [--modulo <nombre>] [--salida <archivo>]");
+    process.exit(1);
+  }
+
+  if (salida && fs.existsSync(salida)) {
+    console.error(`✖ ${salida} ya existe; el importador no sobrescribe configuraciones`);
+    process.exit(1);
+  }
+
+  const { config, revisiones } = importar(await leerOrigen(origen), {
+    empresa,
+    baseUrl: valorDe(args, "--base-url"),
+    modulo: valorDe(args, "--modulo")
+  });
+
+  const contenido = JSON.stringify(config, null, 2) + "\n";
+  if (salida) {
+    fs.writeFileSync(salida, contenido, "utf-8");
+  } else {
+    process.stdout.write(contenido);
+  }
+
+  const endpoints = config.modulos.reduce((total, m) => total + m.crear.length + m.leer.length + m.actualizar.length + m.eliminar.length, 0);
+  console.error(`\n✔ ${endpoints} endpoints en ${config.modulos.length} módulos${salida ? `: ${salida}` : ""}`);
+
+  if (revisiones.length > 0) {
+    console.error(`⚠ ${revisiones.length} puntos para revisar:`);
+    for (const revision of revisiones) {
+      const donde = [revision.endpoint, revision.campo].filter(Boolean).join(" > ");
+      console.error(`   - ${donde ? `${donde}: ` : ""}${revision.motivo}`);
+    }
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch(error => {
+    console.error(`✖ ${error.message}`);
+    process.exit(1);
+  });
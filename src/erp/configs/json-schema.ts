@@ -0,0 +1,63 @@
+import { Endpoint, Fuente, Parametro, PropiedadEstructura } from "./api-config";
+
+/* ============================================================
+   JSON Schema de los parámetros de un endpoint
+   ============================================================ */
+
+export type JSONSchema = Record<string, any>;
+
+function describirFuente(fuente?: Fuente): string | undefined {
+  if (!fuente || fuente.idReferencia === 0) return undefined;
+  return `Texto a buscar; se resuelve con "${fuente.nombreReferencia}"`;
+}
+
+/**
+ * string/int/boolean/date -> tipo JSON Schema; las fechas van como string con format "date"
+ */
+export function esquemaDeTipo(tipo: PropiedadEstructura["tipo"]): JSONSchema {
+  switch (tipo) {
+    case "int": return { type: "integer" };
+    case "boolean": return { type: "boolean" };
+    case "date": return { type: "string", format: "date" };
+    default: return { type: "string" };
+  }
+}
+
+function esquemaEscalar(campo: PropiedadEstructura | Parametro): JSONSchema {
+  const descripcion = describirFuente(campo.fuente);
+  return {
+    ...esquemaDeTipo(campo.tipo as PropiedadEstructura["tipo"]),
+    ...(descripcion ? { description: descripcion } : {}),
+    ...(campo.ejemplo !== undefined ? { examples: [campo.ejemplo] } : {})
+  };
+}
+
+export function esquemaDeParametro(param: Parametro): JSONSchema {
+  if (param.tipo !== "object") return esquemaEscalar(param);
+
+  const propiedades = param.estructura?.propiedades || [];
+  // Objeto sin propiedades definidas: se acepta cualquier contenido
+  const objeto: JSONSchema = propiedades.length === 0
+    ? { type: "object" }
+    : {
+      type: "object",
+      properties: Object.fromEntries(propiedades.map(prop => [prop.nombre, esquemaEscalar(prop)])),
+      required: propiedades.filter(prop => !prop.opcional).map(prop => prop.nombre),
+      additionalProperties: false
+    };
+
+  return param.estructura?.esArray ? { type: "array", items: objeto } : objeto;
+}
+
+/**
+ * Esquema del payload completo; un parámetro es obligatorio con el mismo criterio
+ * que recorrerParametros (obligatorio || !opcional)
+ */
+export function esquemaDePayload(endpoint: Endpoint): JSONSchema {
+  return {
+    type: "object",
+    properties: Object.fromEntries(endpoint.parametros.map(param => [param.nombre, esquemaDeParametro(param)])),
+    required: endpoint.parametros.filter(param => param.obligatorio || !param.opcional).map(param => param.nombre),
+    additionalProperties: false
+  };
+}
@@ -0,0 +1,68 @@
+import * as fs from "fs";
+import * as path from "path";
+import { convertirLegacyACanonica, esConfiguracionLegacy } from "./config-converter";
+
+/**
+ * Reescribe archivos ERPConfig (erp/baseUrl/CREATE...) al formato canónico.
+ *
+ *   npm run config:migrate -- <archivo|directorio>... [--dry-run]
+ *
+ * El archivo original se conserva como <archivo>.legacy.bak
+ */
+
+function listarArchivos(rutas: string[]): string[] {
+  return rutas.flatMap(ruta => {
+    if (fs.statSync(ruta).isDirectory()) {
+      return fs.readdirSync(ruta)
+        .filter(file => file.endsWith(".json"))
+        .map(file => path.join(ruta, file));
+    }
+    return [ruta];
+  });
+}
+
+function migrar(archivo: string, dryRun: boolean): "migrado" | "omitido" {
+  const contenido = JSON.parse(fs.readFileSync(archivo, "utf-8"));
+  if (!esConfiguracionLegacy(contenido)) return "omitido";
+
+  const canonica = convertirLegacyACanonica(contenido);
+  const salida = JSON.stringify(canonica, null, 2) + "\n";
+
+  if (dryRun) {
+    console.log(`--- ${archivo} ---`);
+    console.log(salida);
+    return "migrado";
+  }
+
+  fs.copyFileSync(archivo, `${archivo}.legacy.bak`);
+  const temporal = `${archivo}.tmp`;
+  fs.writeFileSync(temporal, salida, "utf-8");
+  fs.renameSync(temporal, archivo);
+  return "migrado";
+}
+
+function main() {
+  const args = process.argv.slice(2);
+  const dryRun = args.includes("--dry-run");
+  const rutas = args.filter(arg => !arg.startsWith("--"));
+
+  if (rutas.length === 0) {
+    console.log("Uso: npm run config:migrate -- <archivo|directorio>... [--dry-run]");
+    process.exit(1);
+  }
+
+  let errores = 0;
+  for (const archivo of listarArchivos(rutas)) {
+    try {
+      const resultado = migrar(archivo, dryRun);
+      console.log(`${resultado === "migrado" ? "✔ migrado" : "- ya canónico u otro formato"}: ${archivo}`);
+    } catch (error: any) {
+      errores++;
+      console.error(`✖ ${archivo}: ${error.message}`);
+    }
+  }
+
+  process.exit(errores > 0 ? 1 : 0);
+}
+
+main();
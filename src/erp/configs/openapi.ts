@@ -0,0 +1,132 @@
+import { AccionCRUD, ConfiguracionAPI, Endpoint } from "./api-config";
+import { JSONSchema, esquemaDeParametro, esquemaDePayload } from "./json-schema";
+
+/* ============================================================
+   Exportación OpenAPI 3.1 del catálogo de endpoints
+   ============================================================ */
+
+export type DocumentoOpenAPI = Record<string, any>;
+
+const ACCIONES: AccionCRUD[] = ["crear", "leer", "actualizar", "eliminar"];
+
+interface EndpointUbicado {
+  modulo: string;
+  accion: AccionCRUD;
+  endpoint: Endpoint;
+}
+
+/**
+ * Mismo nombre que las herramientas del modo function calling
+ */
+function idOperacion(endpoints: Endpoint[]): string {
+  return `endpoint_${endpoints.map(ep => ep.id).join("_")}`;
+}
+
+function nombreEsquema(endpoint: Endpoint): string {
+  return `Payload${endpoint.id}`;
+}
+
+function referencia(endpoint: Endpoint): JSONSchema {
+  return { $ref: `#/components/schemas/${nombreEsquema(endpoint)}` };
+}
+
+/**
+ * GET no lleva cuerpo: cada parámetro va en la query (los objetos como deepObject)
+ */
+function parametrosQuery(endpoint: Endpoint): JSONSchema[] {
+  return endpoint.parametros.map(param => ({
+    name: param.nombre,
+    in: "query",
+    required: param.obligatorio || !param.opcional,
+    schema: esquemaDeParametro(param),
+    ...(param.tipo === "object" ? { style: "deepObject", explode: true } : {})
+  }));
+}
+
+/**
+ * Una operación por endpoint. Si varios endpoints comparten ruta y método (el ERP distingue
+ * por el contenido del payload), se fusionan en una operación con anyOf y x-erp-endpoint-ids.
+ */
+function operacion(grupo: EndpointUbicado[]): JSONSchema {
+  const endpoints = grupo.map(g => g.endpoint);
+  const [primero] = grupo;
+  const unico = grupo.length === 1;
+
+  const tags = [...new Set(grupo.flatMap(g => [g.modulo, g.accion]))];
+  const esquema = unico
+    ? referencia(primero.endpoint)
+    : { anyOf: endpoints.map(referencia) };
+
+  return {
+    operationId: idOperacion(endpoints),
+    summary: endpoints.map(ep => ep.nombreReferencia).join(" / "),
+    description: endpoints
+      .map(ep => (unico ? "" : `**${ep.nombreReferencia}** (id ${ep.id}): `) + [ep.descripcion, ep.observaciones].filter(Boolean).join("\n\n"))
+      .join("\n\n"),
+    tags,
+    ...(unico ? { "x-erp-endpoint-id": primero.endpoint.id } : { "x-erp-endpoint-ids": endpoints.map(ep => ep.id) }),
+    ...(primero.endpoint.metodo === "GET"
+      ? { parameters: parametrosQuery(primero.endpoint) }
+      : {
+        requestBody: {
+          required: true,
+          content: { "application/json": { schema: esquema } }
+        }
+      }),
+    responses: {
+      "200": {
+        description: primero.endpoint.tipoSalida || "Respuesta del ERP",
+        content: { "application/json": { schema: {} } }
+      }
+    }
+  };
+}
+
+/**
+ * Documento OpenAPI 3.1 de la empresa: una operación por Endpoint, etiquetada con su
+ * Modulo y su acción CRUD; los cuerpos se derivan de Parametro.estructura
+ */
+export function generarOpenAPI(config: ConfiguracionAPI): DocumentoOpenAPI {
+  const ubicados: EndpointUbicado[] = config.modulos.flatMap(modulo =>
+    ACCIONES.flatMap(accion => (modulo[accion] || []).map(endpoint => ({ modulo: modulo.nombre, accion, endpoint })))
+  );
+
+  const grupos = new Map<string, EndpointUbicado[]>();
+  for (const ubicado of ubicados) {
+    const clave = `${ubicado.endpoint.metodo} ${ubicado.endpoint.endpoint}`;
+    grupos.set(clave, [...(grupos.get(clave) || []), ubicado]);
+  }
+
+  const paths: Record<string, Record<string, JSONSchema>> = {};
+  for (const grupo of grupos.values()) {
+    const { endpoint, metodo } = grupo[0].endpoint;
+    paths[endpoint] = { ...paths[endpoint], [metodo.toLowerCase()]: operacion(grupo) };
+  }
+
+  const schemas = Object.fromEntries(
+    ubicados.map(({ endpoint }) => [nombreEsquema(endpoint), { title: endpoint.nombreReferencia, ...esquemaDePayload(endpoint) }])
+  );
+
+  const modulos = config.modulos.map(m => m.nombre);
+
+  return {
+    openapi: "3.1.0",
+    info: {
+      title: `ERP ${config.empresa.nombre}`,
+      version: "1.0.0",
+      description: `Endpoints que el asistente puede invocar para la empresa ${config.empresa.nombre}`
+    },
+    servers: [{ url: config.empresa.baseUrl }],
+    tags: [
+      ...modulos.map(nombre => ({ name: nombre, description: `Módulo ${nombre}` })),
+      ...ACCIONES.map(accion => ({ name: accion, description: `Acción CRUD: ${accion}` }))
+    ],
+    // Agrupación por módulo para visores que la soportan (Redoc)
+    "x-tagGroups": [
+      ...modulos.map(nombre => ({ name: nombre, tags: [nombre] })),
+      { name: "Acciones", tags: ACCIONES }
+    ],
+    paths,
+    components: { schemas }
+  };
+}
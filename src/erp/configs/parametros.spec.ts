@@ -0,0 +1,67 @@
+import { coercionarValor, cumpleTipo } from "./parametros";
+
+describe("cumpleTipo", () => {
+  it("int solo acepta números enteros", () => {
+    expect(cumpleTipo(12, "int")).toBe(true);
+    expect(cumpleTipo(12.7, "int")).toBe(false);
+    expect(cumpleTipo("12", "int")).toBe(false);
+  });
+
+  it("boolean, date y string comprueban el tipo exacto", () => {
+    expect(cumpleTipo(false, "boolean")).toBe(true);
+    expect(cumpleTipo("true", "boolean")).toBe(false);
+    expect(cumpleTipo("2026-03-05", "date")).toBe(true);
+    expect(cumpleTipo("05/03/2026", "date")).toBe(false);
+    expect(cumpleTipo("texto", "string")).toBe(true);
+    expect(cumpleTipo(5, "string")).toBe(false);
+  });
+});
+
+describe("coercionarValor", () => {
+  it.each([
+    ["12", 12],
+    [" -3 ", -3],
+    ["+5", 5],
+    ["1.234.567", 1234567],
+    ["1,234,567", 1234567],
+    [12, 12]
+  ])("int: %p -> %p", (valor, esperado) => {
+    expect(coercionarValor(valor, "int")).toBe(esperado);
+  });
+
+  it.each(["12.7", "1.2345", "abc12", "12abc", "", "99999999999999999999", 12.7, "1.234.56", "1.234,567", "12.345.678,9"])(
+    "int: %p no es un entero",
+    valor => {
+      expect(coercionarValor(valor, "int")).toBeUndefined();
+    }
+  );
+
+  it.each(["1.234", "1,234", "-2.500"])("int: %p es ambiguo (puede ser un decimal)", valor => {
+    expect(coercionarValor(valor, "int")).toBeUndefined();
+  });
+
+  it("boolean reconoce respuestas en español", () => {
+    expect(coercionarValor("Sí", "boolean")).toBe(true);
+    expect(coercionarValor("inactivo", "boolean")).toBe(false);
+    expect(coercionarValor("quizás", "boolean")).toBeUndefined();
+  });
+
+  it("date lleva DD/MM/AAAA a AAAA-MM-DD y rechaza fechas imposibles", () => {
+    expect(coercionarValor("5/3/2026", "date")).toBe("2026-03-05");
+    expect(coercionarValor("2026-3-5", "date")).toBe("2026-03-05");
+    expect(coercionarValor("30/02/2026", "date")).toBeUndefined();
+  });
+
+  it("date no toma una fecha que está dentro de otro texto", () => {
+    expect(coercionarValor(" 05/03/2026 ", "date")).toBe("2026-03-05");
+    expect(coercionarValor("vence el 05/03/2026", "date")).toBeUndefined();
+    expect(coercionarValor("2026-03-05 a las 10", "date")).toBeUndefined();
+    expect(coercionarValor("105/03/20261", "date")).toBeUndefined();
+  });
+
+  it("string deja el texto tal cual y convierte otros valores", () => {
+    expect(coercionarValor("  ana  ", "string")).toBe("  ana  ");
+    expect(coercionarValor(42, "string")).toBe("42");
+    expect(coercionarValor(null, "string")).toBeUndefined();
+  });
+});
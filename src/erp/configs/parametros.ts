@@ -0,0 +1,132 @@
+import { Endpoint, PropiedadEstructura, RolFecha, esFechaISO } from "./api-config";
+
+/* ============================================================
+   Recorrido de parámetros (incluye propiedades anidadas)
+   ============================================================ */
+
+export type TipoCampo = PropiedadEstructura["tipo"];
+
+export interface CampoDefinido {
+  ruta: string;          // "oEntity.T_Descripcion" o "idCliente"
+  nombre: string;
+  tipo: TipoCampo;
+  obligatorio: boolean;
+  rolFecha?: RolFecha;
+}
+
+/**
+ * Aplana los parámetros de un endpoint en campos escalares.
+ * Un parámetro es obligatorio si `obligatorio` o si no es `opcional`;
+ * una propiedad anidada lo es si no es opcional y su objeto también lo es.
+ */
+export function recorrerParametros(endpoint: Endpoint): CampoDefinido[] {
+  const campos: CampoDefinido[] = [];
+
+  for (const param of endpoint.parametros) {
+    const obligatorio = param.obligatorio || !param.opcional;
+
+    if (param.tipo === "object") {
+      for (const propiedad of param.estructura?.propiedades || []) {
+        campos.push({
+          ruta: `${param.nombre}.${propiedad.nombre}`,
+          nombre: propiedad.nombre,
+          tipo: propiedad.tipo,
+          obligatorio: obligatorio && !propiedad.opcional,
+          rolFecha: propiedad.rolFecha
+        });
+      }
+      continue;
+    }
+
+    campos.push({ ruta: param.nombre, nombre: param.nombre, tipo: param.tipo, obligatorio, rolFecha: param.rolFecha });
+  }
+
+  return campos;
+}
+
+/**
+ * Sin valor o con el marcador "?" que usan los motores para pedirlo al usuario.
+ * "" no cuenta: es el valor por defecto que se pide al LLM para los string.
+ */
+export function esValorFaltante(valor: any): boolean {
+  return valor === undefined || valor === null || valor === "?";
+}
+
+/**
+ * Criterio sin definición de tipos: cualquier valor vacío se pide al usuario
+ */
+export function esValorVacio(valor: any): boolean {
+  return esValorFaltante(valor) || valor === "";
+}
+
+export function cumpleTipo(valor: any, tipo: TipoCampo): boolean {
+  switch (tipo) {
+    case "int": return typeof valor === "number" && Number.isInteger(valor);
+    case "boolean": return typeof valor === "boolean";
+    case "date": return esFechaISO(valor);
+    default: return typeof valor === "string";
+  }
+}
+
+/* ============================================================
+   Coerción de respuestas del usuario
+   ============================================================ */
+
+const VERDADEROS = ["si", "sí", "s", "true", "verdadero", "1", "activo", "yes"];
+const FALSOS = ["no", "n", "false", "falso", "0", "inactivo"];
+
+/**
+ * Convierte un valor (normalmente texto del usuario) al tipo declarado.
+ * Devuelve undefined si no se puede interpretar.
+ */
+export function coercionarValor(valor: any, tipo: TipoCampo): any {
+  if (cumpleTipo(valor, tipo)) return valor;
+  if (valor === undefined || valor === null) return undefined;
+
+  const texto = String(valor).trim();
+  switch (tipo) {
+    case "int": {
+      // Solo si todo el texto es un entero: "12.7" o "abc12" no lo son. Los separadores de miles
+      // se aceptan con dos o más grupos ("1.234.567"); "1.234" o "1,234" puede ser un decimal
+      const agrupado = /^[+-]?\d{1,3}([.,])\d{3}(?:\1\d{3})+$/.test(texto);
+      const sinMiles = agrupado ? texto.replace(/[.,]/g, "") : texto;
+      if (!/^[+-]?\d+$/.test(sinMiles)) return undefined;
+      const entero = Number(sinMiles);
+      return Number.isSafeInteger(entero) ? entero : undefined;
+    }
+    case "boolean": {
+      const normalizado = texto.toLowerCase();
+      if (VERDADEROS.includes(normalizado)) return true;
+      if (FALSOS.includes(normalizado)) return false;
+      return undefined;
+    }
+    case "date":
+      return coercionarFecha(texto);
+    default:
+      return texto.length > 0 ? texto : undefined;
+  }
+}
+
+/**
+ * AAAA-MM-DD, DD/MM/AAAA o DD-MM-AAAA -> AAAA-MM-DD; el texto debe ser solo la fecha
+ */
+function coercionarFecha(texto: string): string | undefined {
+  const iso = texto.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  const local = texto.match(/^(\d{1,2})[\/-](\d{1,2})[\/-](\d{4})$/);
+
+  const partes = iso ? [iso[1], iso[2], iso[3]] : local ? [local[3], local[2], local[1]] : null;
+  if (!partes) return undefined;
+
+  const [anio, mes, dia] = partes;
+  const fecha = `${anio}-${mes.padStart(2, "0")}-${dia.padStart(2, "0")}`;
+  return esFechaISO(fecha) ? fecha : undefined;
+}
+
+export function describirTipo(tipo: TipoCampo): string {
+  switch (tipo) {
+    case "int": return "un número entero";
+    case "boolean": return "sí o no";
+    case "date": return "fecha AAAA-MM-DD";
+    default: return "un texto";
+  }
+}
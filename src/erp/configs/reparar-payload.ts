@@ -0,0 +1,168 @@
+import { Endpoint, EstructuraParametro, PropiedadEstructura, valorPorDefecto } from "./api-config";
+import { TipoCampo, coercionarValor, cumpleTipo } from "./parametros";
+
+/* ============================================================
+   Reparación determinista de payloads generados por el LLM
+   ============================================================ */
+
+export interface ReparacionPayload {
+  payload: Record<string, any>;
+  advertencias: string[];   // una por cada cambio aplicado
+}
+
+function esObjetoPlano(valor: any): valor is Record<string, any> {
+  return typeof valor === "object" && valor !== null && !Array.isArray(valor);
+}
+
+/**
+ * Un valor vacío en un campo no-string equivale a no haberlo informado
+ */
+function sinValor(valor: any, tipo: TipoCampo): boolean {
+  return valor === undefined || valor === null || (valor === "" && tipo !== "string");
+}
+
+/**
+ * Ajusta un escalar a su tipo; los opcionales sin valor reciben el valor por defecto
+ * que el prompt anuncia. Los obligatorios sin valor se dejan para la validación.
+ */
+function repararEscalar(
+  contenedor: Record<string, any>,
+  nombre: string,
+  tipo: TipoCampo,
+  opcional: boolean,
+  ruta: string,
+  advertencias: string[]
+): void {
+  const valor = contenedor[nombre];
+
+  if (sinValor(valor, tipo)) {
+    if (!opcional) return;
+
+    const defecto = valorPorDefecto(tipo);
+    if (defecto === undefined) {
+      // Sin valor por defecto (fechas): un opcional vacío se quita en lugar de enviarlo inválido
+      if (nombre in contenedor) {
+        delete contenedor[nombre];
+        advertencias.push(`${ruta}: se quitó porque venía vacío`);
+      }
+      return;
+    }
+
+    contenedor[nombre] = defecto;
+    advertencias.push(`${ruta}: se completó con el valor por defecto ${JSON.stringify(defecto)}`);
+    return;
+  }
+
+  if (cumpleTipo(valor, tipo)) return;
+
+  const convertido = coercionarValor(valor, tipo);
+  if (convertido === undefined) {
+    advertencias.push(`${ruta}: no se pudo convertir ${JSON.stringify(valor)} a ${tipo}`);
+    return;
+  }
+
+  contenedor[nombre] = convertido;
+  advertencias.push(`${ruta}: se convirtió ${JSON.stringify(valor)} a ${tipo} (${JSON.stringify(convertido)})`);
+}
+
+function repararObjeto(
+  objeto: Record<string, any>,
+  propiedades: PropiedadEstructura[],
+  ruta: string,
+  advertencias: string[]
+): Record<string, any> {
+  const conocidas = new Set(propiedades.map(p => p.nombre));
+  const resultado: Record<string, any> = {};
+
+  for (const [clave, valor] of Object.entries(objeto)) {
+    if (conocidas.has(clave)) {
+      resultado[clave] = valor;
+    } else {
+      advertencias.push(`${ruta}.${clave}: se eliminó la propiedad desconocida`);
+    }
+  }
+
+  for (const propiedad of propiedades) {
+    repararEscalar(resultado, propiedad.nombre, propiedad.tipo, propiedad.opcional, `${ruta}.${propiedad.nombre}`, advertencias);
+  }
+
+  return resultado;
+}
+
+function repararContenedor(
+  valor: any,
+  estructura: EstructuraParametro,
+  ruta: string,
+  advertencias: string[]
+): any {
+  if (estructura.esArray) {
+    const elementos = Array.isArray(valor) ? valor : [valor];
+    if (!Array.isArray(valor)) {
+      advertencias.push(`${ruta}: se envolvió el objeto en un array`);
+    }
+    return elementos.map((elemento, i) =>
+      esObjetoPlano(elemento)
+        ? repararObjeto(elemento, estructura.propiedades, `${ruta}[${i}]`, advertencias)
+        : elemento
+    );
+  }
+
+  if (!esObjetoPlano(valor)) return valor;
+  return repararObjeto(valor, estructura.propiedades, ruta, advertencias);
+}
+
+/**
+ * Corrige el payload según los Parametro/EstructuraParametro del endpoint:
+ * envuelve payloads planos en su contenedor (oEntity, request...), elimina claves
+ * desconocidas, convierte escalares a su tipo y completa opcionales con su valor por defecto.
+ * No inventa valores obligatorios: esos siguen fallando en la validación.
+ */
+export function repararPayload(endpoint: Endpoint, payload: any): ReparacionPayload {
+  const advertencias: string[] = [];
+  let entrada: Record<string, any> = esObjetoPlano(payload) ? { ...payload } : {};
+
+  // 1. Payload plano: las propiedades vinieron sin su objeto contenedor
+  const contenedores = endpoint.parametros.filter(p => p.tipo === "object" && p.estructura);
+  for (const param of contenedores) {
+    if (param.nombre in entrada) continue;
+
+    const propias = new Set(param.estructura!.propiedades.map(p => p.nombre));
+    const sueltas = Object.keys(entrada).filter(clave => propias.has(clave));
+    if (sueltas.length === 0) continue;
+
+    const contenido: Record<string, any> = {};
+    for (const clave of sueltas) {
+      contenido[clave] = entrada[clave];
+      delete entrada[clave];
+    }
+    entrada = { ...entrada, [param.nombre]: contenido };
+    advertencias.push(`${param.nombre}: se agruparon ${sueltas.join(", ")} dentro del objeto contenedor`);
+  }
+
+  // 2. Claves de primer nivel que el endpoint no declara
+  const declarados = new Set(endpoint.parametros.map(p => p.nombre));
+  for (const clave of Object.keys(entrada)) {
+    if (!declarados.has(clave)) {
+      delete entrada[clave];
+      advertencias.push(`${clave}: se eliminó el parámetro desconocido`);
+    }
+  }
+
+  // 3. Tipos y valores por defecto
+  for (const param of endpoint.parametros) {
+    if (param.tipo === "object") {
+      if (!param.estructura) continue;
+      if (!(param.nombre in entrada) || entrada[param.nombre] === null) {
+        if (param.opcional) continue;
+        entrada[param.nombre] = param.estructura.esArray ? [] : {};
+        advertencias.push(`${param.nombre}: se creó el objeto contenedor vacío`);
+      }
+      entrada[param.nombre] = repararContenedor(entrada[param.nombre], param.estructura, param.nombre, advertencias);
+      continue;
+    }
+
+    repararEscalar(entrada, param.nombre, param.tipo, param.opcional && !param.obligatorio, param.nombre, advertencias);
+  }
+
+  return { payload: entrada, advertencias };
+}
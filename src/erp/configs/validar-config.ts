@@ -0,0 +1,55 @@
+import * as fs from "fs";
+import * as path from "path";
+import { formatearProblema, validarArchivo } from "./config-validator";
+
+/**
+ * Valida archivos de configuración de empresa y muestra cada problema con su JSONPath.
+ *
+ *   npm run config:validate -- [archivo|directorio]... [--estricto]
+ *
+ * Sin rutas valida el directorio del registro (ERP_CONFIG_DIR o src/erp/configs).
+ * Sale con código 1 si hay errores, o advertencias con --estricto.
+ */
+
+function listarArchivos(rutas: string[]): string[] {
+  return rutas.flatMap(ruta => {
+    if (fs.statSync(ruta).isDirectory()) {
+      return fs.readdirSync(ruta)
+        .filter(file => file.endsWith(".json"))
+        .sort()
+        .map(file => path.join(ruta, file));
+    }
+    return [ruta];
+  });
+}
+
+function main() {
+  const args = process.argv.slice(2);
+  const estricto = args.includes("--estricto");
+  const rutas = args.filter(arg => !arg.startsWith("--"));
+  const archivos = listarArchivos(rutas.length > 0 ? rutas : [process.env.ERP_CONFIG_DIR || __dirname]);
+
+  if (archivos.length === 0) {
+    console.log("Uso: npm run config:validate -- [archivo|directorio]... [--estricto]");
+    process.exit(1);
+  }
+
+  let fallidos = 0;
+  for (const archivo of archivos) {
+    const { empresa, errores, advertencias } = validarArchivo(archivo);
+    const falla = errores.length > 0 || (estricto && advertencias.length > 0);
+    if (falla) fallidos++;
+
+    console.log(
+      `${falla ? "✖" : "✔"} ${archivo}${empresa ? ` (${empresa})` : ""}: ` +
+      `${errores.length} errores, ${advertencias.length} advertencias`
+    );
+    for (const problema of [...errores, ...advertencias]) {
+      console.log(`   ${formatearProblema(problema)}`);
+    }
+  }
+
+  process.exit(fallidos > 0 ? 1 : 0);
+}
+
+main();
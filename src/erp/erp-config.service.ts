@@ -1,7 +1,8 @@
-import fs from "fs";
-import path from "path";
+import { configuracionRegistry } from "./configs/config-registry";
+import { convertirCanonicaALegacy } from "./configs/config-converter";
 
 export interface ERPConfigEndpoint {
+  id?: number;
   intencion: string;
   descripcion: string;
   endpoint: string;
@@ -22,34 +23,20 @@ export interface ERPConfig {
   }>;
 }
 
+/**
+ * Vista ERPConfig de la configuración canónica, para los motores que trabajan con
+ * CREATE/READ/UPDATE/DELETE. Lee el mismo archivo de empresa que DeepSeekRawService.
+ */
 export class ERPConfigService {
-  private configsDir: string;
-
-  constructor() {
-    this.configsDir = path.join(__dirname, "./configs");
-  }
-
   /**
-   * Carga la configuración de la empresa desde JSON
+   * Carga la configuración de la empresa desde el registro
    */
   public loadConfig(empresa: string): ERPConfig {
-    // Intentar diferentes formatos de nombre de archivo
-    const posiblesArchivos = [
-      `configuracion_${empresa.toLowerCase()}.json`,
-      `configuracion_${empresa}.json`,
-      `${empresa.toLowerCase()}.json`,
-      `${empresa}.json`
-    ];
-
-    for (const nombreArchivo of posiblesArchivos) {
-      const filePath = path.join(this.configsDir, nombreArchivo);
-      if (fs.existsSync(filePath)) {
-        const raw = fs.readFileSync(filePath, "utf-8");
-        return JSON.parse(raw) as ERPConfig;
-      }
+    if (!configuracionRegistry.existe(empresa)) {
+      throw new Error(`No existe configuración para la empresa ${empresa}`);
     }
 
-    throw new Error(`No existe configuración para la empresa ${empresa}`);
+    return convertirCanonicaALegacy(configuracionRegistry.obtener(empresa));
   }
 
   /**
@@ -58,7 +45,9 @@ export class ERPConfigService {
   getEndpoints(empresa: string, modulo: string, crud: keyof ERPConfig["modulos"][string]): ERPConfigEndpoint[] {
     const config = this.loadConfig(empresa);
 
-    const moduloConfig = config.modulos[modulo];
+    // Los motores suelen devolver el módulo en mayúsculas ("CLINICO" para "Clinico")
+    const nombreModulo = Object.keys(config.modulos).find(m => m.toLowerCase() === modulo.toLowerCase());
+    const moduloConfig = nombreModulo ? config.modulos[nombreModulo] : undefined;
     if (!moduloConfig) {
       throw new Error(`Módulo "${modulo}" no encontrado para la empresa ${empresa}`);
     }
@@ -70,4 +59,4 @@ export class ERPConfigService {
 
     return endpoints;
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,89 @@
+import { AddressInfo } from "net";
+import { FastifyInstance } from "fastify";
+import type { ConfiguracionAPI, Endpoint } from "./configs/api-config";
+import { ERPExecutorService } from "./erp-executor.service";
+import { crearMockERP, OpcionesMockERP } from "./mock/mock-erp.server";
+
+function endpoint(id: number, ruta: string): Endpoint {
+  return {
+    id,
+    endpoint: ruta,
+    nombreReferencia: `Endpoint ${id}`,
+    descripcion: "",
+    metodo: "POST",
+    parametros: [{
+      nombre: "oEntity",
+      tipo: "object",
+      obligatorio: false,
+      opcional: true,
+      fuente: { idReferencia: 0, nombreReferencia: "Directo" },
+      estructura: { esObjeto: true, esArray: false, propiedades: [{ nombre: "T_Descripcion", tipo: "string", opcional: true }] }
+    }]
+  };
+}
+
+const modulos: ConfiguracionAPI["modulos"] = [{
+  nombre: "Ventas",
+  crear: [endpoint(2, "/Servicios/Ventas.svc/Crear")],
+  leer: [endpoint(1, "/Servicios/Ventas.svc/Listar")],
+  actualizar: [],
+  eliminar: []
+}];
+
+describe("ERPExecutorService contra el ERP simulado", () => {
+  let erp: FastifyInstance;
+  let config: ConfiguracionAPI;
+
+  async function iniciar(opciones: OpcionesMockERP = {}) {
+    const base: ConfiguracionAPI = { empresa: { nombre: "prueba", baseUrl: "http://127.0.0.1" }, modulos };
+    erp = crearMockERP(base, opciones);
+    await erp.listen({ port: 0, host: "127.0.0.1" });
+    config = { ...base, empresa: { ...base.empresa, baseUrl: `http://127.0.0.1:${(erp.server.address() as AddressInfo).port}` } };
+  }
+
+  afterEach(async () => {
+    await erp.close();
+  });
+
+  const payload = { oEntity: { T_Descripcion: "ana" } };
+
+  it("en PREVIEW ejecuta las lecturas y no envía las escrituras", async () => {
+    await iniciar();
+    const executor = new ERPExecutorService();
+
+    const lectura = await executor.ejecutarEndpoint(config, 1, payload, "PREVIEW");
+    expect(lectura).toMatchObject({ accion: "leer", ejecutado: true, status: 200 });
+    expect(lectura.data.d).toHaveLength(2);
+
+    const escritura = await executor.ejecutarEndpoint(config, 2, payload, "PREVIEW");
+    expect(escritura).toMatchObject({ modo: "PREVIEW", accion: "crear", ejecutado: false });
+    expect(escritura.request).toEqual({ url: `${config.empresa.baseUrl}/Servicios/Ventas.svc/Crear`, metodo: "POST", body: payload });
+    expect(escritura.status).toBeUndefined();
+  });
+
+  it("en COMMIT envía la escritura", async () => {
+    await iniciar();
+
+    const escritura = await new ERPExecutorService().ejecutarEndpoint(config, 2, payload, "COMMIT");
+
+    expect(escritura).toMatchObject({ accion: "crear", ejecutado: true, status: 200, data: { d: { ok: true, recibido: payload } } });
+    expect(escritura.error).toBeUndefined();
+  });
+
+  it("informa el estado cuando el ERP responde con error", async () => {
+    await iniciar({ estado: 500 });
+
+    const resultado = await new ERPExecutorService().ejecutarEndpoint(config, 1, payload);
+
+    expect(resultado).toMatchObject({ ejecutado: true, status: 500, error: "El ERP respondió con estado 500" });
+  });
+
+  it("corta la llamada al vencer el timeout", async () => {
+    await iniciar({ demoraMs: 500 });
+
+    const resultado = await new ERPExecutorService(50).ejecutarEndpoint(config, 2, payload, "COMMIT");
+
+    expect(resultado.ejecutado).toBe(false);
+    expect(resultado.error).toMatch(/^No se pudo contactar al ERP: timeout of 50ms exceeded/);
+  });
+});
@@ -0,0 +1,101 @@
+import axios from "axios";
+import {
+  AccionCRUD,
+  ConfiguracionAPI,
+  RequestPreparado,
+  obtenerAccionDeEndpoint,
+  prepararRequest
+} from "./configs/api-config";
+import { ExecutionMode } from "../types/ia-output.schema";
+
+export interface ResultadoEjecucion {
+  modo: ExecutionMode;
+  accion: AccionCRUD;
+  ejecutado: boolean;
+  request: RequestPreparado;
+  status?: number;
+  data?: any;
+  error?: string;
+  duracionMs?: number;
+}
+
+/**
+ * Ejecuta contra el ERP los requests ya validados por prepararRequest.
+ * Las lecturas se ejecutan siempre; las escrituras solo en modo COMMIT.
+ */
+export class ERPExecutorService {
+  private readonly timeoutMs: number;
+
+  constructor(timeoutMs: number = Number(process.env.ERP_TIMEOUT_MS) || 15000) {
+    this.timeoutMs = timeoutMs;
+  }
+
+  /**
+   * Prepara y ejecuta un endpoint de la configuración
+   */
+  async ejecutarEndpoint(
+    config: ConfiguracionAPI,
+    endpointId: number,
+    payload: Record<string, any>,
+    modo: ExecutionMode = "PREVIEW"
+  ): Promise<ResultadoEjecucion> {
+    const accion = obtenerAccionDeEndpoint(config, endpointId);
+    if (!accion) {
+      throw new Error(`Endpoint ${endpointId} no encontrado en la configuración de ${config.empresa.nombre}`);
+    }
+
+    const request = prepararRequest(config, endpointId, payload);
+    return this.ejecutar(request, accion, modo);
+  }
+
+  /**
+   * Ejecuta un request preparado respetando el modo de ejecución
+   */
+  async ejecutar(
+    request: RequestPreparado,
+    accion: AccionCRUD,
+    modo: ExecutionMode = "PREVIEW"
+  ): Promise<ResultadoEjecucion> {
+    if (accion !== "leer" && modo !== "COMMIT") {
+      return {
+        modo,
+        accion,
+        ejecutado: false,
+        request
+      };
+    }
+
+    const inicio = Date.now();
+
+    try {
+      const response = await axios.request({
+        url: request.url,
+        method: request.metodo,
+        data: request.body,
+        timeout: this.timeoutMs,
+        headers: { ...request.headers, "Content-Type": "application/json" },
+        validateStatus: () => true
+      });
+
+      return {
+        modo,
+        accion,
+        ejecutado: true,
+        request,
+        status: response.status,
+        data: response.data,
+        error: response.status >= 400 ? `El ERP respondió con estado ${response.status}` : undefined,
+        duracionMs: Date.now() - inicio
+      };
+    } catch (error: any) {
+      return {
+        modo,
+        accion,
+        ejecutado: false,
+        request,
+        error: `No se pudo contactar al ERP: ${error.message}`,
+        duracionMs: Date.now() - inicio
+      };
+    }
+  }
+}
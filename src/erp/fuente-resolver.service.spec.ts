@@ -0,0 +1,64 @@
+import { ConfiguracionAPI, Endpoint, Parametro, describirErroresPayload, valorPorDefecto } from "./configs/api-config";
+import { ERPExecutorService, ResultadoEjecucion } from "./erp-executor.service";
+import { FuenteResolverService } from "./fuente-resolver.service";
+
+const DIRECTO = { idReferencia: 0, nombreReferencia: "Directo" };
+
+function parametro(nombre: string, tipo: Parametro["tipo"], cambios: Partial<Parametro> = {}): Parametro {
+  return { nombre, tipo, obligatorio: true, opcional: false, fuente: DIRECTO, ...cambios };
+}
+
+// Búsqueda de clientes que además pide una fecha de corte obligatoria
+const buscarClientes: Endpoint = {
+  id: 1,
+  endpoint: "/Servicios/Ventas.svc/BuscarClientes",
+  nombreReferencia: "Buscar clientes",
+  descripcion: "",
+  metodo: "POST",
+  parametros: [parametro("sTexto", "string"), parametro("dCorte", "date"), parametro("iLimite", "int")]
+};
+
+const crearPedido: Endpoint = {
+  id: 2,
+  endpoint: "/Servicios/Ventas.svc/CrearPedido",
+  nombreReferencia: "Crear pedido",
+  descripcion: "",
+  metodo: "POST",
+  parametros: [parametro("sCliente", "string", { fuente: { idReferencia: 1, nombreReferencia: "Buscar clientes" } })]
+};
+
+const config: ConfiguracionAPI = {
+  empresa: { nombre: "prueba", baseUrl: "http://erp.local" },
+  modulos: [{ nombre: "Ventas", crear: [crearPedido], leer: [buscarClientes], actualizar: [], eliminar: [] }]
+};
+
+describe("FuenteResolverService", () => {
+  let ejecutar: jest.Mock<Promise<Partial<ResultadoEjecucion>>>;
+  let resolver: FuenteResolverService;
+
+  beforeEach(() => {
+    ejecutar = jest.fn(async () => ({ ejecutado: true, status: 200, data: { d: [{ Codigo: "C1", Nombre: "Ana" }] } }));
+    resolver = new FuenteResolverService({ ejecutar } as unknown as ERPExecutorService);
+  });
+
+  it("reemplaza el texto por el valor de la única fila encontrada", async () => {
+    const resultado = await resolver.resolver(config, crearPedido, { sCliente: "ana" });
+
+    expect(resultado.payload).toEqual({ sCliente: "C1" });
+    expect(resultado.resueltos[0].candidatos).toEqual([{ valor: "C1", descripcion: "Ana" }]);
+  });
+
+  it("deja fuera de la búsqueda las fechas sin valor, que la validación informa como faltantes", async () => {
+    await resolver.resolver(config, crearPedido, { sCliente: "ana" });
+
+    const body = ejecutar.mock.calls[0][0].body;
+    expect(body).toEqual({ sTexto: "ana", iLimite: 0 });
+    expect("dCorte" in body).toBe(false);
+    expect(describirErroresPayload(buscarClientes, body)).toEqual(["falta dCorte"]);
+  });
+
+  it("valorPorDefecto no inventa una fecha", () => {
+    expect(valorPorDefecto("date")).toBeUndefined();
+    expect(valorPorDefecto("string")).toBe("");
+  });
+});
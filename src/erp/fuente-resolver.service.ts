@@ -0,0 +1,237 @@
+import {
+  ConfiguracionAPI,
+  Endpoint,
+  Fuente,
+  obtenerEndpointPorId,
+  valorPorDefecto
+} from "./configs/api-config";
+import { ERPExecutorService } from "./erp-executor.service";
+import { COMODIN, PermisoDenegado, Permisos, verificarPermisoEndpoint } from "./permisos";
+import { PoliticaAcceso, filtrarRespuesta } from "./politicas";
+
+// Solo el valor y su descripción: la fila completa del endpoint referenciado no sale del servidor
+export interface CandidatoFuente {
+  valor: any;
+  descripcion: string;
+}
+
+export interface ResolucionFuente {
+  campo: string;             // ruta en el payload: "request.str_codigo_cliente"
+  idReferencia: number;
+  nombreReferencia: string;
+  texto: string;
+  candidatos: CandidatoFuente[];
+}
+
+// Campo cuya fuente es un endpoint que el usuario no puede consultar
+export interface FuenteDenegada {
+  campo: string;
+  idReferencia: number;
+  nombreReferencia: string;
+  denegado: PermisoDenegado;
+}
+
+export interface ResultadoResolucionFuentes {
+  payload: Record<string, any>;
+  resueltos: ResolucionFuente[];
+  ambiguos: ResolucionFuente[];
+  sinCoincidencias: ResolucionFuente[];
+  denegados: FuenteDenegada[];
+}
+
+/**
+ * Quién consulta: el endpoint referenciado se autoriza y filtra como si lo pidiera directamente
+ */
+export interface AccesoFuente {
+  permisos?: Permisos;
+  politica?: PoliticaAcceso;
+}
+
+/**
+ * Resuelve parámetros cuya fuente es otro endpoint (idReferencia != 0):
+ * busca el texto del usuario en el endpoint referenciado y reemplaza el texto por el valor encontrado.
+ */
+export class FuenteResolverService {
+  constructor(private executor: ERPExecutorService = new ERPExecutorService()) {}
+
+  async resolver(
+    config: ConfiguracionAPI,
+    endpoint: Endpoint,
+    payload: Record<string, any>,
+    acceso: AccesoFuente = {}
+  ): Promise<ResultadoResolucionFuentes> {
+    const resultado: ResultadoResolucionFuentes = {
+      payload: JSON.parse(JSON.stringify(payload || {})),
+      resueltos: [],
+      ambiguos: [],
+      sinCoincidencias: [],
+      denegados: []
+    };
+
+    for (const param of endpoint.parametros) {
+      if (this.esReferencia(param.fuente) && param.tipo !== "object") {
+        await this.resolverCampo(config, param.fuente, resultado.payload, param.nombre, param.nombre, resultado, acceso);
+      }
+
+      const contenedor = resultado.payload[param.nombre];
+      if (!contenedor || typeof contenedor !== "object") continue;
+
+      for (const prop of param.estructura?.propiedades || []) {
+        if (this.esReferencia(prop.fuente)) {
+          await this.resolverCampo(config, prop.fuente!, contenedor, prop.nombre, `${param.nombre}.${prop.nombre}`, resultado, acceso);
+        }
+      }
+    }
+
+    return resultado;
+  }
+
+  private esReferencia(fuente?: Fuente): boolean {
+    return !!fuente && fuente.idReferencia !== 0;
+  }
+
+  private async resolverCampo(
+    config: ConfiguracionAPI,
+    fuente: Fuente,
+    contenedor: Record<string, any>,
+    clave: string,
+    campo: string,
+    resultado: ResultadoResolucionFuentes,
+    acceso: AccesoFuente
+  ): Promise<void> {
+    const texto = contenedor[clave];
+    // Sin texto no hay nada que buscar; los valores no textuales se asumen ya resueltos
+    if (typeof texto !== "string" || texto.trim() === "") return;
+
+    const endpointReferencia = obtenerEndpointPorId(config, fuente.idReferencia);
+    if (!endpointReferencia) {
+      throw new Error(`La fuente de '${campo}' apunta al endpoint ${fuente.idReferencia}, que no existe`);
+    }
+
+    // Sin permisos explícitos (autenticación desactivada) solo cuenta la política
+    const denegado = verificarPermisoEndpoint(
+      acceso.permisos || { modulos: [COMODIN], acciones: [COMODIN] },
+      config,
+      fuente.idReferencia,
+      acceso.politica
+    );
+    if (denegado) {
+      resultado.denegados.push({
+        campo,
+        idReferencia: fuente.idReferencia,
+        nombreReferencia: endpointReferencia.nombreReferencia,
+        denegado
+      });
+      return;
+    }
+
+    const ejecucion = await this.executor.ejecutar(
+      {
+        url: `${config.empresa.baseUrl}${endpointReferencia.endpoint}`,
+        metodo: endpointReferencia.metodo,
+        body: this.construirPayloadBusqueda(endpointReferencia, fuente, texto.trim())
+      },
+      "leer"
+    );
+
+    if (ejecucion.error) {
+      throw new Error(`No se pudo resolver '${campo}' con ${endpointReferencia.nombreReferencia}: ${ejecucion.error}`);
+    }
+
+    const data = filtrarRespuesta(acceso.politica, fuente.idReferencia, ejecucion.data);
+    const candidatos = this.extraerFilas(data).map(fila => this.aCandidato(fila, fuente));
+    const resolucion: ResolucionFuente = {
+      campo,
+      idReferencia: fuente.idReferencia,
+      nombreReferencia: endpointReferencia.nombreReferencia,
+      texto,
+      candidatos
+    };
+
+    // Una coincidencia exacta con el valor gana aunque haya más filas
+    const exacto = candidatos.find(c => String(c.valor) === texto.trim());
+    const elegido = exacto || (candidatos.length === 1 ? candidatos[0] : null);
+
+    if (elegido) {
+      contenedor[clave] = elegido.valor;
+      resultado.resueltos.push({ ...resolucion, candidatos: [elegido] });
+    } else if (candidatos.length === 0) {
+      resultado.sinCoincidencias.push(resolucion);
+    } else {
+      resultado.ambiguos.push(resolucion);
+    }
+  }
+
+  /**
+   * Arma el payload del endpoint de búsqueda poniendo el texto en el campo de búsqueda
+   */
+  private construirPayloadBusqueda(endpoint: Endpoint, fuente: Fuente, texto: string): Record<string, any> {
+    const payload: Record<string, any> = {};
+    let textoAsignado = false;
+
+    for (const param of endpoint.parametros) {
+      const propiedades = param.estructura?.propiedades || [];
+
+      if (param.estructura?.esObjeto || propiedades.length > 0) {
+        const objeto: Record<string, any> = {};
+        for (const prop of propiedades) {
+          const esCampoBusqueda: boolean = fuente.campoBusqueda
+            ? prop.nombre === fuente.campoBusqueda
+            : !textoAsignado && prop.tipo === "string";
+          const valor = esCampoBusqueda ? texto : valorPorDefecto(prop.tipo);
+          if (valor !== undefined) objeto[prop.nombre] = valor;
+          textoAsignado = textoAsignado || esCampoBusqueda;
+        }
+        payload[param.nombre] = objeto;
+      } else {
+        const esCampoBusqueda: boolean = fuente.campoBusqueda
+          ? param.nombre === fuente.campoBusqueda
+          : !textoAsignado && param.tipo === "string";
+        const valor = esCampoBusqueda ? texto : valorPorDefecto(param.tipo);
+        if (valor !== undefined) payload[param.nombre] = valor;
+        textoAsignado = textoAsignado || esCampoBusqueda;
+      }
+    }
+
+    return payload;
+  }
+
+  /**
+   * Las respuestas WCF vienen como { d: [...] }; se toma el primer array encontrado
+   */
+  private extraerFilas(data: any): any[] {
+    if (Array.isArray(data)) return data;
+    if (!data || typeof data !== "object") return [];
+    if (Array.isArray(data.d)) return data.d;
+
+    for (const valor of Object.values(data)) {
+      if (Array.isArray(valor)) return valor;
+    }
+    for (const valor of Object.values(data)) {
+      if (valor && typeof valor === "object") {
+        const filas = this.extraerFilas(valor);
+        if (filas.length > 0) return filas;
+      }
+    }
+    return [];
+  }
+
+  private aCandidato(fila: any, fuente: Fuente): CandidatoFuente {
+    if (fila === null || typeof fila !== "object") {
+      return { valor: fila, descripcion: String(fila) };
+    }
+
+    const claves = Object.keys(fila);
+    const claveValor = fuente.campoValor
+      || claves.find(c => /^(id|codigo|cod|str_codigo|n_id|i_id)/i.test(c))
+      || claves[0];
+    const claveDescripcion = fuente.campoDescripcion
+      || claves.find(c => c !== claveValor && typeof fila[c] === "string")
+      || claveValor;
+
+    return {
+      valor: fila[claveValor],
+      descripcion: String(fila[claveDescripcion] ?? fila[claveValor])
+    };
+  }
+}
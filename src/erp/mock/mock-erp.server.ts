@@ -0,0 +1,82 @@
+import Fastify, { FastifyInstance } from "fastify";
+import { cargarConfiguracion, ConfiguracionAPI, Endpoint } from "../configs/api-config";
+
+/**
+ * ERP simulado para probar el ejecutor sin un ERP real.
+ * Registra cada endpoint de la configuración y responde en formato WCF ({ d: ... }).
+ */
+
+export interface OpcionesMockERP {
+  logger?: boolean;
+  demoraMs?: number;        // espera antes de responder (para probar timeouts)
+  estado?: number;          // responde siempre con este estado, p. ej. 500
+}
+
+export function crearMockERP(config: ConfiguracionAPI, opciones: OpcionesMockERP = {}): FastifyInstance {
+  const server = Fastify({
+    logger: opciones.logger ?? false
+  });
+
+  const rutasRegistradas = new Set<string>();
+
+  function registrarEndpoint(endpoint: Endpoint, escritura: boolean) {
+    const clave = `${endpoint.metodo} ${endpoint.endpoint}`;
+    if (rutasRegistradas.has(clave)) return;
+    rutasRegistradas.add(clave);
+
+    server.route({
+      method: endpoint.metodo,
+      url: endpoint.endpoint,
+      handler: async (request, reply) => {
+        if (opciones.demoraMs) {
+          await new Promise(resolve => setTimeout(resolve, opciones.demoraMs));
+        }
+
+        if (opciones.estado) {
+          return reply.status(opciones.estado).send({ d: null, error: `Error simulado ${opciones.estado}` });
+        }
+
+        if (escritura) {
+          return { d: { ok: true, recibido: request.body ?? null } };
+        }
+
+        return {
+          d: [
+            { Id: 1, Descripcion: `${endpoint.nombreReferencia} 1`, filtro: request.body ?? null },
+            { Id: 2, Descripcion: `${endpoint.nombreReferencia} 2`, filtro: request.body ?? null }
+          ]
+        };
+      }
+    });
+  }
+
+  for (const modulo of config.modulos) {
+    modulo.leer.forEach(ep => registrarEndpoint(ep, false));
+    [...modulo.crear, ...modulo.actualizar, ...modulo.eliminar].forEach(ep => registrarEndpoint(ep, true));
+  }
+
+  return server;
+}
+
+const start = async () => {
+  const config = cargarConfiguracion(process.env.MOCK_ERP_EMPRESA);
+  const server = crearMockERP(config, { logger: true });
+  const PORT = Number(process.env.MOCK_ERP_PORT) || Number(new URL(config.empresa.baseUrl).port) || 8098;
+
+  try {
+    await server.listen({
+      port: PORT,
+      host: "0.0.0.0"
+    });
+
+    console.log("-- mock ERP running on port " + PORT + " --");
+  } catch (err) {
+    console.log("-- mock ERP failed to start --");
+    console.log(err);
+    process.exit(1);
+  }
+};
+
+if (require.main === module) {
+  start();
+}
@@ -0,0 +1,104 @@
+import { AccionCRUD, ConfiguracionAPI } from "./configs/api-config";
+import { CRUD_A_ACCION, CrudLegacy } from "./configs/config-converter";
+import { PoliticaAcceso, endpointPermitido } from "./politicas";
+
+/* ============================================================
+   Permisos por módulo y acción
+   ============================================================ */
+
+/**
+ * Módulos y acciones que puede operar un usuario. "*" concede todos.
+ * Las acciones se aceptan canónicas (leer) o en formato ERPConfig (READ).
+ */
+export interface Permisos {
+  modulos: string[];
+  acciones: string[];
+}
+
+export type ErrorPermiso =
+  | "PERMISO_MODULO_DENEGADO"
+  | "PERMISO_ACCION_DENEGADO"
+  | "PERMISO_ENDPOINT_DENEGADO"   // política del rol (ver politicas.ts)
+  | "PERMISO_CAMPO_DENEGADO"
+  | "PERMISO_SESION_DENEGADO";    // diálogo abierto por otra empresa o usuario
+
+export interface PermisoDenegado {
+  error: ErrorPermiso;
+  modulo: string;
+  accion: AccionCRUD;
+}
+
+export const COMODIN = "*";
+
+function normalizarAccion(accion: string): string {
+  const texto = accion.trim().toLowerCase();
+  return CRUD_A_ACCION[texto.toUpperCase() as CrudLegacy] || texto;
+}
+
+/**
+ * null si el permiso alcanza; si no, qué parte falta. Los motores devuelven "Clinico" o
+ * "CLINICO", "READ" o "leer", así que la comparación no distingue mayúsculas ni formato.
+ */
+export function verificarPermiso(permisos: Permisos, modulo: string, accion: string): ErrorPermiso | null {
+  const modulos = permisos.modulos.map(m => m.trim().toLowerCase());
+  if (!modulos.includes(COMODIN) && !modulos.includes((modulo || "").toLowerCase())) {
+    return "PERMISO_MODULO_DENEGADO";
+  }
+
+  const acciones = permisos.acciones.map(normalizarAccion);
+  if (!acciones.includes(COMODIN) && !acciones.includes(normalizarAccion(accion || ""))) {
+    return "PERMISO_ACCION_DENEGADO";
+  }
+
+  return null;
+}
+
+export function tienePermiso(permisos: Permisos | undefined, modulo: string, accion: AccionCRUD): boolean {
+  return !permisos || verificarPermiso(permisos, modulo, accion) === null;
+}
+
+/**
+ * Permiso sobre un endpoint de la configuración por su id (módulo y acción donde está declarado,
+ * y la lista de endpoints de la política del rol)
+ */
+export function verificarPermisoEndpoint(
+  permisos: Permisos,
+  config: ConfiguracionAPI,
+  endpointId: number,
+  politica?: PoliticaAcceso
+): PermisoDenegado | null {
+  for (const modulo of config.modulos) {
+    for (const accion of ["crear", "leer", "actualizar", "eliminar"] as const) {
+      if (modulo[accion].some(ep => ep.id === endpointId)) {
+        const error = verificarPermiso(permisos, modulo.nombre, accion)
+          ?? (endpointPermitido(politica, endpointId) ? null : "PERMISO_ENDPOINT_DENEGADO");
+        return error ? { error, modulo: modulo.nombre, accion } : null;
+      }
+    }
+  }
+  // Un id inexistente lo rechaza después prepararRequest
+  return null;
+}
+
+/**
+ * Unión de varios conjuntos de permisos (los del token y los de cada rol)
+ */
+export function combinarPermisos(...conjuntos: (Permisos | undefined)[]): Permisos {
+  const modulos = new Set<string>();
+  const acciones = new Set<string>();
+  for (const conjunto of conjuntos) {
+    (conjunto?.modulos || []).forEach(m => modulos.add(m));
+    (conjunto?.acciones || []).forEach(a => acciones.add(a));
+  }
+  return { modulos: [...modulos], acciones: [...acciones] };
+}
+
+export function describirPermisoDenegado(error: ErrorPermiso, modulo: string, accion: string): string {
+  switch (error) {
+    case "PERMISO_MODULO_DENEGADO": return `No tienes permiso sobre el módulo ${modulo}`;
+    case "PERMISO_ENDPOINT_DENEGADO": return `No tienes permiso para esta operación de ${modulo}`;
+    case "PERMISO_CAMPO_DENEGADO": return `No tienes permiso para indicar algunos campos en ${modulo}`;
+    case "PERMISO_SESION_DENEGADO": return "La sesión pertenece a otro usuario";
+    default: return `No tienes permiso para ${normalizarAccion(accion)} en ${modulo}`;
+  }
+}
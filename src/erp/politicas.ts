@@ -0,0 +1,190 @@
+import { esValorVacio } from "./configs/parametros";
+
+/* ============================================================
+   Políticas de acceso por rol: endpoints y campos
+   ============================================================ */
+
+/**
+ * Restricciones sobre campos. Un campo se nombra por su ruta sin índices
+ * ("oEntity.T_Descripcion") o solo por su nombre ("T_Descripcion", en cualquier nivel).
+ */
+export interface ReglasCampos {
+  denegados?: string[];             // el usuario no puede indicarlos en el payload
+  ocultos?: string[];               // se quitan de las respuestas del ERP
+  fijos?: Record<string, any>;      // valor obligatorio en el payload, p. ej. { "oEntity.str_codigo_regla": "R01" }
+}
+
+/**
+ * Política de un rol dentro de una empresa. Las reglas de `endpoints` (por id) se suman a las generales.
+ */
+export interface PoliticaAcceso extends ReglasCampos {
+  endpointsPermitidos?: number[];   // si se indica, solo estos endpoints
+  endpointsDenegados?: number[];
+  endpoints?: Record<string, ReglasCampos>;
+}
+
+export interface PayloadConPolitica {
+  payload: Record<string, any>;
+  denegados: string[];              // rutas con valor que se quitaron
+  fijados: string[];                // rutas a las que se impuso el valor de la política
+}
+
+function union(...listas: (string[] | undefined)[]): string[] | undefined {
+  const valores = [...new Set(listas.flatMap(l => l || []))];
+  return valores.length > 0 ? valores : undefined;
+}
+
+/**
+ * Con varios conjuntos de reglas la restricción gana: se suman denegados y ocultos,
+ * y ante dos valores fijos para el mismo campo se conserva el primero
+ */
+function combinarReglas(...reglas: (ReglasCampos | undefined)[]): ReglasCampos {
+  const presentes = reglas.filter((r): r is ReglasCampos => !!r);
+  const fijos = presentes.reduceRight<Record<string, any>>((acc, r) => ({ ...acc, ...(r.fijos || {}) }), {});
+
+  return {
+    denegados: union(...presentes.map(r => r.denegados)),
+    ocultos: union(...presentes.map(r => r.ocultos)),
+    ...(Object.keys(fijos).length > 0 ? { fijos } : {})
+  };
+}
+
+/**
+ * Política efectiva de un usuario con varios roles. Las listas de endpoints permitidos
+ * se unen, pero basta un rol sin lista para no limitar; los denegados siempre se suman.
+ */
+export function combinarPoliticas(...politicas: (PoliticaAcceso | undefined)[]): PoliticaAcceso | undefined {
+  const presentes = politicas.filter((p): p is PoliticaAcceso => !!p);
+  if (presentes.length === 0) return undefined;
+
+  const ids = [...new Set(presentes.flatMap(p => Object.keys(p.endpoints || {})))];
+  const permitidos = presentes.every(p => Array.isArray(p.endpointsPermitidos))
+    ? [...new Set(presentes.flatMap(p => p.endpointsPermitidos!))]
+    : undefined;
+  const denegados = [...new Set(presentes.flatMap(p => p.endpointsDenegados || []))];
+
+  return {
+    ...combinarReglas(...presentes),
+    ...(permitidos ? { endpointsPermitidos: permitidos } : {}),
+    ...(denegados.length > 0 ? { endpointsDenegados: denegados } : {}),
+    ...(ids.length > 0
+      ? { endpoints: Object.fromEntries(ids.map(id => [id, combinarReglas(...presentes.map(p => p.endpoints?.[id]))])) }
+      : {})
+  };
+}
+
+export function endpointPermitido(politica: PoliticaAcceso | undefined, endpointId: number): boolean {
+  if (!politica) return true;
+  if (politica.endpointsDenegados?.includes(endpointId)) return false;
+  return !politica.endpointsPermitidos || politica.endpointsPermitidos.includes(endpointId);
+}
+
+/**
+ * Reglas generales más las del endpoint
+ */
+export function reglasDeEndpoint(politica: PoliticaAcceso | undefined, endpointId: number): ReglasCampos {
+  return politica ? combinarReglas(politica, politica.endpoints?.[String(endpointId)]) : {};
+}
+
+/**
+ * "oEntity[0].T_Descripcion" → ["oEntity", "T_Descripcion"]: las reglas no distinguen elementos de un array
+ */
+function partesDeRuta(ruta: string): string[] {
+  return ruta.replace(/\[\d+\]/g, "").split(".").filter(parte => parte.length > 0 && !/^\d+$/.test(parte));
+}
+
+function coincideCampo(reglas: string[] | undefined, ruta: string): boolean {
+  if (!reglas) return false;
+  const partes = partesDeRuta(ruta);
+  return reglas.some(regla => regla === partes.join(".") || regla === partes[partes.length - 1]);
+}
+
+/**
+ * Campo que el usuario no decide (denegado o con valor fijo): no se le pide
+ */
+export function campoRestringido(politica: PoliticaAcceso | undefined, endpointId: number, ruta: string): boolean {
+  const reglas = reglasDeEndpoint(politica, endpointId);
+  return coincideCampo(reglas.denegados, ruta) || Object.keys(reglas.fijos || {}).includes(partesDeRuta(ruta).join("."));
+}
+
+/**
+ * Copia del valor sin las claves que cumplan `quitar`; recorre objetos y arrays
+ */
+function podar(valor: any, quitar: (ruta: string, valor: any) => boolean, prefijo = ""): any {
+  if (Array.isArray(valor)) return valor.map(item => podar(item, quitar, prefijo));
+  if (!valor || typeof valor !== "object") return valor;
+
+  const copia: Record<string, any> = {};
+  for (const [clave, hijo] of Object.entries(valor)) {
+    const ruta = prefijo ? `${prefijo}.${clave}` : clave;
+    if (!quitar(ruta, hijo)) copia[clave] = podar(hijo, quitar, ruta);
+  }
+  return copia;
+}
+
+/**
+ * Asigna el valor en la ruta; si un tramo es un array se asigna en cada elemento
+ */
+function fijarEnRuta(destino: any, partes: string[], valor: any): void {
+  if (Array.isArray(destino)) {
+    destino.forEach(item => fijarEnRuta(item, partes, valor));
+    return;
+  }
+  if (!destino || typeof destino !== "object") return;
+
+  const [parte, ...resto] = partes;
+  if (resto.length === 0) {
+    destino[parte] = valor;
+    return;
+  }
+  if (!destino[parte] || typeof destino[parte] !== "object") destino[parte] = {};
+  fijarEnRuta(destino[parte], resto, valor);
+}
+
+/**
+ * Quita del payload los campos denegados e impone los valores fijos. Los campos fijos
+ * solo se nombran por ruta completa, porque la ruta dice dónde crearlos.
+ */
+export function aplicarPoliticaPayload(
+  politica: PoliticaAcceso | undefined,
+  endpointId: number,
+  payload: Record<string, any>
+): PayloadConPolitica {
+  const reglas = reglasDeEndpoint(politica, endpointId);
+  const denegados: string[] = [];
+
+  const podado = podar(payload || {}, (ruta, valor) => {
+    if (!coincideCampo(reglas.denegados, ruta)) return false;
+    if (!esValorVacio(valor)) denegados.push(ruta);
+    return true;
+  });
+
+  const fijados = Object.keys(reglas.fijos || {});
+  for (const ruta of fijados) {
+    fijarEnRuta(podado, partesDeRuta(ruta), reglas.fijos![ruta]);
+  }
+
+  return { payload: podado, denegados: [...new Set(denegados)], fijados };
+}
+
+/**
+ * Respuesta del ERP sin los campos ocultos para el usuario
+ */
+export function filtrarRespuesta(politica: PoliticaAcceso | undefined, endpointId: number, data: any): any {
+  const { ocultos } = reglasDeEndpoint(politica, endpointId);
+  if (!ocultos) return data;
+  return podar(data, ruta => coincideCampo(ocultos, ruta));
+}
+
+export function describirCamposDenegados(campos: string[]): string {
+  return `No tienes permiso para indicar ${campos.length === 1 ? "el campo" : "los campos"} ${campos.join(", ")}`;
+}
+
+/**
+ * Advertencia cuando la interpretación traía campos denegados y se quitaron del payload
+ */
+export function advertirCamposQuitados(campos: string[]): string {
+  return campos.length === 1
+    ? `Se quitó del payload el campo ${campos[0]}: no tienes permiso para indicarlo`
+    : `Se quitaron del payload los campos ${campos.join(", ")}: no tienes permiso para indicarlos`;
+}
@@ -20,6 +20,8 @@ export class ConfigLoader {
   // --- Accesores ---
   getVersion(): string { return this.config.version; }
   getUmbralMinimoConfianza(): number { return this.config.settings.umbralMinimoConfianza; }
+  getMaxIntentosLocal(): number { return this.config.settings.maxIntentosLocal ?? 1; }
+  getTiempoEsperaFallback(): number { return this.config.settings.tiempoEsperaFallback ?? 0; }
   getCorreccionesOrtograficas(): Record<string, string> { return this.config.normalizacion.correccionesOrtograficas || {}; }
   getPalabrasAEliminar(): string[] { return this.config.normalizacion.eliminarPalabras || []; }
   getPalabrasVacias(): string[] { return this.config.normalizacion.palabrasVacias || []; }
@@ -3,6 +3,8 @@ import { IALocalInput, IALocalOutput } from "./types";
 import { ConfigLoader } from "./config-loader-core";
 import { ConfigMapping } from "./config-mapping";
 import { calculateSimilarity } from "./utils";
+import { cargarConfiguracion, obtenerEndpointPorId } from "../erp/configs/api-config";
+import { aplicarPeriodo } from "../ia/services/temporal/periodo-payload";
 
 export class IALocalService {
   private erpConfigService = new ERPConfigService();
@@ -12,6 +14,17 @@ export class IALocalService {
     this.configLoader = config ? new ConfigLoader(config) : this.loadConfigFromFile();
   }
 
+  /**
+   * Ajustes que usa el motor HYBRID para decidir cuándo pasar al LLM
+   */
+  getAjustesFallback() {
+    return {
+      umbralMinimoConfianza: this.configLoader.getUmbralMinimoConfianza(),
+      maxIntentosLocal: this.configLoader.getMaxIntentosLocal(),
+      tiempoEsperaFallback: this.configLoader.getTiempoEsperaFallback()
+    };
+  }
+
   private loadConfigFromFile(): ConfigLoader {
     try {
       const fs = require('fs');
@@ -212,11 +225,12 @@ export class IALocalService {
       throw new Error(`No se encontró endpoint con suficiente coincidencia`);
     }
 
-    const payload = { ...mejorEndpoint.endpoint.payload };
+    let payload = { ...mejorEndpoint.endpoint.payload };
     Object.keys(payload).forEach(key => {
       const valorExtraido = this.configLoader.extraerParametro(msgNormalizada, key);
       if (valorExtraido) payload[key] = valorExtraido;
     });
+    payload = this.aplicarFechas(input, mejorEndpoint.endpoint, payload);
 
     return { 
       endpoint: mejorEndpoint.endpoint.endpoint, 
@@ -226,6 +240,20 @@ export class IALocalService {
     };
   }
 
+  /**
+   * Fechas y periodos del mensaje original ("ayer", "del 1 al 15 de enero") en los campos fecha del endpoint
+   */
+  private aplicarFechas(input: IALocalInput, endpointLegacy: ERPConfigEndpoint, payload: any): any {
+    if (endpointLegacy.id === undefined) return payload;
+    try {
+      const config = cargarConfiguracion(input.context.erp);
+      const endpoint = obtenerEndpointPorId(config, endpointLegacy.id);
+      return endpoint ? aplicarPeriodo(endpoint, payload, input.message, config.empresa).payload : payload;
+    } catch {
+      return payload;
+    }
+  }
+
   private calcularCoincidenciaEndpointCorregida(texto: string, endpoint: string, modulo: string, accion: string): number {
     const textoLower = texto.toLowerCase();
     const endpointLower = endpoint.toLowerCase();
@@ -324,6 +352,7 @@ export class IALocalService {
         preview: endpointConfig.tipo_salida === "preview" ? payload : {}, 
         method: endpointConfig.metodo as "GET" | "POST" | "PUT" | "DELETE", 
         endpointConfig, 
+        endpointId: endpointConfig.id,
         confidence 
       };
     } catch (error: any) {
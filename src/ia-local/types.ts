@@ -21,5 +21,6 @@ export interface IALocalOutput {
   preview: any;
   method: "GET" | "POST" | "PUT" | "DELETE";
   endpointConfig: ERPConfigEndpoint;
+  endpointId?: number;
   confidence?: number; // Añade esta línea
 }
\ No newline at end of file
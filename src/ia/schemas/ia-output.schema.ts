@@ -1,3 +1,5 @@
+import { IntentoIA } from "./ia-response.schema";
+
 export interface IAOutputSchema {
   action: "CREATE" | "READ" | "UPDATE" | "DELETE" | string;
 
@@ -10,4 +12,30 @@ export interface IAOutputSchema {
   payload: Record<string, any> | null;
 
   preview: Record<string, any>;
+
+  confidence?: number;
+
+  // Motor que produjo la respuesta (relevante en HYBRID)
+  motorUsado?: string;
+
+  // Sesión de la conversación, para enviar los siguientes mensajes
+  sessionId?: string;
+
+  // Presentes cuando el motor trabaja con la configuración canónica
+  endpointId?: number;
+  urlCompleta?: string;
+  mensaje?: string;
+  advertencias?: string[];
+  intentos?: IntentoIA[];
+}
+
+/**
+ * Respuesta sin acción ejecutable: charla o pedido de aclaración al usuario
+ */
+export interface IAConversacionSchema {
+  tipo: "CONVERSACION" | "ACLARACION";
+  mensaje: string;
+  candidatos?: any[];
+  motorUsado?: string;
+  sessionId?: string;
 }
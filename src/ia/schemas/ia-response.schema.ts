@@ -1,5 +1,17 @@
 // schemas/ia-response.schema.ts
 import { Endpoint } from "../../erp/configs/api-config";
+import { ResolucionFuente } from "../../erp/fuente-resolver.service";
+import { Periodo } from "../services/temporal/periodo-parser";
+import { ErrorPermiso } from "../../erp/permisos";
+
+/**
+ * Un intento del bucle de autocorrección y cómo terminó
+ */
+export interface IntentoIA {
+  numero: number;
+  resultado: 'OK' | 'JSON_INVALIDO' | 'ENDPOINT_DESCONOCIDO' | 'PAYLOAD_INVALIDO';
+  detalle?: string;
+}
 
 export interface IAResponseSchema {
   tipo: 'CONVERSACION' | 'ACCION';
@@ -18,4 +30,31 @@ export interface IAResponseSchema {
   requiereFiltros?: boolean;
   filtrosFaltantes?: string[];
   endpointsDisponibles?: Endpoint[]; // Ahora usa el tipo de api-config
-}
\ No newline at end of file
+  candidatos?: ResolucionFuente[];    // Valores ambiguos de parámetros con fuente != Directo
+  periodo?: Periodo;                  // Periodo reconocido en el mensaje y aplicado a los campos fecha
+  advertencias?: string[];            // Correcciones aplicadas al payload de la IA
+  intentos?: IntentoIA[];             // Intentos del modelo hasta obtener esta respuesta
+  permisoDenegado?: ErrorPermiso;     // El usuario no puede usar el endpoint elegido
+}
+
+/**
+ * Una llamada al modelo: el hash de lo que se le envió y lo que devolvió sin procesar
+ */
+export interface LlamadaModelo {
+  proveedor: string;
+  modelo: string;
+  promptHash: string;                 // sha256 de los mensajes enviados
+  endpoints?: number[];               // endpoints incluidos en el prompt
+  salida?: string;                    // contenido crudo, o la llamada a herramienta como JSON
+  duracionMs: number;
+  error?: string;
+}
+
+/**
+ * Lo que hizo un motor LLM con un mensaje. La crea quien llama, el motor la llena
+ * y la auditoría la guarda.
+ */
+export interface TrazaIA {
+  llamadas: LlamadaModelo[];
+  respuesta?: IAResponseSchema;       // resultado final, con intentos y advertencias
+}
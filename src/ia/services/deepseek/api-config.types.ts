@@ -5,7 +5,8 @@ import {
   ConfiguracionAPI,
   Parametro,
   EstructuraParametro,
-  PropiedadEstructura 
+  PropiedadEstructura,
+  AccionCRUD
 } from "./../../../erp/configs/api-config";
 
 // Tipos re-exportados para usar en deepseek-raw.service
@@ -15,12 +16,10 @@ export type {
   ConfiguracionAPI,
   Parametro,
   EstructuraParametro,
-  PropiedadEstructura
+  PropiedadEstructura,
+  AccionCRUD
 };
 
-// Tipo para acciones CRUD
-export type AccionCRUD = "leer" | "crear" | "actualizar" | "eliminar";
-
 // Helper type para acceder a los endpoints por acción
 export type ModuloConAcciones = Modulo & {
   [K in AccionCRUD]: Endpoint[];
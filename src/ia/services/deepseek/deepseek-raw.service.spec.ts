@@ -0,0 +1,61 @@
+import { DeepSeekRawService } from "./deepseek-raw.service";
+import { FixtureReplayProvider } from "../llm/fixture-replay.provider";
+import { MemoryConversationStore } from "../storage/memory-conversation.store";
+
+const PACIENTES = "/Servicios/Clinico/WCF_Tsm_Pacientes.svc/F_Listar_Autocomplete";
+const FORMAS_PAGO = "/Servicios/wcfbusquedaformapago.svc/Fun_Buscar_FormaPago_Lista_Registros_NET";
+
+function accion(endpoint: string, payload: Record<string, any>): string {
+  return JSON.stringify({ tipo: "ACCION", mensaje: "Busco", modulo: "Clinico", accion: "leer", endpoint, payload });
+}
+
+function servicio(provider: FixtureReplayProvider): DeepSeekRawService {
+  return new DeepSeekRawService("demo", provider, new MemoryConversationStore());
+}
+
+describe("DeepSeekRawService: corrección automática", () => {
+  const entorno = { ...process.env };
+
+  beforeAll(() => {
+    // Los fixtures comparan el texto tal cual; los reintentos quedan en el valor por defecto (2)
+    process.env.LLM_REDACCION = "false";
+    delete process.env.IA_MAX_REINTENTOS;
+  });
+
+  afterAll(() => {
+    process.env = entorno;
+  });
+
+  it("reintenta ante JSON inválido o con forma incorrecta hasta obtener una respuesta válida", async () => {
+    const provider = new FixtureReplayProvider([
+      { content: "null" },
+      { content: JSON.stringify({ tipo: "OTRO" }) },
+      { content: accion(PACIENTES, { oEntity: { T_Descripcion: "ana" } }) }
+    ]);
+
+    const respuesta = await servicio(provider).sendAndMapToSchema("busca paciente ana");
+
+    expect(respuesta.intentos?.map(i => i.resultado)).toEqual(["JSON_INVALIDO", "JSON_INVALIDO", "OK"]);
+    expect(respuesta.requiereFiltros).toBe(false);
+    expect(respuesta.endpointId).toBe(1);
+    expect(respuesta.payload).toEqual({ oEntity: { T_Descripcion: "ana" } });
+
+    // Cada reintento lleva la corrección como último mensaje del usuario
+    const correccion = provider.solicitudes[1].messages.slice(-1)[0];
+    expect(correccion.role).toBe("user");
+    expect(correccion.content).toMatch(/^CORRECCIÓN:/);
+  });
+
+  it("tras el último intento con el payload inválido pide los datos que faltan", async () => {
+    const invalida = accion(FORMAS_PAGO, { x: 1 });
+    const provider = new FixtureReplayProvider([{ content: invalida }, { content: invalida }, { content: invalida }]);
+
+    const respuesta = await servicio(provider).sendAndMapToSchema("formas de pago");
+
+    expect(provider.solicitudes).toHaveLength(3);
+    expect(respuesta.intentos?.slice(0, 2).map(i => i.resultado)).toEqual(["PAYLOAD_INVALIDO", "PAYLOAD_INVALIDO"]);
+    expect(respuesta.requiereFiltros).toBe(true);
+    expect(respuesta.filtrosFaltantes).toEqual(["request: Falta propiedad sTipo"]);
+    expect(provider.solicitudes[1].messages.slice(-1)[0].content).toContain("Falta propiedad sTipo");
+  });
+});
@@ -1,10 +1,10 @@
 // src/ia/services/deepseek/deepseek-raw.service.ts
-import axios from "axios";
-import { IAResponseSchema } from "../../schemas/ia-response.schema";
+import { z } from "zod";
+import { IAResponseSchema, IntentoIA, TrazaIA } from "../../schemas/ia-response.schema";
 import {
     cargarConfiguracion,
-    obtenerEndpointsPorModuloYAccion,
-    validarPayload
+    describirErroresPayload,
+    obtenerEndpointsPorModuloYAccion
 } from "../../../erp/configs/api-config";
 import {
     Endpoint,
@@ -12,20 +12,83 @@ import {
     ModuloConAcciones,
     AccionCRUD
 } from "./api-config.types";
+import { FuenteResolverService } from "../../../erp/fuente-resolver.service";
+import {
+    LLMChatResponse,
+    LLMHerramienta,
+    LLMLlamadaHerramienta,
+    LLMMensaje,
+    LLMProvider,
+    hashDeMensajes
+} from "../llm/llm-provider";
+import { conRedaccion, crearLLMProviderParaEmpresa } from "../llm/llm-provider.factory";
+import { ConversationStore } from "../storage/conversation-store";
+import { obtenerConversationStore } from "../storage/conversation-store.factory";
+import { aplicarPeriodo } from "../temporal/periodo-payload";
+import { repararPayload } from "../../../erp/configs/reparar-payload";
+import { IndiceEndpoints, topKConfigurado } from "../retrieval/indice-endpoints";
+import { esquemaDePayload } from "../../../erp/configs/json-schema";
+import { ErrorPermiso, Permisos, describirPermisoDenegado, verificarPermiso } from "../../../erp/permisos";
+import { PoliticaAcceso, advertirCamposQuitados, aplicarPoliticaPayload, endpointPermitido } from "../../../erp/politicas";
+
+/**
+ * Error que se devuelve a la IA para que corrija su respuesta en otro intento
+ */
+interface CorreccionIA {
+    resultado: Exclude<IntentoIA["resultado"], "OK" | "JSON_INVALIDO">;
+    correccion: string;
+}
+
+/**
+ * Forma mínima de la respuesta JSON del modelo; lo que no la cumple vuelve como corrección.
+ * El resto (módulo, acción, endpoint, payload) lo valida procesarAccion con mensajes propios.
+ */
+const RespuestaModeloSchema = z.discriminatedUnion("tipo", [
+    z.looseObject({
+        tipo: z.literal("CONVERSACION"),
+        mensaje: z.string().min(1)
+    }),
+    z.looseObject({
+        tipo: z.literal("ACCION"),
+        mensaje: z.string().nullish(),
+        modulo: z.string().nullish(),
+        accion: z.string().nullish(),
+        endpoint: z.string().nullish(),
+        payload: z.record(z.string(), z.unknown()).nullish()
+    })
+]);
+
+// Prefijo de las herramientas: endpoint_<id>
+const PREFIJO_HERRAMIENTA = "endpoint_";
+
+function reintentosConfigurados(): number {
+    const valor = Number(process.env.IA_MAX_REINTENTOS);
+    return Number.isInteger(valor) && valor >= 0 ? valor : 2;
+}
 
 export class DeepSeekRawService {
-    private readonly apiKey: string;
-    private readonly baseUrl: string;
+    private readonly empresa?: string;
+    private readonly provider?: LLMProvider;
     private config: ConfiguracionAPI;
-    private readonly modulosDisponibles: string[];
+    private modulosDisponibles: string[];
     private readonly accionesDisponibles: AccionCRUD[] = ["leer", "crear", "actualizar", "eliminar"];
+    private readonly fuenteResolver = new FuenteResolverService();
+    private readonly conversaciones: ConversationStore;
+    private readonly maxReintentos = reintentosConfigurados();
+    private readonly topK = topKConfigurado();
 
-    constructor() {
-        this.apiKey = process.env.DEEPSEEK_API_KEY || "";
-        this.baseUrl = process.env.DEEPSEEK_BASE_URL || "https://api.deepseek.com/v1/chat/completions";
+    /**
+     * @param empresa - Empresa cuya configuración se usa (por defecto la del registro)
+     * @param provider - Proveedor LLM fijo (se le aplica la redacción de la empresa); si no se indica, el configurado para ella
+     * @param conversaciones - Historial por sessionId (por defecto el store compartido)
+     */
+    constructor(empresa?: string, provider?: LLMProvider, conversaciones?: ConversationStore) {
+        this.empresa = empresa;
+        this.provider = provider;
+        this.conversaciones = conversaciones || obtenerConversationStore();
 
         try {
-            this.config = cargarConfiguracion();
+            this.config = cargarConfiguracion(empresa);
             this.modulosDisponibles = this.config.modulos.map(mod => mod.nombre);
         } catch (error) {
             console.error("Error cargando configuración de endpoints:", error);
@@ -33,33 +96,168 @@ export class DeepSeekRawService {
         }
     }
 
+    /**
+     * Toma la versión vigente de la configuración (el registro la recarga si cambió en disco)
+     */
+    private refrescarConfiguracion(): void {
+        this.config = cargarConfiguracion(this.empresa);
+        this.modulosDisponibles = this.config.modulos.map(mod => mod.nombre);
+    }
+
     /**
      * Obtiene todos los endpoints de un módulo y acción específicos
      */
     private obtenerEndpointsPorModuloYAccion(modulo: string, accion: AccionCRUD): Endpoint[] {
-        const resultado = obtenerEndpointsPorModuloYAccion(modulo, accion);
+        const resultado = obtenerEndpointsPorModuloYAccion(modulo, accion, this.config.empresa.nombre);
         if (resultado.success && resultado.data) {
             return resultado.data.flatMap(m => m.endpoints);
         }
         return [];
     }
 
+    /**
+     * Endpoints que entran en el prompt: los IA_TOP_K más parecidos al mensaje según el
+     * índice BM25, más el de la respuesta anterior para las preguntas de seguimiento.
+     * undefined = catálogo completo (preselección desactivada, catálogo pequeño o sin coincidencias)
+     */
+    private seleccionarEndpoints(message: string, historial: LLMMensaje[]): Set<Endpoint> | undefined {
+        const indice = IndiceEndpoints.para(this.config);
+        if (this.topK === 0 || indice.total <= this.topK) return undefined;
+
+        const candidatos = indice.buscar(message, this.topK);
+        if (candidatos.length === 0) return undefined;
+
+        const seleccion = new Set(candidatos.map(c => c.endpoint));
+        const anterior = this.endpointDeLaRespuestaAnterior(historial);
+        if (anterior) seleccion.add(anterior);
+        return seleccion;
+    }
+
+    private endpointDeLaRespuestaAnterior(historial: LLMMensaje[]): Endpoint | null {
+        const ultima = [...historial].reverse().find(m => m.role === "assistant");
+        if (!ultima) return null;
+
+        try {
+            const { modulo, endpoint } = JSON.parse(ultima.content);
+            return modulo && endpoint ? this.buscarEndpointPorRuta(modulo, endpoint) : null;
+        } catch {
+            return null;
+        }
+    }
+
+    /**
+     * System prompt que recibe el modelo para este mensaje y los endpoints que incluye.
+     * Con herramientas cada endpoint va como función (endpoint_<id>) y el prompt no repite su estructura.
+     */
+    public construirPrompt(
+        message: string,
+        historial: LLMMensaje[] = [],
+        conHerramientas = false
+    ): { systemPrompt: string; endpoints: Endpoint[]; herramientas?: LLMHerramienta[] } {
+        this.refrescarConfiguracion();
+        const seleccion = this.seleccionarEndpoints(message, historial);
+        const endpoints = seleccion
+            ? [...seleccion]
+            : this.config.modulos.flatMap(m => this.accionesDisponibles.flatMap(a => (m as ModuloConAcciones)[a] || []));
+
+        if (conHerramientas) {
+            return {
+                systemPrompt: this.generarSystemPromptHerramientas(),
+                endpoints,
+                herramientas: this.generarHerramientas(endpoints)
+            };
+        }
+
+        return { systemPrompt: this.generarSystemPrompt(seleccion), endpoints };
+    }
+
+    /**
+     * Una herramienta por endpoint; los argumentos son el payload, con el JSON Schema de sus parámetros
+     */
+    private generarHerramientas(endpoints: Endpoint[]): LLMHerramienta[] {
+        return endpoints.map(ep => {
+            const ubicacion = this.ubicarEndpoint(ep.id);
+            const contexto = ubicacion ? ` (módulo ${ubicacion.modulo}, acción ${ubicacion.accion})` : '';
+            return {
+                nombre: `${PREFIJO_HERRAMIENTA}${ep.id}`,
+                descripcion: `${ep.nombreReferencia}: ${ep.descripcion}${contexto}`,
+                parametros: esquemaDePayload(ep)
+            };
+        });
+    }
+
+    /**
+     * Prompt del modo herramientas: la estructura de cada payload ya viaja en el JSON Schema
+     */
+    private generarSystemPromptHerramientas(): string {
+        const listaModulos = this.modulosDisponibles
+            .map(mod => `   - ${mod}`)
+            .join('\n');
+
+        return `
+Eres un asistente inteligente dentro de un ERP.
+Tu función es CLASIFICAR cada mensaje en CONVERSACION o ACCION.
+
+============================================================
+MÓDULOS DISPONIBLES:
+${listaModulos}
+============================================================
+
+1. ACCION - El usuario quiere listar, buscar, crear, actualizar o eliminar datos de negocio:
+   - Llama a la herramienta del endpoint que corresponda (una sola)
+   - Los argumentos son el payload: EXTRAE los valores del mensaje del usuario
+   - Si no hay valor para un campo obligatorio, usa el valor por defecto ("" para string, 0 para int, false para boolean)
+
+2. CONVERSACION - Saludos, agradecimientos, preguntas por los módulos disponibles o ayuda general:
+   - NO llames a ninguna herramienta
+   - Responde SOLO con el JSON {"tipo": "CONVERSACION", "mensaje": "Tu respuesta amigable al usuario"}
+   - SI no entiendes el mensaje o ninguna herramienta corresponde, responde CONVERSACION pidiendo aclaración
+
+============================================================
+REGLAS:
+- Las fechas van en formato AAAA-MM-DD; los periodos relativos ("ayer", "marzo", "últimos 30 días")
+  se recalculan a partir del mensaje, así que no necesitas calcularlos con exactitud
+- Los mensajes anteriores de la sesión van antes del mensaje actual; si el usuario se refiere a la
+  respuesta anterior ("ahora solo los de marzo"), parte de ese endpoint y payload y ajústalos
+`;
+    }
+
+    /**
+     * Módulo y acción a los que pertenece un endpoint
+     */
+    private ubicarEndpoint(id: number): { modulo: string; accion: AccionCRUD; endpoint: Endpoint } | null {
+        for (const modulo of this.config.modulos as ModuloConAcciones[]) {
+            for (const accion of this.accionesDisponibles) {
+                const endpoint = (modulo[accion] || []).find(ep => ep.id === id);
+                if (endpoint) return { modulo: modulo.nombre, accion, endpoint };
+            }
+        }
+        return null;
+    }
+
+    /**
+     * Function calling si el proveedor lo soporta; si no, el modelo responde JSON libre
+     */
+    private obtenerProvider(): LLMProvider {
+        return this.provider
+            ? conRedaccion(this.provider, this.config.empresa.nombre)
+            : crearLLMProviderParaEmpresa(this.config.empresa.nombre, "deepseek");
+    }
+
     /**
      * Genera el system prompt dinámico con la ESTRUCTURA EXACTA de cada endpoint
      * LA IA es la única responsable de entender y extraer valores
+     * @param seleccion - Si se indica, solo esos endpoints (preselección por el índice)
      */
-    private generarSystemPrompt(): string {
+    private generarSystemPrompt(seleccion?: Set<Endpoint>): string {
         const listaModulos = this.modulosDisponibles
             .map(mod => `   - ${mod}`)
             .join('\n');
 
-        const contextoEndpoints = this.generarContextoEndpoints();
-        
-        // 📋 CONSOLE LOG: Estructura JSON que se envía a la IA
-        console.log("📋 [DEEPSEEK] SYSTEM PROMPT GENERADO - ESTRUCTURA JSON QUE SE ENVÍA A LA IA:");
-        console.log("═══════════════════════════════════════════════════════════════════════════");
-        console.log(contextoEndpoints);
-        console.log("═══════════════════════════════════════════════════════════════════════════\n");
+        const contextoEndpoints = this.generarContextoEndpoints(seleccion);
+        const alcance = seleccion
+            ? `(SOLO LOS MÁS RELEVANTES PARA ESTE MENSAJE; si ninguno corresponde, responde CONVERSACION pidiendo aclaración)`
+            : `(SOLO PARA ACCIONES DE NEGOCIO)`;
 
         return `
 Eres un asistente inteligente dentro de un ERP.
@@ -99,7 +297,7 @@ REGLAS CRÍTICAS DE CLASIFICACIÓN:
 ✅ SOLO clasifica como ACCION si el usuario pide una operación de negocio específica
 
 ============================================================
-ENDPOINTS DISPONIBLES (SOLO PARA ACCIONES DE NEGOCIO):
+ENDPOINTS DISPONIBLES ${alcance}:
 
 ${contextoEndpoints}
 ============================================================
@@ -143,34 +341,34 @@ REGLAS OBLIGATORIAS:
 4. Si no hay valor para un campo, usa valor por defecto
 5. NUNCA agregues texto fuera del JSON
 6. SI no entiendes el mensaje, responde CONVERSACION pidiendo aclaración
+7. Las fechas van en formato AAAA-MM-DD; los periodos relativos ("ayer", "marzo", "últimos 30 días")
+   se recalculan a partir del mensaje, así que no necesitas calcularlos con exactitud
+
+============================================================
+HISTORIAL DE LA CONVERSACIÓN:
+- Los mensajes anteriores de la sesión van antes del mensaje actual
+- Si el usuario se refiere a la respuesta anterior ("ahora solo los de marzo", "el segundo"),
+  parte del modulo, endpoint y payload de esa respuesta y ajústalos; no empieces de cero
 `;
     }
 
     /**
-     * Genera un string con TODOS los endpoints y su ESTRUCTURA EXACTA de payload
-     * SIN hardcodeo - SOLO muestra la configuración real
-     */
-    /**
-     * Genera un string con TODOS los endpoints y su ESTRUCTURA EXACTA de payload
-     * SIN hardcodeo - SOLO muestra la configuración real
-     */
-    /**
-     * Genera un string con TODOS los endpoints y su ESTRUCTURA EXACTA de payload
-     * SIN hardcodeo - SOLO muestra la configuración real
-     */
-    /**
- * Genera un string con TODOS los endpoints y su ESTRUCTURA EXACTA de payload
+ * Genera un string con los endpoints (TODOS o la selección) y su ESTRUCTURA EXACTA de payload
  */
-private generarContextoEndpoints(): string {
+private generarContextoEndpoints(seleccion?: Set<Endpoint>): string {
     let contexto = '';
 
     for (const modulo of this.config.modulos) {
         const moduloConAcciones = modulo as ModuloConAcciones;
+        const incluidos = (accion: AccionCRUD) =>
+            (moduloConAcciones[accion] || []).filter(ep => !seleccion || seleccion.has(ep));
+        if (this.accionesDisponibles.every(accion => incluidos(accion).length === 0)) continue;
+
         contexto += `\n========== MÓDULO: ${modulo.nombre} ==========\n`;
 
         for (const accion of this.accionesDisponibles) {
-            const endpoints = moduloConAcciones[accion];
-            if (endpoints && endpoints.length > 0) {
+            const endpoints = incluidos(accion);
+            if (endpoints.length > 0) {
                 contexto += `\n--- ACCIÓN: ${accion.toUpperCase()} ---\n`;
                 endpoints.forEach((ep: Endpoint) => {
                     contexto += `\n📍 ENDPOINT: ${ep.endpoint}\n`;
@@ -188,7 +386,7 @@ private generarContextoEndpoints(): string {
                             param.estructura.propiedades.forEach((prop: any, index: number) => {
                                 const valorPorDefecto = this.obtenerValorPorDefecto(prop.tipo);
                                 const coma = index < param.estructura.propiedades.length - 1 ? ',' : '';
-                                contexto += `       "${prop.nombre}": ${valorPorDefecto}${coma}  // ${prop.tipo}${prop.opcional ? ' (opcional)' : ' (obligatorio)'}\n`;
+                                contexto += `       "${prop.nombre}": ${valorPorDefecto}${coma}  // ${prop.tipo}${prop.opcional ? ' (opcional)' : ' (obligatorio)'}${this.describirFuente(prop.fuente)}\n`;
                             });
                             
                             contexto += `     }\n`;
@@ -206,7 +404,7 @@ private generarContextoEndpoints(): string {
                         // 🔥 CASO 4: PARÁMETRO SIMPLE
                         else {
                             const valorPorDefecto = this.obtenerValorPorDefecto(param.tipo);
-                            contexto += `   { "${param.nombre}": ${valorPorDefecto} }  // ${param.tipo}${param.opcional ? ' (opcional)' : ' (obligatorio)'}\n`;
+                            contexto += `   { "${param.nombre}": ${valorPorDefecto} }  // ${param.tipo}${param.opcional ? ' (opcional)' : ' (obligatorio)'}${this.describirFuente(param.fuente)}\n`;
                         }
                     });
                     
@@ -219,12 +417,21 @@ private generarContextoEndpoints(): string {
     return contexto;
 }
 
+    /**
+     * Indica a la IA que el campo se resuelve buscando el texto en otro endpoint
+     */
+    private describirFuente(fuente?: { idReferencia: number; nombreReferencia: string }): string {
+        if (!fuente || fuente.idReferencia === 0) return '';
+        return ` [escribe el TEXTO a buscar; se resuelve con "${fuente.nombreReferencia}"]`;
+    }
+
     /**
      * Obtiene el valor por defecto según el tipo de dato
      */
     private obtenerValorPorDefecto(tipo: string): string {
         switch (tipo?.toLowerCase()) {
             case 'string':
+            case 'date':
                 return '""';
             case 'int':
             case 'number':
@@ -240,42 +447,60 @@ private generarContextoEndpoints(): string {
         }
     }
 
-    async sendRawMessage(message: string): Promise<any> {
-        const systemPrompt = this.generarSystemPrompt();
-        
-        const requestBody = {
-            model: "deepseek-chat",
-            messages: [
-                {
-                    role: "system",
-                    content: systemPrompt
-                },
-                {
-                    role: "user",
-                    content: message
-                }
-            ],
-            temperature: 0
-        };
-
-        // 📋 CONSOLE LOG: JSON completo que se envía a DeepSeek
-        console.log("📤 [DEEPSEEK] REQUEST BODY COMPLETO ENVIADO A LA API:");
-        console.log("═══════════════════════════════════════════════════════════════════════════");
-        console.log(JSON.stringify(requestBody, null, 2));
-        console.log("═══════════════════════════════════════════════════════════════════════════\n");
-
-        const response = await axios.post(
-            this.baseUrl,
-            requestBody,
+    /**
+     * @param historial - Turnos previos de la sesión, ya recortados al presupuesto de tokens
+     * @param correcciones - Respuestas fallidas de este mismo mensaje y la corrección pedida para cada una
+     * @param traza - Si se indica, se le agrega la llamada (hash del prompt, salida cruda y duración)
+     */
+    async sendRawMessage(
+        message: string,
+        historial: LLMMensaje[] = [],
+        correcciones: LLMMensaje[] = [],
+        traza?: TrazaIA
+    ): Promise<LLMChatResponse> {
+        const provider = this.obtenerProvider();
+        const conHerramientas = provider.soportaHerramientas === true;
+        const { systemPrompt, endpoints, herramientas } = this.construirPrompt(message, historial, conHerramientas);
+
+        const messages: LLMMensaje[] = [
             {
-                headers: {
-                    "Content-Type": "application/json",
-                    Authorization: `Bearer ${this.apiKey}`
-                }
-            }
-        );
+                role: "system",
+                content: systemPrompt
+            },
+            ...historial,
+            {
+                role: "user",
+                content: message
+            },
+            ...correcciones
+        ];
+
+        const llamada = {
+            proveedor: provider.proveedor,
+            modelo: provider.modelo,
+            promptHash: hashDeMensajes(messages),
+            endpoints: endpoints.map(ep => ep.id)
+        };
+        const inicio = Date.now();
 
-        return response.data;
+        try {
+            const respuesta = conHerramientas
+                ? await provider.chat({ messages, herramientas })
+                : await provider.chat({ messages, jsonMode: true });
+
+            const herramienta = respuesta.llamadas?.[0];
+            traza?.llamadas.push({
+                ...llamada,
+                salida: herramienta
+                    ? JSON.stringify({ herramienta: herramienta.nombre, argumentos: herramienta.argumentos })
+                    : respuesta.content,
+                duracionMs: Date.now() - inicio
+            });
+            return respuesta;
+        } catch (error: any) {
+            traza?.llamadas.push({ ...llamada, duracionMs: Date.now() - inicio, error: error.message });
+            throw error;
+        }
     }
 
     /**
@@ -342,18 +567,11 @@ private generarContextoEndpoints(): string {
      */
     private async procesarAccion(
         mensajeUsuario: string,
-        respuestaIA: IAResponseSchema
-    ): Promise<IAResponseSchema> {
-
-        // 📋 CONSOLE LOG: Payload que decidió colocar la IA
-        console.log("🎯 [DEEPSEEK] PAYLOAD DECIDIDO POR LA IA:");
-        console.log("═══════════════════════════════════════════════════════════════════════════");
-        console.log("📝 Mensaje usuario:", mensajeUsuario);
-        console.log("📦 Payload IA:", JSON.stringify(respuestaIA.payload, null, 2));
-        console.log("📌 Módulo:", respuestaIA.modulo);
-        console.log("⚙️ Acción:", respuestaIA.accion);
-        console.log("🔗 Endpoint:", respuestaIA.endpoint);
-        console.log("═══════════════════════════════════════════════════════════════════════════\n");
+        respuestaIA: IAResponseSchema,
+        puedeReintentar: boolean,
+        permisos?: Permisos,
+        politica?: PoliticaAcceso
+    ): Promise<IAResponseSchema | CorreccionIA> {
 
         // 1. Validar módulo
         if (!respuestaIA.modulo) {
@@ -390,31 +608,64 @@ private generarContextoEndpoints(): string {
             };
         }
 
-        // 3. Verificar que el endpoint existe en el módulo
-        let endpoint: Endpoint | null = null;
-
-        if (respuestaIA.endpoint) {
-            endpoint = this.buscarEndpointPorRuta(respuestaIA.modulo, respuestaIA.endpoint);
-        }
+        // 3. Verificar que el endpoint existe en el módulo (por id si vino de una herramienta:
+        //    dos endpoints pueden compartir ruta con distinto payload)
+        const endpoint = respuestaIA.endpointId
+            ? this.ubicarEndpoint(respuestaIA.endpointId)?.endpoint || null
+            : respuestaIA.endpoint
+                ? this.buscarEndpointPorRuta(respuestaIA.modulo, respuestaIA.endpoint)
+                : null;
 
-        // 4. Si no hay endpoint válido, tomar el primero disponible
+        // 4. Sin endpoint válido no se adivina: se pide a la IA que elija uno de la lista
         if (!endpoint) {
             const endpoints = this.obtenerEndpointsPorModuloYAccion(
                 respuestaIA.modulo,
                 respuestaIA.accion as AccionCRUD
             );
+            const problema = respuestaIA.endpoint
+                ? `El endpoint '${respuestaIA.endpoint}' no existe en ${respuestaIA.modulo}`
+                : `No indicaste el endpoint`;
 
-            if (endpoints.length === 0) {
+            if (puedeReintentar) {
                 return {
-                    tipo: 'ACCION',
-                    mensaje: `No encontré endpoints para ${respuestaIA.modulo}/${respuestaIA.accion}`,
-                    requiereFiltros: true,
-                    modulo: respuestaIA.modulo,
-                    accion: respuestaIA.accion
+                    resultado: 'ENDPOINT_DESCONOCIDO',
+                    correccion: endpoints.length > 0
+                        ? `${problema}. Usa EXACTAMENTE una de estas rutas para ${respuestaIA.modulo}/${respuestaIA.accion}: ${endpoints.map(e => e.endpoint).join(', ')}`
+                        : `${problema} y no hay endpoints para ${respuestaIA.modulo}/${respuestaIA.accion}. Revisa el módulo y la acción.`
                 };
             }
 
-            endpoint = endpoints[0];
+            return {
+                tipo: 'ACCION',
+                mensaje: endpoints.length > 0
+                    ? `No pude identificar la operación en ${respuestaIA.modulo}. ¿Cuál necesitas?\n${endpoints.map(e => `   - ${e.nombreReferencia}: ${e.descripcion}`).join('\n')}`
+                    : `No encontré endpoints para ${respuestaIA.modulo}/${respuestaIA.accion}`,
+                requiereFiltros: true,
+                modulo: respuestaIA.modulo,
+                accion: respuestaIA.accion,
+                ...(endpoints.length > 0 ? { endpointsDisponibles: endpoints } : {})
+            };
+        }
+
+        // 4b. Permisos sobre el módulo y la acción donde está declarado el endpoint, y política
+        //     del rol, antes de resolver fuentes (que ya consultan el ERP)
+        const ubicado = this.ubicarEndpoint(endpoint.id);
+        const denegado: ErrorPermiso | null = !ubicado
+            ? null
+            : (permisos ? verificarPermiso(permisos, ubicado.modulo, ubicado.accion) : null)
+                ?? (endpointPermitido(politica, endpoint.id) ? null : "PERMISO_ENDPOINT_DENEGADO");
+        if (denegado) {
+            return {
+                tipo: 'ACCION',
+                mensaje: describirPermisoDenegado(denegado, ubicado!.modulo, ubicado!.accion),
+                requiereFiltros: false,
+                modulo: ubicado!.modulo,
+                accion: ubicado!.accion,
+                endpoint: endpoint.endpoint,
+                method: endpoint.metodo,
+                endpointId: endpoint.id,
+                permisoDenegado: denegado
+            };
         }
 
         // 5. ✅ VALIDAR que la IA haya enviado payload
@@ -430,7 +681,100 @@ private generarContextoEndpoints(): string {
             };
         }
 
-        // 6. ✅ VALIDAR que el payload tenga la estructura correcta
+        // 6. Resolver parámetros cuya fuente es otro endpoint antes de reparar y validar: hasta
+        //    entonces un campo int con fuente trae el texto del usuario, no el id
+        const resolucion = await this.fuenteResolver.resolver(this.config, endpoint, respuestaIA.payload, { permisos, politica });
+
+        if (resolucion.denegados.length > 0) {
+            const { denegado } = resolucion.denegados[0];
+            return {
+                tipo: 'ACCION',
+                mensaje: describirPermisoDenegado(denegado.error, denegado.modulo, denegado.accion),
+                requiereFiltros: false,
+                modulo: denegado.modulo,
+                accion: denegado.accion,
+                endpoint: endpoint.endpoint,
+                method: endpoint.metodo,
+                endpointId: endpoint.id,
+                permisoDenegado: denegado.error
+            };
+        }
+
+        if (resolucion.sinCoincidencias.length > 0) {
+            const detalle = resolucion.sinCoincidencias
+                .map(r => `'${r.texto}' en ${r.nombreReferencia}`)
+                .join(', ');
+            return {
+                tipo: 'ACCION',
+                mensaje: `No encontré coincidencias para ${detalle}. ¿Puedes indicarlo de otra forma?`,
+                requiereFiltros: true,
+                modulo: respuestaIA.modulo,
+                accion: respuestaIA.accion,
+                endpoint: endpoint.endpoint,
+                method: endpoint.metodo,
+                payload: resolucion.payload,
+                endpointId: endpoint.id
+            };
+        }
+
+        if (resolucion.ambiguos.length > 0) {
+            const opciones = resolucion.ambiguos
+                .map(r => `${r.campo} ('${r.texto}'):\n` + r.candidatos
+                    .map((c, i) => `   ${i + 1}. ${c.descripcion} (${c.valor})`)
+                    .join('\n'))
+                .join('\n');
+            return {
+                tipo: 'ACCION',
+                mensaje: `Encontré varias coincidencias, ¿cuál quieres usar?\n${opciones}`,
+                requiereFiltros: true,
+                modulo: respuestaIA.modulo,
+                accion: respuestaIA.accion,
+                endpoint: endpoint.endpoint,
+                method: endpoint.metodo,
+                payload: resolucion.payload,
+                endpointId: endpoint.id,
+                candidatos: resolucion.ambiguos
+            };
+        }
+
+        respuestaIA.payload = resolucion.payload;
+
+        // 7. Reparar tipos, claves desconocidas, opcionales y contenedor según la definición;
+        //    luego la política del rol quita campos denegados e impone los valores fijos
+        const reparacion = repararPayload(endpoint, respuestaIA.payload);
+        const conPolitica = aplicarPoliticaPayload(politica, endpoint.id, reparacion.payload);
+        respuestaIA.payload = conPolitica.payload;
+        const listaAdvertencias = conPolitica.denegados.length > 0
+            ? [...reparacion.advertencias, advertirCamposQuitados(conPolitica.denegados)]
+            : reparacion.advertencias;
+        const advertencias = listaAdvertencias.length > 0 ? { advertencias: listaAdvertencias } : {};
+
+        // 8. Errores de validarPayload: la IA tiene otra oportunidad; sin más intentos la acción
+        //    no se libera y se piden los datos al usuario
+        const erroresPayload = describirErroresPayload(endpoint, respuestaIA.payload);
+        if (erroresPayload.length > 0) {
+            if (puedeReintentar) {
+                return {
+                    resultado: 'PAYLOAD_INVALIDO',
+                    correccion: `El payload para ${endpoint.endpoint} no cumple la definición: ${erroresPayload.join('; ')}`
+                };
+            }
+            return {
+                tipo: 'ACCION',
+                mensaje: `No pude completar los datos para ${endpoint.nombreReferencia}: ${erroresPayload.join('; ')}. ¿Puedes indicarlos?`,
+                requiereFiltros: true,
+                filtrosFaltantes: erroresPayload,
+                modulo: respuestaIA.modulo,
+                accion: respuestaIA.accion,
+                endpoint: endpoint.endpoint,
+                method: endpoint.metodo,
+                endpointId: endpoint.id,
+                payload: respuestaIA.payload,
+                ...advertencias
+            };
+        }
+
+        // ✅ VALIDAR que el payload tenga la estructura correcta
         const validacionPayload = this.validarEstructuraPayload(endpoint, respuestaIA.payload);
         if (!validacionPayload.valido) {
             return {
@@ -441,11 +785,16 @@ private generarContextoEndpoints(): string {
                 accion: respuestaIA.accion,
                 endpoint: endpoint.endpoint,
                 method: endpoint.metodo,
-                payload: respuestaIA.payload
+                payload: respuestaIA.payload,
+                ...advertencias
             };
         }
 
-        // 7. Construir respuesta
+        // 9. Fechas y periodos: se calculan del mensaje, no se confía en las que invente la IA
+        const fechas = aplicarPeriodo(endpoint, respuestaIA.payload, mensajeUsuario, this.config.empresa);
+        respuestaIA.payload = fechas.payload;
+
+        // 10. Construir respuesta
         const urlCompleta = `${this.config.empresa.baseUrl}${endpoint.endpoint}`;
 
         const respuestaFinal: IAResponseSchema = {
@@ -458,15 +807,11 @@ private generarContextoEndpoints(): string {
             payload: respuestaIA.payload,  // ✅ USAMOS EL PAYLOAD DE LA IA
             method: endpoint.metodo,
             requiereFiltros: false,
-            endpointId: endpoint.id
+            endpointId: endpoint.id,
+            ...(fechas.periodo ? { periodo: fechas.periodo } : {}),
+            ...advertencias
         };
 
-        // 📋 CONSOLE LOG: JSON final que se va a usar
-        console.log("🚀 [DEEPSEEK] JSON FINAL QUE SE VA A USAR PARA LA PETICIÓN:");
-        console.log("═══════════════════════════════════════════════════════════════════════════");
-        console.log(JSON.stringify(respuestaFinal, null, 2));
-        console.log("═══════════════════════════════════════════════════════════════════════════\n");
-
         return respuestaFinal;
     }
 
@@ -527,50 +872,216 @@ private generarContextoEndpoints(): string {
         return verbos[accion] || accion;
     }
 
-    async sendAndMapToSchema(message: string): Promise<IAResponseSchema> {
-        // 1. Obtener respuesta de la IA
-        const raw = await this.sendRawMessage(message);
-        const content = raw?.choices?.[0]?.message?.content;
+    /**
+     * @param sessionId - Con sessionId el mensaje se interpreta junto al historial de la sesión
+     * @param permisos - Del usuario autenticado; el servicio se comparte entre usuarios de la empresa
+     * @param politica - Política de sus roles (endpoints y campos)
+     * @param traza - Recibe las llamadas al modelo y la respuesta final (auditoría)
+     */
+    async sendAndMapToSchema(
+        message: string,
+        sessionId?: string,
+        permisos?: Permisos,
+        politica?: PoliticaAcceso,
+        traza?: TrazaIA
+    ): Promise<IAResponseSchema> {
+        const respuesta = await this.interpretarMensaje(
+            message,
+            sessionId ? await this.conversaciones.obtener(sessionId) : [],
+            permisos,
+            politica,
+            traza
+        );
+        if (traza) traza.respuesta = respuesta;
 
-        if (!content) {
-            throw new Error("Respuesta inválida de DeepSeek");
+        if (sessionId) {
+            await this.conversaciones.agregar(sessionId, [
+                { role: "user", content: message },
+                { role: "assistant", content: JSON.stringify(this.resumirParaHistorial(respuesta)) }
+            ]);
         }
 
-        let respuestaInicial: IAResponseSchema;
+        return respuesta;
+    }
+
+    /**
+     * Lo que el modelo verá como su respuesta anterior: el resultado final (con fuentes
+     * resueltas), en el mismo formato que se le pide devolver
+     */
+    private resumirParaHistorial(respuesta: IAResponseSchema) {
+        const { tipo, mensaje, modulo, accion, endpoint, method, payload } = respuesta;
+        return tipo === 'CONVERSACION'
+            ? { tipo, mensaje }
+            : { tipo, mensaje, modulo, accion, endpoint, method, payload };
+    }
+
+    /**
+     * Bucle acotado de autocorrección: JSON inválido, endpoint desconocido o payload que no
+     * pasa validarPayload se devuelven a la IA como corrección, hasta IA_MAX_REINTENTOS veces
+     */
+    private async interpretarMensaje(
+        message: string,
+        historial: LLMMensaje[],
+        permisos?: Permisos,
+        politica?: PoliticaAcceso,
+        traza?: TrazaIA
+    ): Promise<IAResponseSchema> {
+        this.refrescarConfiguracion();
+
+        const maxIntentos = 1 + this.maxReintentos;
+        const correcciones: LLMMensaje[] = [];
+        const intentos: IntentoIA[] = [];
+
+        for (let numero = 1; ; numero++) {
+            const puedeReintentar = numero < maxIntentos;
+
+            // 1. Obtener respuesta de la IA
+            const raw = await this.sendRawMessage(message, historial, correcciones, traza);
+            const llamada = raw.llamadas?.[0];
+            // En el historial de correcciones la llamada se muestra como JSON
+            const content = llamada
+                ? JSON.stringify({ herramienta: llamada.nombre, argumentos: llamada.argumentos })
+                : raw.content;
+
+            let respuestaInicial: IAResponseSchema;
+
+            try {
+                if (llamada) {
+                    const desdeHerramienta = this.respuestaDesdeHerramienta(llamada, raw.content);
+                    if ('correccion' in desdeHerramienta) {
+                        intentos.push({ numero, resultado: desdeHerramienta.resultado, detalle: desdeHerramienta.correccion });
+
+                        if (!puedeReintentar) {
+                            return {
+                                tipo: 'ACCION',
+                                mensaje: `No pude identificar la operación. ¿Qué necesitas hacer?\nMódulos disponibles: ${this.modulosDisponibles.join(', ')}`,
+                                requiereFiltros: true,
+                                intentos
+                            };
+                        }
+                        correcciones.push(
+                            { role: "assistant", content },
+                            { role: "user", content: `CORRECCIÓN: ${desdeHerramienta.correccion}.` }
+                        );
+                        continue;
+                    }
+                    respuestaInicial = desdeHerramienta;
+                } else {
+                    respuestaInicial = this.parsearContenido(raw.content);
+                }
+            } catch (error: any) {
+                intentos.push({ numero, resultado: 'JSON_INVALIDO', detalle: error.message });
 
+                if (!puedeReintentar) {
+                    throw new Error(`DeepSeek no devolvió un JSON válido tras ${numero} intento(s)`);
+                }
+                correcciones.push(
+                    { role: "assistant", content: content || "" },
+                    {
+                        role: "user",
+                        content: llamada
+                            ? `CORRECCIÓN: los argumentos de ${llamada.nombre} no son un JSON válido (${error.message}). Vuelve a llamar a la herramienta con argumentos JSON válidos.`
+                            : `CORRECCIÓN: tu respuesta no es un JSON válido con el formato pedido (${error.message}). Responde SOLO con el objeto JSON, sin texto adicional.`
+                    }
+                );
+                continue;
+            }
+
+            // 2. Si es conversación, devolver respuesta directamente
+            if (respuestaInicial.tipo === 'CONVERSACION') {
+                intentos.push({ numero, resultado: 'OK' });
+                return {
+                    tipo: 'CONVERSACION',
+                    mensaje: respuestaInicial.mensaje,
+                    intentos
+                };
+            }
+
+            // 3. Acción
+            const resultado = await this.procesarAccion(message, respuestaInicial, puedeReintentar, permisos, politica);
+
+            if ('correccion' in resultado) {
+                intentos.push({ numero, resultado: resultado.resultado, detalle: resultado.correccion });
+                correcciones.push(
+                    { role: "assistant", content },
+                    { role: "user", content: `CORRECCIÓN: ${resultado.correccion}. Devuelve de nuevo el JSON completo corregido.` }
+                );
+                continue;
+            }
+
+            intentos.push({ numero, resultado: 'OK' });
+            return { ...resultado, intentos };
+        }
+    }
+
+    /**
+     * Sin herramientas el contenido debe ser JSON con la forma de RespuestaModeloSchema. Con
+     * herramientas, un texto sin llamada es la respuesta de charla del modelo aunque no venga en JSON.
+     * Lanza si no es JSON o no tiene la forma esperada (el bucle lo trata como JSON_INVALIDO).
+     */
+    private parsearContenido(content: string): IAResponseSchema {
+        let json: unknown;
         try {
-            respuestaInicial = JSON.parse(content);
-            
-            // 📋 CONSOLE LOG: Respuesta parseada de la IA
-            console.log("🤖 [DEEPSEEK] RESPUESTA PARSEADA DE LA IA:");
-            console.log("═══════════════════════════════════════════════════════════════════════════");
-            console.log(JSON.stringify(respuestaInicial, null, 2));
-            console.log("═══════════════════════════════════════════════════════════════════════════\n");
-            
-        } catch {
-            throw new Error("DeepSeek no devolvió un JSON válido");
+            json = JSON.parse(content);
+        } catch (error) {
+            const texto = content?.trim();
+            if (this.obtenerProvider().soportaHerramientas && texto) {
+                return { tipo: 'CONVERSACION', mensaje: texto };
+            }
+            throw error;
         }
 
-        // 2. Si es conversación, devolver respuesta directamente
-        if (respuestaInicial.tipo === 'CONVERSACION') {
+        const parsed = RespuestaModeloSchema.safeParse(json);
+        if (!parsed.success) {
+            throw new Error(parsed.error.issues.map(issue => `${issue.path.join(".") || "respuesta"}: ${issue.message}`).join("; "));
+        }
+        return parsed.data as IAResponseSchema;
+    }
+
+    /**
+     * endpoint_<id>(argumentos) -> la misma respuesta ACCION que el modo JSON, para que pase
+     * por la misma reparación, validación y resolución de fuentes
+     */
+    private respuestaDesdeHerramienta(llamada: LLMLlamadaHerramienta, content: string): IAResponseSchema | CorreccionIA {
+        const id = llamada.nombre?.startsWith(PREFIJO_HERRAMIENTA)
+            ? Number(llamada.nombre.slice(PREFIJO_HERRAMIENTA.length))
+            : NaN;
+        const ubicacion = Number.isInteger(id) ? this.ubicarEndpoint(id) : null;
+
+        if (!ubicacion) {
             return {
-                tipo: 'CONVERSACION',
-                mensaje: respuestaInicial.mensaje
+                resultado: 'ENDPOINT_DESCONOCIDO',
+                correccion: `La herramienta '${llamada.nombre}' no existe. Llama a una de las herramientas disponibles`
             };
         }
 
-        // 3. Si es acción, procesar
-        if (respuestaInicial.tipo === 'ACCION') {
-            return await this.procesarAccion(message, respuestaInicial);
+        // Si los argumentos no son un objeto JSON, el bucle lo trata como JSON_INVALIDO
+        const payload = JSON.parse(llamada.argumentos || "{}");
+        if (!payload || typeof payload !== "object" || Array.isArray(payload)) {
+            throw new Error("los argumentos deben ser un objeto JSON");
         }
+        const { modulo, accion, endpoint } = ubicacion;
 
-        return respuestaInicial;
+        return {
+            tipo: 'ACCION',
+            mensaje: content?.trim() || `Voy a ${this.obtenerVerboAccion(accion)} ${endpoint.nombreReferencia.toLowerCase()}`,
+            modulo,
+            accion,
+            endpoint: endpoint.endpoint,
+            endpointId: endpoint.id,
+            method: endpoint.metodo,
+            payload
+        };
     }
 
     public getModulosDisponibles(): string[] {
         return [...this.modulosDisponibles];
     }
 
+    public getConfiguracion(): ConfiguracionAPI {
+        return this.config;
+    }
+
     public getInfoEmpresa(): { nombre: string; baseUrl: string } {
         return {
             nombre: this.config.empresa.nombre,
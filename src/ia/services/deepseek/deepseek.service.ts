@@ -1,23 +1,39 @@
-import OpenAI from "openai";
+import { LLMMensaje, LLMProvider, hashDeMensajes } from "../llm/llm-provider";
+import { conRedaccion, crearLLMProviderParaEmpresa } from "../llm/llm-provider.factory";
+import { TrazaIA } from "../../schemas/ia-response.schema";
 
 export class DeepSeekService {
-  private client: OpenAI;
+  constructor(private provider?: LLMProvider) {}
 
-  constructor() {
-    this.client = new OpenAI({
-      baseURL: "https://api.deepseek.com",
-      apiKey: process.env.DEEPSEEK_API_KEY,
-    });
-  }
+  /**
+   * @param traza - Si se indica, se le agrega la llamada (hash del prompt, salida cruda y duración)
+   */
+  async createChatCompletion(messages: LLMMensaje[], empresa?: string, traza?: TrazaIA) {
+    const inicio = Date.now();
+    let provider: LLMProvider | undefined;
+
+    try {
+      provider = this.provider ? conRedaccion(this.provider, empresa) : crearLLMProviderParaEmpresa(empresa, "deepseek");
+      const completion = await provider.chat({ messages });
 
-  async createChatCompletion(
-    messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[]
-  ) {
-    const completion = await this.client.chat.completions.create({
-      model: "deepseek-chat",
-      messages,
-    });
+      traza?.llamadas.push({
+        proveedor: provider.proveedor,
+        modelo: provider.modelo,
+        promptHash: hashDeMensajes(messages),
+        salida: completion.content,
+        duracionMs: Date.now() - inicio
+      });
 
-    return completion.choices[0].message.content;
+      return completion.content;
+    } catch (err: any) {
+      traza?.llamadas.push({
+        proveedor: provider?.proveedor || "deepseek",
+        modelo: provider?.modelo || "",
+        promptHash: hashDeMensajes(messages),
+        duracionMs: Date.now() - inicio,
+        error: err.message
+      });
+      throw err;
+    }
   }
 }
@@ -1,6 +1,7 @@
 import { ERPConfigService, ERPConfigEndpoint } from "../../../erp/erp-config.service";
 import { DeepSeekService } from "./deepseek.service";
 import { IAOutputSchema } from "../../schemas/ia-output.schema";
+import { TrazaIA } from "../../schemas/ia-response.schema";
 
 export class DeepSeekInterpreter {
   constructor(
@@ -11,7 +12,8 @@ export class DeepSeekInterpreter {
   async interpretWithDeepSeek(
     message: string,
     modulosDisponibles: string[],
-    erp: string
+    erp: string,
+    traza?: TrazaIA
   ): Promise<IAOutputSchema> {
 
     const promptModuleCrud = `Eres un asistente ERP. Solo devuelve módulo y acción CRUD.
@@ -23,7 +25,7 @@ No agregues explicaciones ni bloques de código.`;
     const aiRaw = await this.deepseekService.createChatCompletion([
       { role: "system", content: "Eres un asistente ERP estructurado." },
       { role: "user", content: promptModuleCrud }
-    ]);
+    ], erp, traza);
 
     const aiResponse = (aiRaw || "").replace(/```(json)?/g, "").trim();
 
@@ -57,6 +59,7 @@ No agregues explicaciones ni bloques de código.`;
         action: crudDetected,
         module: moduleDetected,
         endpoint: chosenEndpoint.endpoint,
+        endpointId: chosenEndpoint.id,
         method: chosenEndpoint.metodo as "GET" | "POST" | "PUT" | "DELETE",
         payload: chosenEndpoint.payload || {},
         preview: chosenEndpoint.tipo_salida === "preview" ? (chosenEndpoint.payload || {}) : {},
@@ -79,7 +82,7 @@ No agregues explicaciones ni comentarios.`;
     const endpointRaw = await this.deepseekService.createChatCompletion([
       { role: "system", content: "Eres un asistente ERP estructurado." },
       { role: "user", content: promptEndpoint }
-    ]);
+    ], erp, traza);
 
     const endpointResponse = (endpointRaw || "").replace(/```(json)?/g, "").trim();
 
@@ -101,6 +104,7 @@ No agregues explicaciones ni comentarios.`;
       action: crudDetected,
       module: moduleDetected,
       endpoint: chosenEndpoint.endpoint,
+      endpointId: chosenEndpoint.id,
       method: chosenEndpoint.metodo as "GET" | "POST" | "PUT" | "DELETE",
       payload: payloadFinal,
       preview: chosenEndpoint.tipo_salida === "preview" ? payloadFinal : {},
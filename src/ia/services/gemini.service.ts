@@ -1,51 +1,41 @@
-import { GoogleGenAI } from "@google/genai";
+import { LLMProvider, hashDeMensajes, limpiarBloqueCodigo } from "./llm/llm-provider";
+import { conRedaccion, crearLLMProviderParaEmpresa } from "./llm/llm-provider.factory";
+import { TrazaIA } from "../schemas/ia-response.schema";
 
 export class GeminiService {
-  private ai: GoogleGenAI;
-
-  constructor() {
-    if (!process.env.GEMINI_API_KEY) {
-      throw new Error("GEMINI_API_KEY no configurada en el .env");
-    }
-
-    this.ai = new GoogleGenAI({
-      apiKey: process.env.GEMINI_API_KEY,
-    });
-  }
+  constructor(private provider?: LLMProvider) {}
 
   /**
-   * Llama a Gemini y devuelve el texto generado, con debug completo
+   * Llama a Gemini y devuelve el texto generado, sin bloques de código
+   * @param traza - Si se indica, se le agrega la llamada (hash del prompt, salida cruda y duración)
    */
-  async generateContent(prompt: string): Promise<string> {
-    console.log("=== GEMINI PROMPT ===");
-    console.log(prompt);
-    console.log("===================");
+  async generateContent(prompt: string, empresa?: string, traza?: TrazaIA): Promise<string> {
+    const messages = [{ role: "user" as const, content: prompt }];
+    const inicio = Date.now();
+    let provider: LLMProvider | undefined;
 
     try {
-      const response = await this.ai.models.generateContent({
-        model: "gemini-3-flash-preview",
-        contents: prompt,
+      provider = this.provider ? conRedaccion(this.provider, empresa) : crearLLMProviderParaEmpresa(empresa, "gemini");
+      const response = await provider.chat({ messages });
+
+      traza?.llamadas.push({
+        proveedor: provider.proveedor,
+        modelo: provider.modelo,
+        promptHash: hashDeMensajes(messages),
+        salida: response.content,
+        duracionMs: Date.now() - inicio
       });
 
-      let text = response.text ?? "";
-
-      // Depuración: log de la respuesta cruda
-      console.log("=== GEMINI RAW RESPONSE ===");
-      console.log(text);
-      console.log("===========================");
-
       // Limpiar posibles backticks o ```json
-      text = text.trim();
-      if (text.startsWith("```") && text.endsWith("```")) {
-        text = text.replace(/```(json)?/g, "").trim();
-      }
-
-      console.log("=== GEMINI CLEANED RESPONSE ===");
-      console.log(text);
-      console.log("==============================");
-
-      return text;
+      return limpiarBloqueCodigo(response.content);
     } catch (err: any) {
+      traza?.llamadas.push({
+        proveedor: provider?.proveedor || "gemini",
+        modelo: provider?.modelo || "",
+        promptHash: hashDeMensajes(messages),
+        duracionMs: Date.now() - inicio,
+        error: err.message
+      });
       console.error("Error llamando a Gemini:", err);
       throw new Error(
         `Error en Gemini: ${err.message} | status: ${err.status ?? "desconocido"}`
@@ -1,6 +1,7 @@
 import { GeminiService } from "./gemini.service";
 import { ERPConfigService, ERPConfigEndpoint } from "../../erp/erp-config.service";
 import { IAOutputSchema } from "../schemas/ia-output.schema";
+import { TrazaIA } from "../schemas/ia-response.schema";
 
 export class GeminiInterpreter {
   constructor(
@@ -11,7 +12,8 @@ export class GeminiInterpreter {
   async interpretWithGemini(
     message: string, 
     modulosDisponibles: string[], 
-    erp: string
+    erp: string,
+    traza?: TrazaIA
   ): Promise<IAOutputSchema> {
     const promptModuleCrud = `Eres un asistente ERP. Solo devuelve módulo y acción CRUD.
 Módulos disponibles: ${modulosDisponibles.join(", ")}.
@@ -19,7 +21,7 @@ Mensaje del usuario: "${message}".
 Devuelve estrictamente un JSON: {"module":"<uno de los módulos disponibles>","crud":"<CREATE|READ|UPDATE|DELETE>"}.
 No agregues explicaciones ni bloques de código.`;
 
-    const aiResponseRaw = await this.gemini.generateContent(promptModuleCrud);
+    const aiResponseRaw = await this.gemini.generateContent(promptModuleCrud, erp, traza);
     const aiResponse = aiResponseRaw.replace(/```(json)?/g, "").trim();
 
     let moduleDetected: string;
@@ -53,6 +55,7 @@ No agregues explicaciones ni bloques de código.`;
         action: crudDetected,
         module: moduleDetected,
         endpoint: chosenEndpoint.endpoint,
+        endpointId: chosenEndpoint.id,
         method: chosenEndpoint.metodo as "GET" | "POST" | "PUT" | "DELETE",
         payload: chosenEndpoint.payload || {},
         preview: chosenEndpoint.tipo_salida === "preview" ? (chosenEndpoint.payload || {}) : {}
@@ -71,7 +74,7 @@ Elige el endpoint más adecuado y completa el payload según la instrucción.
 Devuelve estrictamente un JSON: {"endpoint":"<endpoint seleccionado>","payload":{...}}.
 No agregues explicaciones ni comentarios.`;
 
-    const endpointResponseRaw = await this.gemini.generateContent(promptEndpoint);
+    const endpointResponseRaw = await this.gemini.generateContent(promptEndpoint, erp, traza);
     const endpointResponse = endpointResponseRaw.replace(/```(json)?/g, "").trim();
 
     let chosenEndpoint: ERPConfigEndpoint;
@@ -90,6 +93,7 @@ No agregues explicaciones ni comentarios.`;
       action: crudDetected,
       module: moduleDetected,
       endpoint: chosenEndpoint.endpoint,
+      endpointId: chosenEndpoint.id,
       method: chosenEndpoint.metodo as "GET" | "POST" | "PUT" | "DELETE",
       payload: payloadFinal,
       preview: chosenEndpoint.tipo_salida === "preview" ? payloadFinal : {}
@@ -1,27 +1,63 @@
+import { randomUUID } from "crypto";
 import { IAInterpreterInput } from "./ia-receiver.service";
-import { IAOutputSchema } from "../schemas/ia-output.schema";
+import { IAConversacionSchema, IAOutputSchema } from "../schemas/ia-output.schema";
 import { ERPConfigService } from "../../erp/erp-config.service";
 import { IAMotor, IIAInterpreter, getIAMotor } from "./ia-motor-factory";
+import { TrazaIA } from "../schemas/ia-response.schema";
+import { SessionStore, TitularSesion, esDelTitular } from "./storage/session-store";
+import { claveConversacion } from "./storage/conversation-store";
+import { crearSessionStore } from "./storage/session-store.factory";
+import { Endpoint, cargarConfiguracion, describirErroresPayload, obtenerEndpointPorId } from "../../erp/configs/api-config";
+import {
+  TipoCampo,
+  coercionarValor,
+  cumpleTipo,
+  describirTipo,
+  esValorFaltante,
+  esValorVacio,
+  recorrerParametros
+} from "../../erp/configs/parametros";
+import { asignarValorPorRuta, obtenerValorPorRuta } from "./plan/plan-rutas";
+import { COMODIN, ErrorPermiso, Permisos, describirPermisoDenegado, verificarPermiso } from "../../erp/permisos";
+import {
+  PoliticaAcceso,
+  aplicarPoliticaPayload,
+  campoRestringido,
+  advertirCamposQuitados,
+  endpointPermitido
+} from "../../erp/politicas";
 
-interface PendingRequest {
+// param es la ruta dentro del payload ("oEntity.T_Descripcion"); type, el tipo declarado
+type MissingParam = { param: string; type: TipoCampo; description: string };
+
+export interface PendingRequest {
+  titular: TitularSesion;
   originalResult: any;
-  missingParams: Array<{param: string; type: string; description: string}>;
+  missingParams: MissingParam[];
   context: any;
   timestamp: number;
 }
 
-type InterpretResult = IAOutputSchema | { needsParameters: any[]; message: string; sessionId: string };
+type AccionDenegada = { permisoDenegado: ErrorPermiso; message: string; sessionId?: string };
+
+type InterpretResult =
+  | IAOutputSchema
+  | IAConversacionSchema
+  | { needsParameters: any[]; message: string; sessionId: string }
+  | AccionDenegada;
 
 export class IAInterpreterService {
   private motor: IAMotor;
   private interpreter: IIAInterpreter;
+  private interpretersPorMotor: Map<IAMotor, IIAInterpreter> = new Map();
   private erpConfigService: ERPConfigService;
-  private pendingSessions: Map<string, PendingRequest> = new Map();
+  private pendingSessions: SessionStore<PendingRequest>;
   private readonly SESSION_TIMEOUT = 15 * 60 * 1000;
   private readonly FORCE_IA = process.env.FORCE_IA_ENGINE === "true";
 
-  constructor(motor: IAMotor = "LOCAL") {
+  constructor(motor: IAMotor = "LOCAL", pendingSessions?: SessionStore<PendingRequest>) {
     this.erpConfigService = new ERPConfigService();
+    this.pendingSessions = pendingSessions || crearSessionStore<PendingRequest>("pendientes");
 
     if (this.FORCE_IA) {
       this.motor = "DEEPSEEK";
@@ -30,18 +66,34 @@ export class IAInterpreterService {
     }
 
     this.interpreter = getIAMotor(this.motor, this.erpConfigService);
-
-    setInterval(() => this.cleanupExpiredSessions(), 5 * 60 * 1000);
   }
 
-  async interpret(input: IAInterpreterInput, sessionId?: string): Promise<InterpretResult> {
+  /**
+   * @param traza - Si se indica, el motor registra en ella sus llamadas al modelo (auditoría)
+   */
+  async interpret(input: IAInterpreterInput, sessionId?: string, motor?: IAMotor, traza?: TrazaIA): Promise<InterpretResult> {
     const { message, context } = input;
-    const modulosDisponibles = context.permisos.modulos;
+    const interpreter = this.resolverInterpreter(motor);
+    const modulosDisponibles = this.modulosPermitidos(context.permisos, context.erp);
+    const politica: PoliticaAcceso | undefined = context.politica;
     const activeSessionId = sessionId || input.sessionId;
+    const titular: TitularSesion = { empresa: context.erp, usuarioId: context.usuarioId };
+
+    const pendingRequest = activeSessionId ? await this.pendingSessions.obtener(activeSessionId) : null;
+    if (activeSessionId && pendingRequest) {
+      if (!esDelTitular(pendingRequest.titular, titular)) {
+        return {
+          permisoDenegado: "PERMISO_SESION_DENEGADO",
+          message: describirPermisoDenegado("PERMISO_SESION_DENEGADO", "", ""),
+          sessionId: activeSessionId
+        };
+      }
+
+      // Se autoriza con los permisos de quien continúa el diálogo, no con los de quien lo abrió
+      const denegado = this.verificarPermisos(pendingRequest.originalResult, context.permisos, activeSessionId, politica);
+      if (denegado) return denegado;
 
-    if (activeSessionId && this.pendingSessions.has(activeSessionId)) {
-      const pendingRequest = this.pendingSessions.get(activeSessionId)!;
-      const result = await this.processFollowUp(message, pendingRequest, activeSessionId);
+      const result = await this.processFollowUp(message, pendingRequest, activeSessionId, politica);
 
       if ('needsParameters' in result) {
         return {
@@ -51,33 +103,51 @@ export class IAInterpreterService {
         };
       }
 
-      return result as IAOutputSchema;
+      return { ...result, sessionId: activeSessionId } as IAOutputSchema;
     }
 
     let result: any;
     try {
-      result = await this.interpreter.interpret(message, modulosDisponibles, context.erp);
+      // Sin sessionId del cliente la interpretación es de un solo turno y no deja historial
+      result = await interpreter.interpret(message, modulosDisponibles, context.erp, {
+        sessionId: activeSessionId ? claveConversacion(activeSessionId, titular) : undefined,
+        permisos: context.permisos,
+        politica,
+        traza
+      });
+
+      // Charla o aclaración: no hay acción sobre la que medir confianza ni pedir parámetros
+      if (result && "tipo" in result) {
+        return { ...result, sessionId: activeSessionId } as IAConversacionSchema;
+      }
 
       const confidence = result.confidence || 0;
       const UMBRAL_CONFIANZA = 0.15;
 
       if (confidence >= UMBRAL_CONFIANZA) {
-        const missingParams = this.checkMissingParameters(result);
+        // Antes de pedir parámetros: una acción no autorizada no abre diálogo
+        const denegado = this.verificarPermisos(result, context.permisos, activeSessionId, politica);
+        if (denegado) return denegado;
+
+        result = this.aplicarPolitica(result, politica);
+        const missingParams = this.checkMissingParameters(result, context.erp, politica);
         if (missingParams.length > 0) {
+          // El diálogo de parámetros sí necesita sesión: si el cliente no trajo una, se abre
           const newSessionId = activeSessionId || this.generateSessionId();
-          this.pendingSessions.set(newSessionId, {
+          await this.pendingSessions.guardar(newSessionId, {
+            titular,
             originalResult: result,
             missingParams,
             context,
             timestamp: Date.now()
-          });
+          }, this.SESSION_TIMEOUT);
           return {
             needsParameters: missingParams,
             message: this.generateParameterRequestMessage(missingParams, result),
             sessionId: newSessionId
           };
         }
-        return result as IAOutputSchema;
+        return { ...result, sessionId: activeSessionId } as IAOutputSchema;
       }
 
       throw new Error(`Confianza insuficiente: ${confidence.toFixed(2)}`);
@@ -95,69 +165,146 @@ export class IAInterpreterService {
     this.interpreter = getIAMotor(this.motor, this.erpConfigService);
   }
 
+  /**
+   * Módulos que se ofrecen al motor: "*" se expande a los de la configuración de la empresa
+   */
+  private modulosPermitidos(permisos: Permisos, erp?: string): string[] {
+    if (!permisos.modulos.includes(COMODIN)) return permisos.modulos;
+    try {
+      return cargarConfiguracion(erp).modulos.map(m => m.nombre);
+    } catch {
+      return permisos.modulos;
+    }
+  }
+
+  /**
+   * Autorización común a todos los motores, sobre el módulo, la acción y el endpoint ya interpretados.
+   * Los motores que comprueban permisos por su cuenta (DEEPSEEK_RAW) lo indican con permisoDenegado.
+   */
+  private verificarPermisos(result: any, permisos: Permisos, sessionId: string | undefined, politica?: PoliticaAcceso): AccionDenegada | null {
+    const modulo = result?.module || "";
+    const accion = result?.action || "";
+    const error: ErrorPermiso | null = result?.permisoDenegado
+      || verificarPermiso(permisos, modulo, accion)
+      || (typeof result?.endpointId === "number" && !endpointPermitido(politica, result.endpointId) ? "PERMISO_ENDPOINT_DENEGADO" : null);
+    if (!error) return null;
+
+    return {
+      permisoDenegado: error,
+      message: result?.permisoDenegado && result.mensaje ? result.mensaje : describirPermisoDenegado(error, modulo, accion),
+      sessionId
+    };
+  }
+
+  /**
+   * Campos denegados fuera del payload (con advertencia) y valores fijos de la política impuestos
+   */
+  private aplicarPolitica(result: any, politica?: PoliticaAcceso): any {
+    if (!politica || typeof result?.endpointId !== "number") return result;
+
+    const { payload, denegados } = aplicarPoliticaPayload(politica, result.endpointId, result.payload || {});
+    if (denegados.length === 0) return { ...result, payload };
+
+    return {
+      ...result,
+      payload,
+      advertencias: [...(result.advertencias || []), advertirCamposQuitados(denegados)]
+    };
+  }
+
+  /**
+   * Motor pedido por la solicitud; sin él se usa el del servicio. FORCE_IA_ENGINE tiene prioridad.
+   */
+  private resolverInterpreter(motor?: IAMotor): IIAInterpreter {
+    if (this.FORCE_IA || !motor || motor === this.motor) {
+      return this.interpreter;
+    }
+    if (!this.interpretersPorMotor.has(motor)) {
+      this.interpretersPorMotor.set(motor, getIAMotor(motor, this.erpConfigService));
+    }
+    return this.interpretersPorMotor.get(motor)!;
+  }
+
   private async processFollowUp(
     message: string, 
     pendingRequest: PendingRequest, 
-    sessionId: string
+    sessionId: string,
+    politica?: PoliticaAcceso
   ): Promise<IAOutputSchema | { needsParameters: any[]; message: string }> {
-    const { originalResult, missingParams } = pendingRequest;
-    const extractedParams = this.extractParametersFromMessage(message, missingParams);
-    const updatedResult = this.updatePayload(originalResult, extractedParams);
-    const remainingMissingParams = this.checkMissingParameters(updatedResult);
+    const { titular, originalResult, missingParams, context } = pendingRequest;
+    const { valores: extractedParams, invalidos } = this.extractParametersFromMessage(message, missingParams);
+    const updatedResult = this.aplicarPolitica(this.updatePayload(originalResult, extractedParams), politica);
+    const remainingMissingParams = this.checkMissingParameters(updatedResult, context?.erp, politica);
 
     if (remainingMissingParams.length > 0) {
-      this.pendingSessions.set(sessionId, {
+      await this.pendingSessions.guardar(sessionId, {
+        titular,
         originalResult: updatedResult,
         missingParams: remainingMissingParams,
-        context: pendingRequest.context,
+        context,
         timestamp: Date.now()
-      });
+      }, this.SESSION_TIMEOUT);
       return {
         needsParameters: remainingMissingParams,
-        message: this.generateParameterRequestMessage(remainingMissingParams, updatedResult)
+        message: [...invalidos, this.generateParameterRequestMessage(remainingMissingParams, updatedResult)].join(" ")
       };
-    } else {
-      this.pendingSessions.delete(sessionId);
-      return updatedResult as IAOutputSchema;
     }
-  }
 
-  private checkMissingParameters(result: any): Array<{param: string; type: string; description: string}> {
-    const missingParams: Array<{param: string; type: string; description: string}> = [];
-    if (!result.payload) return missingParams;
-    Object.entries(result.payload).forEach(([key, value]) => {
-      if (value === undefined || value === null || value === "" || value === "?") {
-        missingParams.push({
-          param: key,
-          type: this.guessParameterType(key),
-          description: this.getParameterDescription(key)
-        });
+    await this.pendingSessions.eliminar(sessionId);
+
+    // La acción solo se libera si el payload completo cumple la definición del endpoint
+    const endpoint = this.findEndpointDefinition(updatedResult, context?.erp);
+    if (endpoint) {
+      const errores = describirErroresPayload(endpoint, updatedResult.payload || {});
+      if (errores.length > 0) {
+        throw new Error(`El payload no cumple la definición del endpoint: ${errores.join("; ")}`);
       }
-    });
-    return missingParams;
+    }
+
+    return updatedResult as IAOutputSchema;
   }
 
-  private guessParameterType(paramName: string): string {
-    const paramNameLower = paramName.toLowerCase();
-    if (paramNameLower.includes('id')) return 'ID';
-    if (paramNameLower.includes('fecha') || paramNameLower.includes('date')) return 'FECHA';
-    if (paramNameLower.includes('cliente') || paramNameLower.includes('customer')) return 'CLIENTE';
-    if (paramNameLower.includes('cantidad') || paramNameLower.includes('quantity')) return 'NÚMERO';
-    if (paramNameLower.includes('monto') || paramNameLower.includes('amount') || paramNameLower.includes('total')) return 'MONTO';
-    return 'TEXTO';
+  /**
+   * Definición canónica del endpoint elegido por el motor, si la hay
+   */
+  private findEndpointDefinition(result: any, erp?: string): Endpoint | null {
+    if (typeof result.endpointId !== "number") return null;
+    try {
+      return obtenerEndpointPorId(cargarConfiguracion(erp), result.endpointId);
+    } catch {
+      return null;
+    }
   }
 
-  private getParameterDescription(paramName: string): string {
-    const paramNameLower = paramName.toLowerCase();
-    if (paramNameLower.includes('id')) return 'el identificador único';
-    if (paramNameLower.includes('fecha') || paramNameLower.includes('date')) return 'la fecha (YYYY-MM-DD)';
-    if (paramNameLower.includes('cliente')) return 'el nombre o código del cliente';
-    if (paramNameLower.includes('cantidad')) return 'la cantidad';
-    if (paramNameLower.includes('monto')) return 'el monto';
-    return paramName;
+  /**
+   * Campos obligatorios sin valor o con un valor que no es del tipo declarado.
+   * Sin definición del endpoint solo se revisan las claves de primer nivel.
+   * Los campos denegados o fijados por la política no se piden al usuario.
+   */
+  private checkMissingParameters(result: any, erp?: string, politica?: PoliticaAcceso): MissingParam[] {
+    const payload = result.payload || {};
+    const endpoint = this.findEndpointDefinition(result, erp);
+
+    if (!endpoint) {
+      return Object.entries(payload)
+        .filter(([, value]) => esValorVacio(value))
+        .map(([key]) => ({ param: key, type: "string" as TipoCampo, description: key }));
+    }
+
+    return recorrerParametros(endpoint)
+      .filter(campo => {
+        if (campoRestringido(politica, endpoint.id, campo.ruta)) return false;
+        const valor = obtenerValorPorRuta(payload, campo.ruta);
+        return campo.obligatorio && (esValorFaltante(valor) || !cumpleTipo(valor, campo.tipo));
+      })
+      .map(campo => ({
+        param: campo.ruta,
+        type: campo.tipo,
+        description: `${campo.nombre} (${describirTipo(campo.tipo)})`
+      }));
   }
 
-  private generateParameterRequestMessage(missingParams: any[], result: any): string {
+  private generateParameterRequestMessage(missingParams: MissingParam[], result: any): string {
     if (missingParams.length === 1) {
       const param = missingParams[0];
       return `Para ${result.action.toLowerCase()} ${result.module.toLowerCase()}, necesito ${param.description}.`;
@@ -167,22 +314,41 @@ export class IAInterpreterService {
     }
   }
 
-  private extractParametersFromMessage(message: string, missingParams: any[]): Record<string, string> {
-    const extracted: Record<string, string> = {};
+  /**
+   * Busca cada parámetro por su nombre en la respuesta y lo convierte a su tipo.
+   * Si solo falta uno, la respuesta completa puede ser el valor ("42", "sí", "15/03/2025").
+   * Lo que no se puede convertir se informa como error de tipo y el parámetro sigue pendiente.
+   */
+  private extractParametersFromMessage(
+    message: string,
+    missingParams: MissingParam[]
+  ): { valores: Record<string, any>; invalidos: string[] } {
+    const valores: Record<string, any> = {};
+    const invalidos: string[] = [];
     missingParams.forEach(param => {
-      const value = this.findParameterValue(message, param.param, param.type);
-      if (value) extracted[param.param] = value;
+      const nombre = param.param.split(".").pop() || param.param;
+      const texto = this.findParameterValue(message, nombre)
+        ?? (missingParams.length === 1 ? message : null);
+      if (texto === null) return;
+
+      const value = coercionarValor(texto, param.type);
+      if (value !== undefined) {
+        valores[param.param] = value;
+      } else {
+        invalidos.push(`'${texto.trim()}' no es válido para ${nombre}: debe ser ${describirTipo(param.type)}.`);
+      }
     });
-    return extracted;
+    return { valores, invalidos };
   }
 
-  private findParameterValue(text: string, paramName: string, type: string): string | null {
+  private findParameterValue(text: string, paramName: string): string | null {
+    const nombre = paramName.toLowerCase().replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
     const patterns = [
-      `${paramName.toLowerCase()}\\s+(es|de|:|es\\s+de)\\s+([^\\s.,;]+(?:\\s+[^\\s.,;]+)*)`,
-      `con\\s+${paramName.toLowerCase()}\\s+([^\\s.,;]+(?:\\s+[^\\s.,;]+)*)`,
-      `para\\s+${paramName.toLowerCase()}\\s+([^\\s.,;]+(?:\\s+[^\\s.,;]+)*)`,
-      `${paramName.toLowerCase()}\\s+([^\\s.,;]+)`,
-      `([^\\s.,;]+)\\s+${paramName.toLowerCase()}`
+      `${nombre}\\s+(es|de|:|es\\s+de)\\s+([^\\s.,;]+(?:\\s+[^\\s.,;]+)*)`,
+      `con\\s+${nombre}\\s+([^\\s.,;]+(?:\\s+[^\\s.,;]+)*)`,
+      `para\\s+${nombre}\\s+([^\\s.,;]+(?:\\s+[^\\s.,;]+)*)`,
+      `${nombre}\\s+([^\\s.,;]+)`,
+      `([^\\s.,;]+)\\s+${nombre}`
     ];
     for (const pattern of patterns) {
       const regex = new RegExp(pattern, 'i');
@@ -193,34 +359,51 @@ export class IAInterpreterService {
     return null;
   }
 
-  private updatePayload(result: any, newParams: Record<string, string>): any {
-    const updatedResult = { ...result };
-    if (!updatedResult.payload) updatedResult.payload = {};
-    Object.entries(newParams).forEach(([key, value]) => {
-      if (value) updatedResult.payload[key] = value;
+  private updatePayload(result: any, newParams: Record<string, any>): any {
+    const updatedResult = { ...result, payload: JSON.parse(JSON.stringify(result.payload || {})) };
+    Object.entries(newParams).forEach(([ruta, value]) => {
+      asignarValorPorRuta(updatedResult.payload, ruta, value);
     });
     return updatedResult;
   }
 
-  public debugInfo() {
+  /**
+   * Sesiones con parámetros pendientes del titular (empresa y usuario)
+   */
+  async listSessions(titular: TitularSesion) {
+    const sesiones = await this.pendingSessions.listar();
+    return sesiones
+      .filter(({ valor }) => esDelTitular(valor.titular, titular))
+      .map(({ sessionId, valor, expiraEn }) => ({
+        sessionId,
+        erp: valor.context?.erp,
+        action: valor.originalResult?.action,
+        module: valor.originalResult?.module,
+        missingParams: valor.missingParams,
+        actualizadaEn: new Date(valor.timestamp).toISOString(),
+        expiraEn: new Date(expiraEn).toISOString()
+      }));
+  }
+
+  /**
+   * Cancela un diálogo pendiente; false si no existe (o es de otro titular)
+   */
+  async cancelSession(sessionId: string, titular: TitularSesion): Promise<boolean> {
+    const pendiente = await this.pendingSessions.obtener(sessionId);
+    if (!pendiente || !esDelTitular(pendiente.titular, titular)) return false;
+    return this.pendingSessions.eliminar(sessionId);
+  }
+
+  public async debugInfo() {
     return {
       motor: this.motor,
-      pendingSessions: this.pendingSessions.size,
+      pendingSessions: (await this.pendingSessions.listar()).length,
       forceIA: this.FORCE_IA
     };
   }
 
 
   private generateSessionId(): string {
-    return `sess_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-  }
-
-  private cleanupExpiredSessions(): void {
-    const now = Date.now();
-    for (const [sessionId, session] of this.pendingSessions.entries()) {
-      if (now - session.timestamp > this.SESSION_TIMEOUT) {
-        this.pendingSessions.delete(sessionId);
-      }
-    }
+    return `sess_${randomUUID()}`;
   }
 }
@@ -1,14 +1,28 @@
+import { z } from "zod";
 import { ERPConfigService } from "../../erp/erp-config.service";
-import { interpretLocal } from "./ia-interpreter.local";
+import { interpretLocal, localService } from "./ia-interpreter.local";
 import { GeminiService } from "./gemini.service";
 import { GeminiInterpreter } from "./ia-interpreter.gemini";
 import { DeepSeekService } from "./deepseek/deepseek.service";
 import { DeepSeekInterpreter } from "./deepseek/ia-interpreter.deepseek";
+import { DeepSeekRawService } from "./deepseek/deepseek-raw.service";
+import { ACCION_A_CRUD } from "../../erp/configs/config-converter";
+import { IAMotorSchema } from "../../types/ia-input.schema";
+import { Permisos } from "../../erp/permisos";
+import { PoliticaAcceso } from "../../erp/politicas";
+import { TrazaIA } from "../schemas/ia-response.schema";
 
-export type IAMotor = "GEMINI" | "LOCAL" | "DEEPSEEK";
+export type IAMotor = z.infer<typeof IAMotorSchema>;
+
+export interface InterpretOptions {
+  sessionId?: string;   // los motores con memoria conversacional lo usan como clave del historial
+  permisos?: Permisos;  // del usuario autenticado; los motores que resuelven fuentes los comprueban antes
+  politica?: PoliticaAcceso;
+  traza?: TrazaIA;      // los motores LLM registran en ella sus llamadas al modelo
+}
 
 export interface IIAInterpreter {
-  interpret(message: string, modulosDisponibles: string[], erpContext: any): Promise<any>;
+  interpret(message: string, modulosDisponibles: string[], erpContext: any, opciones?: InterpretOptions): Promise<any>;
 }
 
 export class LocalMotor implements IIAInterpreter {
@@ -36,8 +50,8 @@ export class GeminiMotor implements IIAInterpreter {
     this.gemini = new GeminiInterpreter(new GeminiService(), erpConfigService);
   }
 
-  async interpret(message: string, modulosDisponibles: string[], erpContext: any) {
-    return this.gemini.interpretWithGemini(message, modulosDisponibles, erpContext);
+  async interpret(message: string, modulosDisponibles: string[], erpContext: any, opciones?: InterpretOptions) {
+    return this.gemini.interpretWithGemini(message, modulosDisponibles, erpContext, opciones?.traza);
   }
 }
 
@@ -51,12 +65,124 @@ export class DeepSeekMotor implements IIAInterpreter {
     );
   }
 
-  async interpret(message: string, modulosDisponibles: string[], erpContext: any) {
+  async interpret(message: string, modulosDisponibles: string[], erpContext: any, opciones?: InterpretOptions) {
     return this.deepseek.interpretWithDeepSeek(
       message,
       modulosDisponibles,
-      erpContext
+      erpContext,
+      opciones?.traza
+    );
+  }
+}
+
+/**
+ * Motor sobre la configuración canónica: un DeepSeekRawService por empresa.
+ * Las respuestas de charla y las aclaraciones se devuelven tal cual, sin acción.
+ */
+export class DeepSeekRawMotor implements IIAInterpreter {
+  private servicios = new Map<string, DeepSeekRawService>();
+
+  private obtenerServicio(erp: string): DeepSeekRawService {
+    const clave = (erp || "").toLowerCase();
+    if (!this.servicios.has(clave)) {
+      this.servicios.set(clave, new DeepSeekRawService(erp || undefined));
+    }
+    return this.servicios.get(clave)!;
+  }
+
+  async interpret(message: string, modulosDisponibles: string[], erpContext: any, opciones?: InterpretOptions) {
+    const respuesta = await this.obtenerServicio(erpContext).sendAndMapToSchema(
+      message,
+      opciones?.sessionId,
+      opciones?.permisos,
+      opciones?.politica,
+      opciones?.traza
     );
+
+    if (respuesta.permisoDenegado) {
+      return {
+        permisoDenegado: respuesta.permisoDenegado,
+        mensaje: respuesta.mensaje,
+        action: respuesta.accion ? ACCION_A_CRUD[respuesta.accion] : "",
+        module: respuesta.modulo || "",
+        confidence: 1
+      };
+    }
+
+    if (respuesta.tipo === "CONVERSACION") {
+      return { tipo: "CONVERSACION", mensaje: respuesta.mensaje };
+    }
+
+    if (respuesta.requiereFiltros) {
+      return { tipo: "ACLARACION", mensaje: respuesta.mensaje, candidatos: respuesta.candidatos };
+    }
+
+    return {
+      action: respuesta.accion ? ACCION_A_CRUD[respuesta.accion] : "",
+      module: respuesta.modulo || "",
+      endpoint: respuesta.endpoint,
+      urlCompleta: respuesta.urlCompleta,
+      method: respuesta.method,
+      payload: respuesta.payload || {},
+      preview: {},
+      confidence: 1,
+      endpointId: respuesta.endpointId,
+      mensaje: respuesta.mensaje,
+      advertencias: respuesta.advertencias,
+      intentos: respuesta.intentos
+    };
+  }
+}
+
+/**
+ * Reglas locales primero; si fallan o la confianza no llega a umbralMinimoConfianza
+ * se delega al motor LLM de IA_HYBRID_FALLBACK (DEEPSEEK por defecto).
+ * Cada intento local está acotado por tiempoEsperaFallback (ms, 0 = sin límite)
+ * y solo se reintenta ante errores, hasta maxIntentosLocal.
+ */
+export class HybridMotor implements IIAInterpreter {
+  private local = new LocalMotor();
+  private fallback: IIAInterpreter;
+  readonly motorFallback: IAMotor;
+
+  constructor(erpConfigService: ERPConfigService, motorFallback?: IAMotor) {
+    this.motorFallback = motorFallback || (process.env.IA_HYBRID_FALLBACK as IAMotor | undefined) || "DEEPSEEK";
+    if (!IAMotorSchema.safeParse(this.motorFallback).success || ["LOCAL", "HYBRID"].includes(this.motorFallback)) {
+      throw new Error(`IA_HYBRID_FALLBACK debe ser un motor LLM, no ${this.motorFallback}`);
+    }
+    this.fallback = getIAMotor(this.motorFallback, erpConfigService);
+  }
+
+  async interpret(message: string, modulosDisponibles: string[], erpContext: any, opciones?: InterpretOptions) {
+    const { umbralMinimoConfianza, maxIntentosLocal, tiempoEsperaFallback } = localService.getAjustesFallback();
+
+    for (let intento = 1; intento <= Math.max(1, maxIntentosLocal); intento++) {
+      try {
+        const result = await this.conLimite(
+          this.local.interpret(message, modulosDisponibles, erpContext),
+          tiempoEsperaFallback
+        );
+        if ((result.confidence ?? 0) >= umbralMinimoConfianza) {
+          return { ...result, motorUsado: "LOCAL" };
+        }
+        break;
+      } catch {
+        // Se reintenta; agotados los intentos pasamos al LLM
+      }
+    }
+
+    const result = await this.fallback.interpret(message, modulosDisponibles, erpContext, opciones);
+    return { ...result, motorUsado: this.motorFallback };
+  }
+
+  private conLimite<T>(promesa: Promise<T>, ms: number): Promise<T> {
+    if (!ms || ms <= 0) return promesa;
+
+    let timer: NodeJS.Timeout;
+    const limite = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new Error(`Motor local excedió ${ms}ms`)), ms);
+    });
+    return Promise.race([promesa, limite]).finally(() => clearTimeout(timer));
   }
 }
 
@@ -66,5 +192,7 @@ export function getIAMotor(
 ): IIAInterpreter {
   if (motor === "GEMINI") return new GeminiMotor(erpConfigService);
   if (motor === "DEEPSEEK") return new DeepSeekMotor(erpConfigService);
+  if (motor === "DEEPSEEK_RAW") return new DeepSeekRawMotor();
+  if (motor === "HYBRID") return new HybridMotor(erpConfigService);
   return new LocalMotor();
 }
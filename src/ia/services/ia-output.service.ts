@@ -1,7 +1,14 @@
-import { IAOutputSchema } from "../schemas/ia-output.schema";
+import { IAConversacionSchema, IAOutputSchema } from "../schemas/ia-output.schema";
+import { ErrorPermiso, describirPermisoDenegado, verificarPermiso } from "../../erp/permisos";
+
+type InterpretOutput =
+  | IAOutputSchema
+  | IAConversacionSchema
+  | { needsParameters: any[]; message: string; sessionId: string }
+  | { permisoDenegado: ErrorPermiso; message: string; sessionId?: string };
 
 export class IAOutputService {
-  generate(output: IAOutputSchema | { needsParameters: any[]; message: string; sessionId: string }, context: any) {
+  generate(output: InterpretOutput, context: any) {
     // Si faltan parámetros
     if ('needsParameters' in output) {
       return {
@@ -12,33 +19,62 @@ export class IAOutputService {
       };
     }
 
-    // Si es resultado completo
-    const { action, module, endpoint, method, payload, preview } = output as IAOutputSchema;
-
-    // Validar permisos
-    if (!context.permisos.modulos.includes(module)) {
+    // El intérprete ya descartó la acción por permisos
+    if ('permisoDenegado' in output) {
       return {
         success: false,
-        error: "PERMISO_MODULO_DENEGADO"
+        error: output.permisoDenegado,
+        details: output.message,
+        sessionId: output.sessionId
+      };
+    }
+
+    // Charla o aclaración: no hay nada que autorizar ni ejecutar
+    if ('tipo' in output) {
+      return {
+        success: true,
+        tipo: output.tipo,
+        mensaje: output.mensaje,
+        motorUsado: output.motorUsado,
+        sessionId: output.sessionId,
+        ...(output.candidatos ? { candidatos: output.candidatos } : {})
       };
     }
 
-    if (!context.permisos.acciones.includes(action)) {
+    // Si es resultado completo
+    const { action, module, endpoint, urlCompleta, method, payload, preview, endpointId, mensaje, advertencias, intentos, motorUsado, sessionId } = output;
+
+    // Validar permisos (los motores devuelven "Clinico" o "CLINICO", "READ" o "leer")
+    const denegado = verificarPermiso(context.permisos, module, action);
+    if (denegado) {
       return {
         success: false,
-        error: "PERMISO_ACCION_DENEGADO"
+        error: denegado,
+        details: describirPermisoDenegado(denegado, module, action)
       };
     }
 
     // Generar curl
+    const url = urlCompleta || endpoint;
     const payloadString = payload ? JSON.stringify(payload) : "";
     const curlCommand =
       method === "GET"
-        ? `curl "${endpoint}"`
-        : `curl -X ${method} -H "Content-Type: application/json" -d '${payloadString}' "${endpoint}"`;
+        ? `curl "${url}"`
+        : `curl -X ${method} -H "Content-Type: application/json" -d '${payloadString}' "${url}"`;
 
     return {
       success: true,
+      action,
+      module,
+      endpoint,
+      method,
+      payload,
+      endpointId,
+      mensaje,
+      advertencias,
+      intentos,
+      motorUsado,
+      sessionId,
       preview,
       curl: curlCommand
     };
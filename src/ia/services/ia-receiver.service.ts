@@ -1,9 +1,10 @@
-import { IAInputSchema } from "../../types/ia-input.schema";
+import { IAInputSchema, IAMotorSchema } from "../../types/ia-input.schema";
 import { IAInterpreterInput } from "../../types/ia-interpreter-input";
+import { IAMotor } from "./ia-motor-factory";
 
 export interface ReceiveMessageResult {
   success: boolean;
-  payload?: IAInterpreterInput & { sessionId?: string };
+  payload?: IAInterpreterInput & { sessionId?: string; motor?: IAMotor };
   error?: string;
   details?: any;
 }
@@ -27,7 +28,7 @@ export async function receiveMessage(
       };
     }
 
-    const { message, context, sessionId } = parsedBody;
+    const { message, context, sessionId, motor } = parsedBody;
 
     // Validar campos requeridos
     if (!message || typeof message !== 'string') {
@@ -64,13 +65,33 @@ export async function receiveMessage(
       };
     }
 
+    // Validar motor si está presente
+    if (motor !== undefined && !IAMotorSchema.safeParse(motor).success) {
+      return {
+        success: false,
+        error: "INVALID_MOTOR",
+        details: `motor debe ser uno de: ${IAMotorSchema.options.join(', ')}`
+      };
+    }
+
+    // Validar el resto de la estructura contra el esquema
+    const validacion = IAInputSchema.safeParse(parsedBody);
+    if (!validacion.success) {
+      return {
+        success: false,
+        error: "INVALID_INPUT",
+        details: validacion.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`)
+      };
+    }
+
     // Retornar payload listo para el interprete
     return {
       success: true,
       payload: { 
         message, 
-        context,
-        sessionId: sessionId || undefined
+        context: validacion.data.context,
+        sessionId: sessionId || undefined,
+        motor: validacion.data.motor
       }
     };
   } catch (err: any) {
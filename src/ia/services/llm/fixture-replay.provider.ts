@@ -0,0 +1,70 @@
+import * as fs from "fs";
+import { LLMChatRequest, LLMChatResponse, LLMLlamadaHerramienta, LLMProvider } from "./llm-provider";
+
+/**
+ * Respuesta grabada. Con "coincide" se elige cuando el último mensaje del usuario
+ * contiene ese texto (sin distinguir mayúsculas); sin él, se usa en orden de aparición.
+ * "llamadas" simula function calling; solo se devuelven si la solicitud trae herramientas.
+ */
+export interface LLMFixture {
+  coincide?: string;
+  content: string;
+  llamadas?: LLMLlamadaHerramienta[];
+}
+
+export interface ArchivoFixtures {
+  respuestas: LLMFixture[];
+}
+
+/**
+ * Proveedor sin red: reproduce respuestas grabadas de forma determinista.
+ * Sirve para probar todo el pipeline de interpretación offline.
+ */
+export class FixtureReplayProvider implements LLMProvider {
+  readonly proveedor = "fixture" as const;
+  readonly modelo = "fixture-replay";
+  readonly soportaHerramientas = true;
+  private readonly respuestas: LLMFixture[];
+  private siguienteSecuencial = 0;
+  readonly solicitudes: LLMChatRequest[] = [];
+
+  constructor(origen: string | LLMFixture[]) {
+    if (Array.isArray(origen)) {
+      this.respuestas = origen;
+    } else {
+      const archivo = JSON.parse(fs.readFileSync(origen, "utf-8")) as ArchivoFixtures;
+      if (!Array.isArray(archivo?.respuestas)) {
+        throw new Error(`El archivo de fixtures ${origen} debe tener un array 'respuestas'`);
+      }
+      this.respuestas = archivo.respuestas;
+    }
+  }
+
+  async chat(request: LLMChatRequest): Promise<LLMChatResponse> {
+    this.solicitudes.push(request);
+
+    const ultimoUsuario = [...request.messages].reverse().find(m => m.role === "user")?.content || "";
+    const texto = ultimoUsuario.toLowerCase();
+
+    const porCoincidencia = this.respuestas.find(
+      r => r.coincide !== undefined && texto.includes(r.coincide.toLowerCase())
+    );
+
+    const secuenciales = this.respuestas.filter(r => r.coincide === undefined);
+    const fixture = porCoincidencia
+      || (this.siguienteSecuencial < secuenciales.length ? secuenciales[this.siguienteSecuencial++] : undefined);
+
+    if (!fixture) {
+      throw new Error(`No hay fixture para el mensaje: "${ultimoUsuario.slice(0, 80)}"`);
+    }
+
+    const llamadas = request.herramientas?.length ? fixture.llamadas : undefined;
+
+    return {
+      content: fixture.content,
+      provider: this.proveedor,
+      model: this.modelo,
+      ...(llamadas?.length ? { llamadas } : {})
+    };
+  }
+}
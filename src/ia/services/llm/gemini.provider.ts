@@ -0,0 +1,72 @@
+import { GoogleGenAI } from "@google/genai";
+import { LLMChatRequest, LLMChatResponse, LLMProvider, LLMSettings, limpiarBloqueCodigo } from "./llm-provider";
+
+export class GeminiProvider implements LLMProvider {
+  readonly proveedor = "gemini" as const;
+  readonly modelo: string;
+  readonly soportaHerramientas: boolean;
+  private ai: GoogleGenAI;
+
+  constructor(private settings: LLMSettings) {
+    if (!settings.apiKey) {
+      throw new Error("GEMINI_API_KEY no configurada en el .env");
+    }
+
+    this.modelo = settings.modelo;
+    this.soportaHerramientas = settings.herramientas;
+    this.ai = new GoogleGenAI({
+      apiKey: settings.apiKey,
+      ...(settings.baseUrl ? { httpOptions: { baseUrl: settings.baseUrl } } : {})
+    });
+  }
+
+  async chat(request: LLMChatRequest): Promise<LLMChatResponse> {
+    const systemInstruction = request.messages
+      .filter(m => m.role === "system")
+      .map(m => m.content)
+      .join("\n\n");
+
+    const contents = request.messages
+      .filter(m => m.role !== "system")
+      .map(m => ({
+        role: m.role === "assistant" ? "model" : "user",
+        parts: [{ text: m.content }]
+      }));
+
+    const response = await this.ai.models.generateContent({
+      model: this.modelo,
+      contents,
+      config: {
+        temperature: request.temperature ?? this.settings.temperatura,
+        abortSignal: AbortSignal.timeout(this.settings.timeoutMs),
+        ...(systemInstruction ? { systemInstruction } : {}),
+        // Gemini no admite responseMimeType JSON junto con function calling
+        ...(request.jsonMode && !request.herramientas?.length ? { responseMimeType: "application/json" } : {}),
+        ...(request.herramientas?.length
+          ? {
+            tools: [{
+              functionDeclarations: request.herramientas.map(h => ({
+                name: h.nombre,
+                description: h.descripcion,
+                parametersJsonSchema: h.parametros
+              }))
+            }]
+          }
+          : {})
+      }
+    });
+
+    const llamadas = (response.functionCalls || []).map(call => ({
+      nombre: call.name || "",
+      argumentos: JSON.stringify(call.args || {})
+    }));
+
+    return {
+      content: limpiarBloqueCodigo(response.text ?? ""),
+      provider: this.proveedor,
+      model: this.modelo,
+      ...(llamadas.length ? { llamadas } : {}),
+      raw: response
+    };
+  }
+}
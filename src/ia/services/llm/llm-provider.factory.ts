@@ -0,0 +1,128 @@
+import { ConfiguracionLLM, ProveedorLLM } from "../../../erp/configs/api-config";
+import { configuracionRegistry } from "../../../erp/configs/config-registry";
+import { LLMProvider, LLMSettings } from "./llm-provider";
+import { OpenAICompatibleProvider } from "./openai-compatible.provider";
+import { GeminiProvider } from "./gemini.provider";
+import { FixtureReplayProvider } from "./fixture-replay.provider";
+import { RedaccionProvider, Redactor, redaccionActiva } from "./redaccion.provider";
+
+const PROVEEDORES: ProveedorLLM[] = ["deepseek", "openai", "openai-compatible", "gemini", "fixture"];
+
+// Un reproductor por archivo, para que las respuestas secuenciales avancen entre peticiones
+const reproductores = new Map<string, FixtureReplayProvider>();
+
+/**
+ * Valores por defecto de cada proveedor; cada uno admite sus propias variables de entorno
+ */
+function valoresPorDefecto(proveedor: ProveedorLLM): Omit<LLMSettings, "proveedor" | "temperatura" | "timeoutMs" | "herramientas"> & { apiKeyEnv?: string } {
+  switch (proveedor) {
+    case "deepseek":
+      return {
+        modelo: process.env.DEEPSEEK_MODEL || "deepseek-chat",
+        // DEEPSEEK_BASE_URL históricamente incluía /chat/completions
+        baseUrl: (process.env.DEEPSEEK_BASE_URL || "https://api.deepseek.com/v1").replace(/\/chat\/completions\/?$/, ""),
+        apiKeyEnv: "DEEPSEEK_API_KEY"
+      };
+    case "openai":
+      return {
+        modelo: process.env.OPENAI_MODEL || "gpt-4o-mini",
+        baseUrl: process.env.OPENAI_BASE_URL || "https://api.openai.com/v1",
+        apiKeyEnv: "OPENAI_API_KEY"
+      };
+    case "openai-compatible":
+      return {
+        modelo: process.env.LLM_MODEL || "local-model",
+        baseUrl: process.env.LLM_BASE_URL || "http://localhost:8099/v1",
+        apiKeyEnv: "LLM_API_KEY"
+      };
+    case "gemini":
+      return {
+        modelo: process.env.GEMINI_MODEL || "gemini-3-flash-preview",
+        apiKeyEnv: "GEMINI_API_KEY"
+      };
+    case "fixture":
+      return {
+        modelo: "fixture-replay",
+        fixtures: process.env.LLM_FIXTURES_PATH
+      };
+  }
+}
+
+/**
+ * Resuelve la configuración final: empresa > LLM_PROVIDER > proveedor por defecto del motor
+ */
+export function resolverSettingsLLM(
+  configEmpresa: ConfiguracionLLM | undefined,
+  proveedorPorDefecto: ProveedorLLM
+): LLMSettings {
+  const proveedor = configEmpresa?.proveedor
+    || (process.env.LLM_PROVIDER as ProveedorLLM | undefined)
+    || proveedorPorDefecto;
+
+  if (!PROVEEDORES.includes(proveedor)) {
+    throw new Error(`Proveedor LLM no soportado: ${proveedor}. Disponibles: ${PROVEEDORES.join(", ")}`);
+  }
+
+  const defaults = valoresPorDefecto(proveedor);
+  const apiKeyEnv = configEmpresa?.apiKeyEnv || defaults.apiKeyEnv;
+
+  return {
+    proveedor,
+    modelo: configEmpresa?.modelo || defaults.modelo,
+    baseUrl: configEmpresa?.baseUrl || defaults.baseUrl,
+    apiKey: apiKeyEnv ? process.env[apiKeyEnv] : undefined,
+    temperatura: configEmpresa?.temperatura ?? (Number(process.env.LLM_TEMPERATURE) || 0),
+    timeoutMs: configEmpresa?.timeoutMs ?? (Number(process.env.LLM_TIMEOUT_MS) || 60000),
+    fixtures: configEmpresa?.fixtures || defaults.fixtures,
+    herramientas: configEmpresa?.herramientas ?? process.env.LLM_HERRAMIENTAS !== "false"
+  };
+}
+
+export function crearLLMProvider(settings: LLMSettings): LLMProvider {
+  switch (settings.proveedor) {
+    case "gemini":
+      return new GeminiProvider(settings);
+    case "fixture":
+      if (!settings.fixtures) {
+        throw new Error("El proveedor fixture requiere LLM_FIXTURES_PATH o llm.fixtures en la configuración");
+      }
+      if (!reproductores.has(settings.fixtures)) {
+        reproductores.set(settings.fixtures, new FixtureReplayProvider(settings.fixtures));
+      }
+      return reproductores.get(settings.fixtures)!;
+    default:
+      return new OpenAICompatibleProvider(settings);
+  }
+}
+
+function configuracionDe(empresa: string | undefined) {
+  return empresa && configuracionRegistry.existe(empresa)
+    ? configuracionRegistry.obtener(empresa)
+    : undefined;
+}
+
+/**
+ * Con la redacción activa (llm.redaccion / LLM_REDACCION) los datos personales de los
+ * mensajes viajan como placeholders. Se aplica también a los proveedores inyectados en los
+ * servicios: ningún motor llama a un proveedor sin pasar por aquí.
+ */
+export function conRedaccion(provider: LLMProvider, empresa: string | undefined): LLMProvider {
+  if (provider instanceof RedaccionProvider) return provider;
+
+  const config = configuracionDe(empresa);
+  const politica = config?.llm?.redaccion;
+  if (!redaccionActiva(politica)) return provider;
+  return new RedaccionProvider(provider, new Redactor(politica, config?.modulos.map(m => m.nombre)));
+}
+
+/**
+ * Proveedor de la empresa, con su redacción; si la empresa no está registrada se usa el del
+ * entorno / motor
+ */
+export function crearLLMProviderParaEmpresa(
+  empresa: string | undefined,
+  proveedorPorDefecto: ProveedorLLM
+): LLMProvider {
+  const config = configuracionDe(empresa);
+  return conRedaccion(crearLLMProvider(resolverSettingsLLM(config?.llm, proveedorPorDefecto)), empresa);
+}
@@ -0,0 +1,80 @@
+import { createHash } from "crypto";
+import { ProveedorLLM } from "../../../erp/configs/api-config";
+
+export type LLMRol = "system" | "user" | "assistant";
+
+export interface LLMMensaje {
+  role: LLMRol;
+  content: string;
+}
+
+/**
+ * Función que el modelo puede invocar (function calling); parametros es un JSON Schema
+ */
+export interface LLMHerramienta {
+  nombre: string;
+  descripcion: string;
+  parametros: Record<string, any>;
+}
+
+export interface LLMLlamadaHerramienta {
+  nombre: string;
+  argumentos: string;       // JSON tal como lo devuelve el modelo, sin parsear
+}
+
+export interface LLMChatRequest {
+  messages: LLMMensaje[];
+  jsonMode?: boolean;       // pide al modelo un único objeto JSON
+  temperature?: number;     // si no se indica, la de la configuración
+  herramientas?: LLMHerramienta[];  // solo si el proveedor tiene soportaHerramientas
+}
+
+export interface LLMChatResponse {
+  content: string;
+  provider: ProveedorLLM;
+  model: string;
+  llamadas?: LLMLlamadaHerramienta[];
+  raw?: any;
+}
+
+/**
+ * Contrato común de los proveedores de chat completion
+ */
+export interface LLMProvider {
+  readonly proveedor: ProveedorLLM;
+  readonly modelo: string;
+  readonly soportaHerramientas?: boolean;
+  chat(request: LLMChatRequest): Promise<LLMChatResponse>;
+}
+
+/**
+ * Configuración ya resuelta (empresa + entorno + valores por defecto del proveedor)
+ */
+export interface LLMSettings {
+  proveedor: ProveedorLLM;
+  modelo: string;
+  baseUrl?: string;
+  apiKey?: string;
+  temperatura: number;
+  timeoutMs: number;
+  fixtures?: string;
+  herramientas: boolean;
+}
+
+/**
+ * Quita los bloques ```json que algunos modelos agregan aunque se pida JSON puro
+ */
+export function limpiarBloqueCodigo(texto: string): string {
+  const limpio = texto.trim();
+  if (limpio.startsWith("```") && limpio.endsWith("```")) {
+    return limpio.replace(/```(json)?/g, "").trim();
+  }
+  return limpio;
+}
+
+/**
+ * Hash de los mensajes enviados al modelo: identifica el prompt sin guardarlo entero
+ */
+export function hashDeMensajes(messages: LLMMensaje[]): string {
+  return createHash("sha256").update(JSON.stringify(messages)).digest("hex");
+}
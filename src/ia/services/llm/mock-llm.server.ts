@@ -0,0 +1,82 @@
+import Fastify from "fastify";
+import * as path from "path";
+import { FixtureReplayProvider } from "./fixture-replay.provider";
+
+/**
+ * LLM local compatible con OpenAI (/v1/chat/completions) que reproduce fixtures.
+ * Úsalo con llm.proveedor = "openai-compatible" y LLM_BASE_URL=http://localhost:8099/v1
+ */
+const fixtures = process.env.LLM_FIXTURES_PATH || path.join(__dirname, "fixtures", "demo.fixtures.json");
+const provider = new FixtureReplayProvider(fixtures);
+
+const server = Fastify({
+  logger: true
+});
+
+const PORT = Number(process.env.MOCK_LLM_PORT) || 8099;
+
+server.post("/v1/chat/completions", async (request, reply) => {
+  const body = request.body as any;
+  if (!Array.isArray(body?.messages)) {
+    return reply.status(400).send({ error: { message: "messages es requerido" } });
+  }
+
+  try {
+    const respuesta = await provider.chat({
+      messages: body.messages,
+      jsonMode: body.response_format?.type === "json_object",
+      herramientas: Array.isArray(body.tools)
+        ? body.tools.map((tool: any) => ({
+          nombre: tool.function?.name,
+          descripcion: tool.function?.description || "",
+          parametros: tool.function?.parameters || {}
+        }))
+        : undefined
+    });
+
+    return reply.send({
+      id: `fixture-${Date.now()}`,
+      object: "chat.completion",
+      created: Math.floor(Date.now() / 1000),
+      model: body.model || provider.modelo,
+      choices: [
+        {
+          index: 0,
+          message: {
+            role: "assistant",
+            content: respuesta.llamadas ? null : respuesta.content,
+            ...(respuesta.llamadas
+              ? {
+                tool_calls: respuesta.llamadas.map((llamada, i) => ({
+                  id: `call_${i}`,
+                  type: "function",
+                  function: { name: llamada.nombre, arguments: llamada.argumentos }
+                }))
+              }
+              : {})
+          },
+          finish_reason: respuesta.llamadas ? "tool_calls" : "stop"
+        }
+      ]
+    });
+  } catch (error: any) {
+    return reply.status(404).send({ error: { message: error.message } });
+  }
+});
+
+const start = async () => {
+  try {
+    await server.listen({
+      port: PORT,
+      host: "0.0.0.0"
+    });
+
+    console.log("-- mock LLM running on port " + PORT + " --");
+  } catch (err) {
+    console.log("-- mock LLM failed to start --");
+    console.log(err);
+    process.exit(1);
+  }
+};
+
+start();
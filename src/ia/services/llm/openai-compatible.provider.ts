@@ -0,0 +1,75 @@
+import axios from "axios";
+import { LLMChatRequest, LLMChatResponse, LLMProvider, LLMSettings } from "./llm-provider";
+
+/**
+ * Cualquier API con /chat/completions al estilo OpenAI: DeepSeek, OpenAI,
+ * o servidores locales (Ollama, LM Studio, vLLM, npm run mock:llm)
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly proveedor: LLMSettings["proveedor"];
+  readonly modelo: string;
+  readonly soportaHerramientas: boolean;
+
+  constructor(private settings: LLMSettings) {
+    if (!settings.baseUrl) {
+      throw new Error(`El proveedor ${settings.proveedor} requiere baseUrl`);
+    }
+    this.proveedor = settings.proveedor;
+    this.modelo = settings.modelo;
+    // Los servidores locales no siempre implementan tools; llm.herramientas = false los deja en JSON
+    this.soportaHerramientas = settings.herramientas;
+  }
+
+  async chat(request: LLMChatRequest): Promise<LLMChatResponse> {
+    const requestBody: Record<string, any> = {
+      model: this.modelo,
+      messages: request.messages,
+      temperature: request.temperature ?? this.settings.temperatura
+    };
+
+    if (request.jsonMode) {
+      requestBody.response_format = { type: "json_object" };
+    }
+
+    if (request.herramientas?.length) {
+      requestBody.tools = request.herramientas.map(h => ({
+        type: "function",
+        function: { name: h.nombre, description: h.descripcion, parameters: h.parametros }
+      }));
+      requestBody.tool_choice = "auto";
+    }
+
+    const response = await axios.post(
+      `${this.settings.baseUrl!.replace(/\/+$/, "")}/chat/completions`,
+      requestBody,
+      {
+        timeout: this.settings.timeoutMs,
+        headers: {
+          "Content-Type": "application/json",
+          ...(this.settings.apiKey ? { Authorization: `Bearer ${this.settings.apiKey}` } : {})
+        }
+      }
+    );
+
+    const message = response.data?.choices?.[0]?.message;
+    const llamadas = Array.isArray(message?.tool_calls)
+      ? message.tool_calls.map((call: any) => ({
+        nombre: call.function?.name,
+        argumentos: call.function?.arguments || "{}"
+      }))
+      : undefined;
+
+    // Con tool_calls el content suele venir en null
+    if (typeof message?.content !== "string" && !llamadas?.length) {
+      throw new Error(`Respuesta inválida de ${this.proveedor}: no contiene choices[0].message.content`);
+    }
+
+    return {
+      content: message.content || "",
+      provider: this.proveedor,
+      model: response.data?.model || this.modelo,
+      ...(llamadas?.length ? { llamadas } : {}),
+      raw: response.data
+    };
+  }
+}
@@ -0,0 +1,69 @@
+import { FixtureReplayProvider } from "./fixture-replay.provider";
+import { MapaRedaccion, RedaccionProvider, Redactor } from "./redaccion.provider";
+
+describe("Redactor", () => {
+  it.each([
+    [
+      "Registrar al paciente Juan Pérez con DNI 45678912 y correo juan.perez@mail.com",
+      "Registrar al paciente [NOMBRE_1] con DNI [DNI_1] y correo [EMAIL_1]"
+    ],
+    ["Listar Ana Torres y Luis Gómez", "Listar [NOMBRE_1] y [NOMBRE_2]"],
+    ["ventas del 20260315 del RUC 20123456789, tel 987 654 321", "ventas del 20260315 del RUC [RUC_1], tel [TELEFONO_1]"]
+  ])("%s", (texto, redactado) => {
+    const mapa = new MapaRedaccion();
+
+    expect(new Redactor().redactar(texto, mapa)).toBe(redactado);
+    expect(mapa.restaurarTexto(redactado)).toBe(texto);
+  });
+
+  it("el mismo valor recibe el mismo placeholder en toda la llamada", () => {
+    const mapa = new MapaRedaccion();
+    const redactor = new Redactor();
+
+    expect(redactor.redactar("DNI 45678912", mapa)).toBe("DNI [DNI_1]");
+    expect(redactor.redactar("confirma el 45678912", mapa)).toBe("confirma el [DNI_1]");
+    expect(mapa.total).toBe(1);
+  });
+
+  it("respeta los tipos, excepciones y patrones de la política", () => {
+    const politica = { tipos: ["DNI" as const], patrones: [{ tipo: "HC", patron: "HC-\\d+" }], excepciones: ["45678912"] };
+    const redactor = new Redactor(politica);
+
+    expect(redactor.redactar("paciente Juan Pérez DNI 45678912 historia HC-1234 y DNI 12345678", new MapaRedaccion()))
+      .toBe("paciente Juan Pérez DNI 45678912 historia [HC_1] y DNI [DNI_1]");
+  });
+});
+
+describe("RedaccionProvider", () => {
+  it("envía placeholders al modelo y restaura los valores en contenido y herramientas", async () => {
+    const base = new FixtureReplayProvider([{
+      content: JSON.stringify({ mensaje: "Busco a [NOMBRE_1]" }),
+      llamadas: [{ nombre: "buscar", argumentos: JSON.stringify({ oEntity: { T_Descripcion: "[NOMBRE_1]", DNI: "[DNI_1]" } }) }]
+    }]);
+    const provider = new RedaccionProvider(base, new Redactor());
+
+    const respuesta = await provider.chat({
+      messages: [
+        { role: "system", content: "Eres el asistente del ERP de Juan Pérez" },
+        { role: "user", content: "busca al paciente Juan Pérez con DNI 45678912" }
+      ],
+      herramientas: [{ nombre: "buscar", descripcion: "Busca pacientes", parametros: {} }]
+    });
+
+    const [system, usuario] = base.solicitudes[0].messages;
+    expect(system.content).toBe("Eres el asistente del ERP de Juan Pérez");
+    expect(usuario.content).toBe("busca al paciente [NOMBRE_1] con DNI [DNI_1]");
+
+    expect(JSON.parse(respuesta.content)).toEqual({ mensaje: "Busco a Juan Pérez" });
+    expect(JSON.parse(respuesta.llamadas![0].argumentos)).toEqual({ oEntity: { T_Descripcion: "Juan Pérez", DNI: "45678912" } });
+  });
+
+  it("sin datos personales devuelve la respuesta del modelo sin tocarla", async () => {
+    const base = new FixtureReplayProvider([{ content: "texto [DNI_1] literal" }]);
+    const provider = new RedaccionProvider(base, new Redactor());
+
+    const respuesta = await provider.chat({ messages: [{ role: "user", content: "lista las ventas" }] });
+
+    expect(respuesta.content).toBe("texto [DNI_1] literal");
+  });
+});
@@ -0,0 +1,229 @@
+import { ConfiguracionRedaccion, TipoDatoPersonal } from "../../../erp/configs/api-config";
+import { LLMChatRequest, LLMChatResponse, LLMProvider } from "./llm-provider";
+
+/* ============================================================
+   Redacción de datos personales antes de llamar al LLM
+   ============================================================ */
+
+interface Detector {
+  tipo: string;
+  buscar(texto: string): { inicio: number; valor: string }[];
+}
+
+// Palabras que anteceden a un nombre: "paciente Juan", "Dra. Rosa Pérez"
+const ANTESALAS_NOMBRE = [
+  "paciente", "pacientes", "cliente", "clientes", "médico", "medico", "doctor", "doctora",
+  "dr.", "dra.", "dr", "dra", "sr.", "sra.", "srta.", "sr", "sra", "srta", "señor", "señora",
+  "señorita", "llamado", "llamada", "nombre", "apellido"
+];
+
+const PALABRA_NOMBRE = "\\p{Lu}[\\p{Ll}'’-]+";
+const NOMBRE = `${PALABRA_NOMBRE}(?:\\s+(?:(?:de|del)\\s+(?:la\\s+|los\\s+)?)?${PALABRA_NOMBRE}){0,3}`;
+
+const PLACEHOLDER = /\[([A-Z][A-Z0-9]*_\d+)\]/g;
+
+function conRegex(tipo: string, regex: RegExp, descartar?: (valor: string) => boolean): Detector {
+  return {
+    tipo,
+    buscar: texto => [...texto.matchAll(regex)]
+      .filter(m => m[0].length > 0 && !descartar?.(m[0]))
+      .map(m => ({ inicio: m.index!, valor: m[0] }))
+  };
+}
+
+/**
+ * 8 dígitos que forman una fecha AAAAMMDD válida no se toman por DNI
+ */
+function esFechaCompacta(valor: string): boolean {
+  const anio = Number(valor.slice(0, 4));
+  const mes = Number(valor.slice(4, 6));
+  const dia = Number(valor.slice(6, 8));
+  return anio >= 1900 && anio <= 2100 && mes >= 1 && mes <= 12 && dia >= 1 && dia <= 31;
+}
+
+/**
+ * Nombres propios: tras una antesala ("paciente Juan Pérez") o dos o más palabras con
+ * mayúscula inicial fuera del inicio de una oración. Es una heurística: un nombre en
+ * minúsculas y sin antesala no se detecta.
+ */
+function detectorNombres(): Detector {
+  const antesalas = ANTESALAS_NOMBRE
+    .map(a => `[${a[0]}${a[0].toUpperCase()}]${a.slice(1).replace(/\./g, "\\.")}`)
+    .join("|");
+  const trasAntesala = new RegExp(`(?<![\\p{L}])(?:${antesalas})(?:\\s*:|\\s+(?:es|de))?\\s+(${NOMBRE})`, "gu");
+  const secuencia = new RegExp(`(?<![\\p{L}])${PALABRA_NOMBRE}(?:\\s+(?:(?:de|del)\\s+(?:la\\s+|los\\s+)?)?${PALABRA_NOMBRE}){1,3}`, "gu");
+
+  return {
+    tipo: "NOMBRE",
+    buscar: texto => {
+      const encontrados: { inicio: number; valor: string }[] = [];
+
+      for (const m of texto.matchAll(trasAntesala)) {
+        encontrados.push({ inicio: m.index! + m[0].length - m[1].length, valor: m[1] });
+      }
+
+      for (const m of texto.matchAll(secuencia)) {
+        let inicio = m.index!;
+        let valor = m[0];
+
+        // Al inicio de una oración la primera palabra suele ser un verbo ("Listar Juan Pérez")
+        if (/(^|[.!?¿¡\n])\s*$/.test(texto.slice(0, inicio))) {
+          const primera = valor.match(new RegExp(`^${PALABRA_NOMBRE}\\s+(?:(?:de|del)\\s+(?:la\\s+|los\\s+)?)?`, "u"))![0];
+          valor = valor.slice(primera.length);
+          inicio += primera.length;
+          if ((valor.match(new RegExp(PALABRA_NOMBRE, "gu")) || []).length < 2) continue;
+        }
+        encontrados.push({ inicio, valor });
+      }
+      return encontrados;
+    }
+  };
+}
+
+const DETECTORES: Record<TipoDatoPersonal, () => Detector> = {
+  EMAIL: () => conRegex("EMAIL", /[\p{L}\p{N}._%+-]+@[\p{L}\p{N}-]+(?:\.[\p{L}\p{N}-]+)*\.\p{L}{2,}/gu),
+  RUC: () => conRegex("RUC", /(?<!\d)(?:10|15|17|20)\d{9}(?!\d)/g),
+  TELEFONO: () => conRegex("TELEFONO", /(?:\+51[\s-]?)?(?<![\d+])9\d{2}[\s-]?\d{3}[\s-]?\d{3}(?!\d)|\(0\d{1,2}\)\s?\d{6,7}(?!\d)/g),
+  DNI: () => conRegex("DNI", /(?<!\d)\d{8}(?!\d)/g, esFechaCompacta),
+  NOMBRE: detectorNombres
+};
+
+/**
+ * Valores reemplazados en una llamada: el mismo valor recibe siempre el mismo placeholder
+ */
+export class MapaRedaccion {
+  private readonly porValor = new Map<string, string>();
+  private readonly porPlaceholder = new Map<string, string>();
+  private readonly contadores = new Map<string, number>();
+
+  placeholder(tipo: string, valor: string): string {
+    const existente = this.porValor.get(valor);
+    if (existente) return existente;
+
+    const numero = (this.contadores.get(tipo) || 0) + 1;
+    this.contadores.set(tipo, numero);
+    const placeholder = `[${tipo}_${numero}]`;
+    this.porValor.set(valor, placeholder);
+    this.porPlaceholder.set(placeholder, valor);
+    return placeholder;
+  }
+
+  get total(): number {
+    return this.porPlaceholder.size;
+  }
+
+  restaurarTexto(texto: string): string {
+    return texto.replace(PLACEHOLDER, placeholder => this.porPlaceholder.get(placeholder) ?? placeholder);
+  }
+
+  /**
+   * Restaura dentro de los strings de un JSON; si no es JSON, en el texto tal cual
+   */
+  restaurar(texto: string): string {
+    if (!texto || this.total === 0) return texto;
+    try {
+      return JSON.stringify(this.restaurarValor(JSON.parse(texto)));
+    } catch {
+      return this.restaurarTexto(texto);
+    }
+  }
+
+  private restaurarValor(valor: any): any {
+    if (typeof valor === "string") return this.restaurarTexto(valor);
+    if (Array.isArray(valor)) return valor.map(v => this.restaurarValor(v));
+    if (valor && typeof valor === "object") {
+      return Object.fromEntries(Object.entries(valor).map(([clave, hijo]) => [clave, this.restaurarValor(hijo)]));
+    }
+    return valor;
+  }
+}
+
+/**
+ * Detecta datos personales según la política de la empresa y los reemplaza por [TIPO_n]
+ */
+export class Redactor {
+  private readonly detectores: Detector[];
+  private readonly excepciones: Set<string>;
+
+  constructor(politica: ConfiguracionRedaccion = {}, excepciones: string[] = []) {
+    // Orden fijo: un correo o un RUC se reconocen antes que los nombres o DNI que contienen
+    const tipos = (Object.keys(DETECTORES) as TipoDatoPersonal[]).filter(t => !politica.tipos || politica.tipos.includes(t));
+    const propios = (politica.patrones || []).map(p =>
+      conRegex(p.tipo, new RegExp(p.patron, [...new Set(`gu${p.flags || ""}`)].join("")))
+    );
+
+    // Los patrones propios primero: suelen ser más específicos que los incorporados
+    this.detectores = [...propios, ...tipos.map(tipo => DETECTORES[tipo]())];
+    this.excepciones = new Set([...(politica.excepciones || []), ...excepciones].map(e => e.toLowerCase()));
+  }
+
+  redactar(texto: string, mapa: MapaRedaccion): string {
+    if (!texto) return texto;
+
+    // Los tramos se eligen en orden de detector y sin solaparse
+    const tramos: { inicio: number; fin: number; tipo: string; valor: string }[] = [];
+    for (const detector of this.detectores) {
+      for (const { inicio, valor } of detector.buscar(texto)) {
+        const fin = inicio + valor.length;
+        if (this.excepciones.has(valor.toLowerCase())) continue;
+        if (tramos.some(t => inicio < t.fin && fin > t.inicio)) continue;
+        tramos.push({ inicio, fin, tipo: detector.tipo, valor });
+      }
+    }
+
+    // Placeholders numerados en orden de lectura; se reemplaza desde el final para no mover índices
+    const reemplazos = tramos
+      .sort((a, b) => a.inicio - b.inicio)
+      .map(t => ({ ...t, placeholder: mapa.placeholder(t.tipo, t.valor) }));
+    return reemplazos.reduceRight(
+      (resultado, t) => resultado.slice(0, t.inicio) + t.placeholder + resultado.slice(t.fin),
+      texto
+    );
+  }
+}
+
+/**
+ * Envuelve cualquier proveedor: los mensajes del usuario y del asistente (historial) salen
+ * con placeholders, y en la respuesta (contenido y argumentos de herramientas) se vuelven
+ * a poner los valores originales. El system prompt no lleva datos del usuario y no se toca.
+ */
+export class RedaccionProvider implements LLMProvider {
+  constructor(private readonly proveedorBase: LLMProvider, private readonly redactor: Redactor) {}
+
+  get proveedor() {
+    return this.proveedorBase.proveedor;
+  }
+
+  get modelo() {
+    return this.proveedorBase.modelo;
+  }
+
+  get soportaHerramientas() {
+    return this.proveedorBase.soportaHerramientas;
+  }
+
+  async chat(request: LLMChatRequest): Promise<LLMChatResponse> {
+    const mapa = new MapaRedaccion();
+    const messages = request.messages.map(m =>
+      m.role === "system" ? m : { ...m, content: this.redactor.redactar(m.content, mapa) }
+    );
+
+    const respuesta = await this.proveedorBase.chat({ ...request, messages });
+    if (mapa.total === 0) return respuesta;
+
+    return {
+      ...respuesta,
+      content: mapa.restaurar(respuesta.content),
+      ...(respuesta.llamadas
+        ? { llamadas: respuesta.llamadas.map(l => ({ ...l, argumentos: mapa.restaurar(l.argumentos) })) }
+        : {})
+    };
+  }
+}
+
+/**
+ * Política de la empresa; sin "activa" decide LLM_REDACCION (activa salvo "false")
+ */
+export function redaccionActiva(politica?: ConfiguracionRedaccion): boolean {
+  return politica?.activa ?? process.env.LLM_REDACCION !== "false";
+}
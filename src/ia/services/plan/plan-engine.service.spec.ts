@@ -0,0 +1,29 @@
+import { PlanEngineService } from "./plan-engine.service";
+
+function planConHeaders(headers: Record<string, string>) {
+  return {
+    meta: { erp: "demo", module: "Clinico" },
+    intent: { domain: "GENERIC", action: "listar" },
+    executionMode: "PREVIEW",
+    steps: [{
+      id: "pacientes",
+      type: "HTTP_REQUEST",
+      request: { method: "POST", endpoint: "/Servicios/Clinico/WCF_Tsm_Pacientes.svc/F_Listar_Autocomplete", headers, body: {} }
+    }]
+  };
+}
+
+describe("PlanEngineService.validar", () => {
+  const engine = new PlanEngineService();
+
+  it("admite los headers de la lista permitida", () => {
+    expect(engine.validar(planConHeaders({ "X-Request-Id": "abc", "Accept-Language": "es" })).valido).toBe(true);
+  });
+
+  it.each(["Authorization", "Content-Type", "Host"])("rechaza el header %s", nombre => {
+    const validacion = engine.validar(planConHeaders({ [nombre]: "x" }));
+
+    expect(validacion.valido).toBe(false);
+    expect(validacion.errores[0]).toMatch(/^steps\.0\.request\.headers: Solo se admiten los headers/);
+  });
+});
@@ -0,0 +1,601 @@
+import {
+  IAOutput,
+  IAOutputSchema,
+  Step,
+  DynamicValue,
+  DynamicValueSchema,
+  ExecutionMode
+} from "../../../types/ia-output.schema";
+import { isDeepStrictEqual } from "util";
+import {
+  ConfiguracionAPI,
+  Endpoint,
+  AccionCRUD,
+  RequestPreparado,
+  validarPayload
+} from "../../../erp/configs/api-config";
+import { ERPExecutorService } from "../../../erp/erp-executor.service";
+import { ErrorPermiso, Permisos, describirPermisoDenegado, verificarPermiso } from "../../../erp/permisos";
+import {
+  PoliticaAcceso,
+  aplicarPoliticaPayload,
+  describirCamposDenegados,
+  endpointPermitido,
+  filtrarRespuesta
+} from "../../../erp/politicas";
+import { obtenerValorPorRuta, asignarValorPorRuta, separarRuta } from "./plan-rutas";
+
+export interface ResultadoPaso {
+  id: string;
+  type: Step["type"];
+  output: any;
+  ejecutado: boolean;
+  duracionMs: number;
+}
+
+export interface ResultadoPlan {
+  success: boolean;
+  executionMode?: ExecutionMode;
+  orden: string[];
+  pasos: ResultadoPaso[];
+  preview?: {
+    sourceStepId: string;
+    data: any;
+    resolvedFields: string[];
+    missingFields: string[];
+  };
+  errores: string[];
+}
+
+type EndpointCandidato = { modulo: string; endpoint: Endpoint; accion: AccionCRUD };
+
+/**
+ * Permisos y política del usuario que pide el plan; sin ellos no se restringe nada.
+ * escrituras: en COMMIT, los requests de escritura que el usuario confirmó, en orden
+ */
+interface AccesoPlan {
+  permisos?: Permisos;
+  politica?: PoliticaAcceso;
+  escrituras?: RequestPreparado[];
+}
+
+/**
+ * Mismas escrituras: método, URL, body y headers ya resueltos, en el mismo orden
+ */
+export function mismasEscrituras(a: RequestPreparado[], b: RequestPreparado[]): boolean {
+  const resumir = (r: RequestPreparado) => ({ metodo: r.metodo, url: r.url, body: r.body ?? null, headers: r.headers ?? null });
+  return isDeepStrictEqual(a.map(resumir), b.map(resumir));
+}
+
+/**
+ * Motor de planes multi-paso definidos con IAOutputSchema.
+ * Las rutas de entrada (inputPath) empiezan con el id del paso: "buscarCliente.d[0].Id".
+ */
+export class PlanEngineService {
+  constructor(private executor: ERPExecutorService = new ERPExecutorService()) {}
+
+  /**
+   * Valida el plan con zod y su grafo de dependencias
+   */
+  validar(plan: unknown): { valido: boolean; plan?: IAOutput; orden?: Step[]; errores: string[] } {
+    const parsed = IAOutputSchema.safeParse(plan);
+    if (!parsed.success) {
+      return {
+        valido: false,
+        errores: parsed.error.issues.map(issue => `${issue.path.join(".") || "plan"}: ${issue.message}`)
+      };
+    }
+
+    try {
+      const orden = this.ordenarPasos(parsed.data.steps);
+      return { valido: true, plan: parsed.data, orden, errores: [] };
+    } catch (error: any) {
+      return { valido: false, errores: [error.message] };
+    }
+  }
+
+  /**
+   * Orden topológico de los pasos (dependsOn + referencias fromStep). Rechaza ciclos.
+   */
+  ordenarPasos(steps: Step[]): Step[] {
+    const porId = new Map<string, Step>();
+    for (const step of steps) {
+      if (porId.has(step.id)) {
+        throw new Error(`Paso duplicado: '${step.id}'`);
+      }
+      porId.set(step.id, step);
+    }
+
+    const dependencias = new Map<string, Set<string>>();
+    for (const step of steps) {
+      const deps = new Set([...(step.dependsOn || []), ...this.referenciasDePaso(step)]);
+      deps.delete(step.id);
+      for (const dep of deps) {
+        if (!porId.has(dep)) {
+          throw new Error(`El paso '${step.id}' depende de '${dep}', que no existe`);
+        }
+      }
+      dependencias.set(step.id, deps);
+    }
+
+    const orden: Step[] = [];
+    const visitados = new Set<string>();
+    const enCurso: string[] = [];
+
+    const visitar = (id: string) => {
+      if (visitados.has(id)) return;
+      if (enCurso.includes(id)) {
+        const ciclo = [...enCurso.slice(enCurso.indexOf(id)), id].join(" -> ");
+        throw new Error(`Ciclo de dependencias detectado: ${ciclo}`);
+      }
+      enCurso.push(id);
+      dependencias.get(id)!.forEach(visitar);
+      enCurso.pop();
+      visitados.add(id);
+      orden.push(porId.get(id)!);
+    };
+
+    steps.forEach(step => visitar(step.id));
+    return orden;
+  }
+
+  /**
+   * Pasos HTTP que escriben en el ERP ("POST /ruta"): los que en COMMIT requieren confirmación
+   */
+  escrituras(plan: IAOutput, config: ConfiguracionAPI): string[] {
+    return plan.steps
+      .filter(step => step.type === "HTTP_REQUEST" && step.request)
+      .filter(step => this.candidatosDeRuta(config, step.request!.endpoint, step.request!.method).some(c => c.accion !== "leer"))
+      .map(step => `${step.request!.method} ${step.request!.endpoint}`);
+  }
+
+  /**
+   * Requests de escritura que resolvió un PREVIEW, en orden de ejecución: lo que se confirma
+   */
+  escriturasResueltas(resultado: ResultadoPlan): RequestPreparado[] {
+    return resultado.pasos
+      .filter(paso => paso.type === "HTTP_REQUEST" && !paso.ejecutado && paso.output?.preview)
+      .map(paso => paso.output.preview as RequestPreparado);
+  }
+
+  /**
+   * Ejecuta el plan paso a paso sobre la configuración de la empresa. Con permisos, un plan
+   * que use un endpoint no autorizado se rechaza entero antes de ejecutar ningún paso; la
+   * política del rol se aplica al body de cada request y a su respuesta.
+   * @param escrituras - En COMMIT, las escrituras confirmadas: una que resuelva distinto
+   *                     (porque cambiaron los datos de pasos anteriores) detiene el plan sin enviarse
+   */
+  async ejecutar(
+    plan: unknown,
+    config: ConfiguracionAPI,
+    permisos?: Permisos,
+    politica?: PoliticaAcceso,
+    escrituras?: RequestPreparado[]
+  ): Promise<ResultadoPlan> {
+    const validacion = this.validar(plan);
+    if (!validacion.valido) {
+      return { success: false, orden: [], pasos: [], errores: validacion.errores };
+    }
+
+    const planValido = validacion.plan!;
+    const orden = validacion.orden!;
+
+    const acceso: AccesoPlan = { permisos, politica, escrituras: escrituras && [...escrituras] };
+    const denegados = this.pasosNoAutorizados(orden, config, acceso);
+    if (denegados.length > 0) {
+      return { success: false, executionMode: planValido.executionMode, orden: orden.map(s => s.id), pasos: [], errores: denegados };
+    }
+    const outputs: Record<string, any> = {};
+    const pasos: ResultadoPaso[] = [];
+
+    for (const step of orden) {
+      const inicio = Date.now();
+      try {
+        const { output, ejecutado } = await this.ejecutarPaso(step, outputs, config, planValido.executionMode, acceso);
+        outputs[step.id] = output;
+        pasos.push({ id: step.id, type: step.type, output, ejecutado, duracionMs: Date.now() - inicio });
+      } catch (error: any) {
+        return {
+          success: false,
+          executionMode: planValido.executionMode,
+          orden: orden.map(s => s.id),
+          pasos,
+          errores: [`Paso '${step.id}' (${step.type}): ${error.message}`]
+        };
+      }
+    }
+
+    return {
+      success: true,
+      executionMode: planValido.executionMode,
+      orden: orden.map(s => s.id),
+      pasos,
+      preview: this.construirPreview(planValido, outputs),
+      errores: []
+    };
+  }
+
+  private async ejecutarPaso(
+    step: Step,
+    outputs: Record<string, any>,
+    config: ConfiguracionAPI,
+    modo: ExecutionMode,
+    acceso: AccesoPlan = {}
+  ): Promise<{ output: any; ejecutado: boolean }> {
+    switch (step.type) {
+      case "HTTP_REQUEST":
+        return this.ejecutarHttp(step, outputs, config, modo, acceso);
+      case "TRANSFORM":
+        return { output: this.ejecutarTransform(step, outputs), ejecutado: true };
+      case "FILTER":
+        return { output: this.ejecutarFilter(step, outputs), ejecutado: true };
+      case "MAP":
+        return { output: this.ejecutarMap(step, outputs), ejecutado: true };
+      case "AGGREGATE":
+        return { output: this.ejecutarAggregate(step, outputs), ejecutado: true };
+      case "SELECT_FIELDS":
+        return { output: this.ejecutarSelectFields(step, outputs), ejecutado: true };
+      default:
+        throw new Error(`Tipo de paso no soportado: ${step.type}`);
+    }
+  }
+
+  /* ============================================================
+     HTTP_REQUEST
+     ============================================================ */
+
+  private async ejecutarHttp(
+    step: Step,
+    outputs: Record<string, any>,
+    config: ConfiguracionAPI,
+    modo: ExecutionMode,
+    acceso: AccesoPlan
+  ): Promise<{ output: any; ejecutado: boolean }> {
+    if (!step.request) throw new Error("Falta la definición 'request'");
+
+    const body = step.request.body ? this.resolverValores(step.request.body, outputs) : undefined;
+    const query = step.request.query ? this.resolverValores(step.request.query, outputs) : undefined;
+    const headers = step.request.headers ? this.resolverValores(step.request.headers, outputs) : undefined;
+
+    const { endpoint, accion, payload } = this.buscarEndpoint(config, step.request.endpoint, step.request.method, body || {}, acceso);
+
+    const queryString = query
+      ? "?" + new URLSearchParams(Object.entries(query).map(([k, v]) => [k, String(v)])).toString()
+      : "";
+
+    const request: RequestPreparado = {
+      url: `${config.empresa.baseUrl}${endpoint.endpoint}${queryString}`,
+      metodo: step.request.method,
+      body: step.request.method !== "GET" ? payload : undefined,
+      headers: headers
+        ? Object.fromEntries(Object.entries(headers).map(([k, v]) => [k, String(v)]))
+        : undefined
+    };
+
+    if (modo === "COMMIT" && accion !== "leer" && acceso.escrituras) {
+      const confirmada = acceso.escrituras.shift();
+      if (!confirmada || !mismasEscrituras([request], [confirmada])) {
+        throw new Error("La escritura no coincide con la confirmada; vuelve a previsualizar el plan");
+      }
+    }
+
+    const resultado = await this.executor.ejecutar(request, accion, modo);
+
+    if (resultado.error) throw new Error(resultado.error);
+
+    return {
+      output: resultado.ejecutado ? filtrarRespuesta(acceso.politica, endpoint.id, resultado.data) : { preview: resultado.request },
+      ejecutado: resultado.ejecutado
+    };
+  }
+
+  private candidatosDeRuta(config: ConfiguracionAPI, ruta: string, metodo: string): EndpointCandidato[] {
+    const candidatos: EndpointCandidato[] = [];
+    for (const modulo of config.modulos) {
+      for (const accion of ["leer", "crear", "actualizar", "eliminar"] as const) {
+        modulo[accion]
+          .filter(ep => ep.endpoint === ruta && ep.metodo === metodo)
+          .forEach(endpoint => candidatos.push({ modulo: modulo.nombre, endpoint, accion }));
+      }
+    }
+    return candidatos;
+  }
+
+  private verificarCandidato(candidato: EndpointCandidato, acceso: AccesoPlan): ErrorPermiso | null {
+    if (acceso.permisos) {
+      const error = verificarPermiso(acceso.permisos, candidato.modulo, candidato.accion);
+      if (error) return error;
+    }
+    return endpointPermitido(acceso.politica, candidato.endpoint.id) ? null : "PERMISO_ENDPOINT_DENEGADO";
+  }
+
+  /**
+   * Pasos HTTP cuya ruta solo coincide con endpoints que el usuario no puede usar
+   */
+  private pasosNoAutorizados(orden: Step[], config: ConfiguracionAPI, acceso: AccesoPlan): string[] {
+    return orden
+      .filter(step => step.type === "HTTP_REQUEST" && step.request)
+      .flatMap(step => {
+        const candidatos = this.candidatosDeRuta(config, step.request!.endpoint, step.request!.method);
+        if (candidatos.length === 0) return [];
+
+        const negados = candidatos.map(c => ({ c, error: this.verificarCandidato(c, acceso) }));
+        if (negados.some(n => n.error === null)) return [];
+
+        const { c, error } = negados[0];
+        return [`Paso '${step.id}' (${step.type}): ${describirPermisoDenegado(error!, c.modulo, c.accion)}`];
+      });
+  }
+
+  /**
+   * Solo se permiten endpoints declarados en la configuración de la empresa (y, con permisos,
+   * de los módulos, acciones y endpoints autorizados). Devuelve el body con la política aplicada.
+   */
+  private buscarEndpoint(
+    config: ConfiguracionAPI,
+    ruta: string,
+    metodo: string,
+    body: Record<string, any>,
+    acceso: AccesoPlan = {}
+  ): { endpoint: Endpoint; accion: AccionCRUD; payload: Record<string, any> } {
+    const declarados = this.candidatosDeRuta(config, ruta, metodo);
+    if (declarados.length === 0) {
+      throw new Error(`El endpoint ${metodo} ${ruta} no está en la configuración de ${config.empresa.nombre}`);
+    }
+
+    const candidatos = declarados.filter(c => this.verificarCandidato(c, acceso) === null);
+    if (candidatos.length === 0) {
+      const { modulo, accion } = declarados[0];
+      throw new Error(describirPermisoDenegado(this.verificarCandidato(declarados[0], acceso)!, modulo, accion));
+    }
+
+    // Varios endpoints pueden compartir ruta con distintos payloads: se usa el primero que valide
+    let ultimaValidacion: ReturnType<typeof validarPayload> | null = null;
+    let camposDenegados: string[] = [];
+    for (const candidato of candidatos) {
+      const conPolitica = aplicarPoliticaPayload(acceso.politica, candidato.endpoint.id, body);
+      if (conPolitica.denegados.length > 0) {
+        camposDenegados = conPolitica.denegados;
+        continue;
+      }
+
+      const validacion = validarPayload(candidato.endpoint, conPolitica.payload);
+      if (!validacion.faltantes.length && !validacion.erroresTipo.length && !validacion.erroresEstructura.length) {
+        return { ...candidato, payload: conPolitica.payload };
+      }
+      ultimaValidacion = validacion;
+    }
+
+    if (!ultimaValidacion && camposDenegados.length > 0) {
+      throw new Error(describirCamposDenegados(camposDenegados));
+    }
+    throw new Error(`Payload inválido para ${ruta}: ${JSON.stringify(ultimaValidacion)}`);
+  }
+
+  /* ============================================================
+     PASOS DE DATOS
+     ============================================================ */
+
+  private ejecutarTransform(step: Step, outputs: Record<string, any>): any {
+    if (!step.transform) throw new Error("Falta la definición 'transform'");
+    const entrada = this.leerEntrada(step.transform.inputPath, outputs);
+
+    let valor: any;
+    switch (step.transform.strategy) {
+      case "FLATTEN":
+        valor = Array.isArray(entrada)
+          ? entrada.flat(Infinity).map(item => (this.esObjetoPlano(item) ? this.aplanar(item) : item))
+          : this.aplanar(entrada);
+        break;
+      case "NEST":
+        valor = Array.isArray(entrada) ? entrada.map(item => this.anidar(item)) : this.anidar(entrada);
+        break;
+      case "MERGE":
+        if (!Array.isArray(entrada)) throw new Error("MERGE requiere un array de objetos");
+        valor = Object.assign({}, ...entrada);
+        break;
+      default:
+        throw new Error(`Estrategia de transformación no soportada: ${step.transform.strategy}`);
+    }
+
+    return asignarValorPorRuta({}, step.transform.outputPath, valor);
+  }
+
+  private ejecutarFilter(step: Step, outputs: Record<string, any>): any[] {
+    if (!step.filter) throw new Error("Falta la definición 'filter'");
+    const entrada = this.leerArray(step.filter.inputPath, outputs);
+    const condiciones = step.filter.conditions.map(c => ({
+      ...c,
+      value: c.value !== undefined ? this.resolverValores(c.value, outputs) : undefined
+    }));
+
+    return entrada.filter(item =>
+      condiciones.every(({ field, operator, value }) => {
+        const actual = obtenerValorPorRuta(item, field);
+        switch (operator) {
+          case "=": return actual == value;
+          case "!=": return actual != value;
+          case ">": return actual > (value as any);
+          case "<": return actual < (value as any);
+          case ">=": return actual >= (value as any);
+          case "<=": return actual <= (value as any);
+          case "IN": return Array.isArray(value) && value.includes(actual);
+          case "EXISTS": return actual !== undefined && actual !== null;
+          default: return false;
+        }
+      })
+    );
+  }
+
+  private ejecutarMap(step: Step, outputs: Record<string, any>): any[] {
+    if (!step.map) throw new Error("Falta la definición 'map'");
+    const { fields } = step.map;
+    return this.leerArray(step.map.inputPath, outputs).map(item =>
+      Object.entries(fields).reduce(
+        (acc, [destino, origen]) => asignarValorPorRuta(acc, destino, obtenerValorPorRuta(item, origen)),
+        {} as Record<string, any>
+      )
+    );
+  }
+
+  private ejecutarAggregate(step: Step, outputs: Record<string, any>): any {
+    if (!step.aggregate) throw new Error("Falta la definición 'aggregate'");
+    const { groupBy, operations } = step.aggregate;
+    const entrada = this.leerArray(step.aggregate.inputPath, outputs);
+
+    const calcular = (items: any[]) =>
+      operations.reduce((acc, op) => {
+        const valores = op.field
+          ? items.map(item => Number(obtenerValorPorRuta(item, op.field!))).filter(v => !isNaN(v))
+          : [];
+        switch (op.operator) {
+          case "COUNT": acc[op.as] = op.field ? valores.length : items.length; break;
+          case "SUM": acc[op.as] = valores.reduce((a, b) => a + b, 0); break;
+          case "AVG": acc[op.as] = valores.length ? valores.reduce((a, b) => a + b, 0) / valores.length : null; break;
+          case "MIN": acc[op.as] = valores.length ? Math.min(...valores) : null; break;
+          case "MAX": acc[op.as] = valores.length ? Math.max(...valores) : null; break;
+        }
+        return acc;
+      }, {} as Record<string, any>);
+
+    if (!groupBy || groupBy.length === 0) return calcular(entrada);
+
+    const grupos = new Map<string, any[]>();
+    for (const item of entrada) {
+      const clave = JSON.stringify(groupBy.map(campo => obtenerValorPorRuta(item, campo)));
+      if (!grupos.has(clave)) grupos.set(clave, []);
+      grupos.get(clave)!.push(item);
+    }
+
+    return [...grupos.values()].map(items => ({
+      ...Object.fromEntries(groupBy.map(campo => [campo, obtenerValorPorRuta(items[0], campo)])),
+      ...calcular(items)
+    }));
+  }
+
+  private ejecutarSelectFields(step: Step, outputs: Record<string, any>): any {
+    if (!step.selectFields) throw new Error("Falta la definición 'selectFields'");
+    const { fields, allowPartial } = step.selectFields;
+    const entrada = this.leerEntrada(step.selectFields.inputPath, outputs);
+
+    const seleccionar = (item: any) => {
+      const faltantes = fields.filter(campo => obtenerValorPorRuta(item, campo) === undefined);
+      if (faltantes.length > 0 && !allowPartial) {
+        throw new Error(`Campos no disponibles: ${faltantes.join(", ")}`);
+      }
+      return fields
+        .filter(campo => !faltantes.includes(campo))
+        .reduce((acc, campo) => asignarValorPorRuta(acc, campo, obtenerValorPorRuta(item, campo)), {} as Record<string, any>);
+    };
+
+    return Array.isArray(entrada) ? entrada.map(seleccionar) : seleccionar(entrada);
+  }
+
+  /* ============================================================
+     PREVIEW
+     ============================================================ */
+
+  private construirPreview(plan: IAOutput, outputs: Record<string, any>): ResultadoPlan["preview"] {
+    if (!plan.preview?.enabled) return undefined;
+
+    const data = outputs[plan.preview.sourceStepId];
+    const muestra = Array.isArray(data) ? data[0] : data;
+    const resolvedFields = plan.preview.fieldsRequested.filter(
+      campo => muestra !== undefined && obtenerValorPorRuta(muestra, campo) !== undefined
+    );
+
+    return {
+      sourceStepId: plan.preview.sourceStepId,
+      data,
+      resolvedFields,
+      missingFields: plan.preview.fieldsRequested.filter(campo => !resolvedFields.includes(campo))
+    };
+  }
+
+  /* ============================================================
+     RESOLUCIÓN DE VALORES DINÁMICOS
+     ============================================================ */
+
+  private esValorDinamico(valor: any): valor is DynamicValue {
+    return this.esObjetoPlano(valor)
+      && Object.keys(valor).length === 2
+      && DynamicValueSchema.safeParse(valor).success;
+  }
+
+  private resolverValores(valor: any, outputs: Record<string, any>): any {
+    if (this.esValorDinamico(valor)) {
+      if (!(valor.fromStep in outputs)) {
+        throw new Error(`El paso '${valor.fromStep}' aún no tiene resultado`);
+      }
+      const resuelto = obtenerValorPorRuta(outputs[valor.fromStep], valor.path);
+      if (resuelto === undefined) {
+        throw new Error(`No se encontró '${valor.path}' en el resultado de '${valor.fromStep}'`);
+      }
+      return resuelto;
+    }
+    if (Array.isArray(valor)) return valor.map(v => this.resolverValores(v, outputs));
+    if (this.esObjetoPlano(valor)) {
+      return Object.fromEntries(Object.entries(valor).map(([k, v]) => [k, this.resolverValores(v, outputs)]));
+    }
+    return valor;
+  }
+
+  private referenciasDePaso(step: Step): string[] {
+    const refs: string[] = [];
+    const recolectar = (valor: any) => {
+      if (this.esValorDinamico(valor)) refs.push(valor.fromStep);
+      else if (Array.isArray(valor)) valor.forEach(recolectar);
+      else if (this.esObjetoPlano(valor)) Object.values(valor).forEach(recolectar);
+    };
+
+    recolectar(step.request);
+    step.filter?.conditions.forEach(c => recolectar(c.value));
+
+    const rutas = [
+      step.transform?.inputPath,
+      step.filter?.inputPath,
+      step.map?.inputPath,
+      step.aggregate?.inputPath,
+      step.selectFields?.inputPath
+    ].filter((ruta): ruta is string => !!ruta);
+    rutas.forEach(ruta => refs.push(separarRuta(ruta)[0]));
+
+    return refs;
+  }
+
+  private leerEntrada(inputPath: string, outputs: Record<string, any>): any {
+    const [pasoId, ...resto] = separarRuta(inputPath);
+    if (!(pasoId in outputs)) {
+      throw new Error(`El paso '${pasoId}' aún no tiene resultado`);
+    }
+    return resto.length ? obtenerValorPorRuta(outputs[pasoId], resto.join(".")) : outputs[pasoId];
+  }
+
+  private leerArray(inputPath: string, outputs: Record<string, any>): any[] {
+    const entrada = this.leerEntrada(inputPath, outputs);
+    if (!Array.isArray(entrada)) {
+      throw new Error(`'${inputPath}' no es un array`);
+    }
+    return entrada;
+  }
+
+  private esObjetoPlano(valor: any): valor is Record<string, any> {
+    return valor !== null && typeof valor === "object" && !Array.isArray(valor);
+  }
+
+  private aplanar(objeto: any, prefijo = ""): Record<string, any> {
+    if (!this.esObjetoPlano(objeto)) return prefijo ? { [prefijo]: objeto } : objeto;
+    return Object.entries(objeto).reduce((acc, [clave, valor]) => {
+      const ruta = prefijo ? `${prefijo}.${clave}` : clave;
+      return this.esObjetoPlano(valor) ? { ...acc, ...this.aplanar(valor, ruta) } : { ...acc, [ruta]: valor };
+    }, {} as Record<string, any>);
+  }
+
+  private anidar(objeto: any): any {
+    if (!this.esObjetoPlano(objeto)) return objeto;
+    return Object.entries(objeto).reduce(
+      (acc, [clave, valor]) => asignarValorPorRuta(acc, clave, valor),
+      {} as Record<string, any>
+    );
+  }
+}
@@ -0,0 +1,25 @@
+import { asignarValorPorRuta, obtenerValorPorRuta, separarRuta } from "./plan-rutas";
+
+describe("plan-rutas", () => {
+  it("separa índices y puntos", () => {
+    expect(separarRuta("buscar.d[0].Id")).toEqual(["buscar", "d", "0", "Id"]);
+    expect(separarRuta("items.0.total")).toEqual(["items", "0", "total"]);
+  });
+
+  it("lee y asigna creando arrays u objetos intermedios", () => {
+    const destino = asignarValorPorRuta({}, "d[0].Id", 7);
+
+    expect(destino).toEqual({ d: [{ Id: 7 }] });
+    expect(obtenerValorPorRuta(destino, "d.0.Id")).toBe(7);
+    expect(obtenerValorPorRuta(destino, "d[1].Id")).toBeUndefined();
+  });
+
+  it.each(["__proto__.contaminado", "a.constructor.prototype.contaminado", "d[0].__proto__"])(
+    "rechaza la ruta %s sin tocar Object.prototype",
+    ruta => {
+      expect(() => asignarValorPorRuta({}, ruta, "si")).toThrow("segmento no permitido");
+      expect(() => obtenerValorPorRuta({}, ruta)).toThrow("segmento no permitido");
+      expect(({} as any).contaminado).toBeUndefined();
+    }
+  );
+});
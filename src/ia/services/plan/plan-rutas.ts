@@ -0,0 +1,43 @@
+/**
+ * Utilidades de rutas tipo "d[0].Id" o "items.0.total" sobre objetos/arrays
+ */
+
+// Las rutas llegan en los planes del cliente: estos segmentos alcanzarían Object.prototype
+const SEGMENTOS_PROHIBIDOS = new Set(["__proto__", "constructor", "prototype"]);
+
+export function separarRuta(ruta: string): string[] {
+  const partes = ruta
+    .replace(/\[(\d+)\]/g, ".$1")
+    .split(".")
+    .map(parte => parte.trim())
+    .filter(parte => parte.length > 0);
+
+  const prohibida = partes.find(parte => SEGMENTOS_PROHIBIDOS.has(parte));
+  if (prohibida) throw new Error(`La ruta '${ruta}' usa el segmento no permitido '${prohibida}'`);
+  return partes;
+}
+
+export function obtenerValorPorRuta(origen: any, ruta: string): any {
+  let actual = origen;
+  for (const parte of separarRuta(ruta)) {
+    if (actual === null || actual === undefined) return undefined;
+    actual = actual[parte];
+  }
+  return actual;
+}
+
+export function asignarValorPorRuta(destino: Record<string, any>, ruta: string, valor: any): Record<string, any> {
+  const partes = separarRuta(ruta);
+  if (partes.length === 0) return destino;
+
+  let actual: any = destino;
+  partes.slice(0, -1).forEach((parte, i) => {
+    if (actual[parte] === undefined || actual[parte] === null || typeof actual[parte] !== "object") {
+      actual[parte] = /^\d+$/.test(partes[i + 1]) ? [] : {};
+    }
+    actual = actual[parte];
+  });
+  actual[partes[partes.length - 1]] = valor;
+
+  return destino;
+}
@@ -0,0 +1,148 @@
+import * as fs from "fs";
+import * as path from "path";
+import { DeepSeekRawService } from "../deepseek/deepseek-raw.service";
+import { estimarTokens } from "../storage/conversation-store";
+import { IndiceEndpoints } from "./indice-endpoints";
+import { cargarConfiguracion } from "../../../erp/configs/api-config";
+
+/**
+ * Compara el prompt con el catálogo completo contra la preselección top-K.
+ *
+ *   npm run bench:retrieval -- [consultas.json] [--k 1,3,5,8] [--llm]
+ *
+ * Sin --llm mide tamaño del prompt y recall@K (el endpoint esperado entra en el prompt),
+ * que es el techo de acierto de la preselección. Con --llm además envía cada consulta
+ * al proveedor configurado para la empresa y compara el endpoint elegido.
+ */
+
+interface ConsultaBench {
+  mensaje: string;
+  endpointId: number;
+}
+
+interface ArchivoConsultas {
+  empresa?: string;
+  consultas: ConsultaBench[];
+}
+
+interface ResultadoVariante {
+  prompt: string;
+  "recall@K": string;
+  "tokens (media)": number;
+  "reducción": string;
+  "sin coincidencias": number;
+  "acierto LLM"?: string;
+  fallos: string[];
+}
+
+function leerArgumentos() {
+  const args = process.argv.slice(2);
+  const indiceK = args.indexOf("--k");
+  const valoresK = indiceK >= 0 ? args[indiceK + 1] : "1,3,5,8";
+  const archivo = args.find((arg, i) => !arg.startsWith("--") && args[i - 1] !== "--k");
+
+  return {
+    archivo: archivo || path.join(__dirname, "fixtures", "consultas.demo.json"),
+    ks: valoresK.split(",").map(Number).filter(k => Number.isInteger(k) && k > 0),
+    conLLM: args.includes("--llm")
+  };
+}
+
+function porcentaje(parte: number, total: number): string {
+  return total > 0 ? `${Math.round(parte / total * 100)}%` : "-";
+}
+
+/**
+ * Los servicios escriben cada prompt por consola; en el benchmark solo interesa la tabla
+ */
+async function enSilencio<T>(fn: () => Promise<T>): Promise<T> {
+  const original = console.log;
+  console.log = () => {};
+  try {
+    return await fn();
+  } finally {
+    console.log = original;
+  }
+}
+
+async function evaluar(
+  empresa: string,
+  consultas: ConsultaBench[],
+  topK: number,
+  conLLM: boolean,
+  tokensCatalogo?: number
+): Promise<ResultadoVariante> {
+  // IA_TOP_K se lee al construir el servicio
+  process.env.IA_TOP_K = String(topK);
+  const servicio = new DeepSeekRawService(empresa);
+
+  let aciertosIndice = 0;
+  let aciertosLLM = 0;
+  let tokens = 0;
+  let sinCoincidencias = 0;
+  const fallos: string[] = [];
+
+  for (const consulta of consultas) {
+    const { systemPrompt, endpoints } = servicio.construirPrompt(consulta.mensaje);
+    tokens += estimarTokens(systemPrompt);
+
+    const total = IndiceEndpoints.para(servicio.getConfiguracion()).total;
+    if (topK > 0 && endpoints.length === total && total > topK) sinCoincidencias++;
+
+    if (endpoints.some(ep => ep.id === consulta.endpointId)) {
+      aciertosIndice++;
+    } else {
+      fallos.push(`"${consulta.mensaje}" (esperado ${consulta.endpointId})`);
+    }
+
+    if (conLLM) {
+      try {
+        const respuesta = await enSilencio(() => servicio.sendAndMapToSchema(consulta.mensaje));
+        if (respuesta.endpointId === consulta.endpointId) aciertosLLM++;
+      } catch (error: any) {
+        fallos.push(`"${consulta.mensaje}" (LLM: ${error.message})`);
+      }
+    }
+  }
+
+  const media = Math.round(tokens / consultas.length);
+  return {
+    prompt: topK === 0 ? "catálogo completo" : `top-${topK}`,
+    "recall@K": porcentaje(aciertosIndice, consultas.length),
+    "tokens (media)": media,
+    "reducción": tokensCatalogo ? `-${Math.round((1 - media / tokensCatalogo) * 100)}%` : "-",
+    "sin coincidencias": sinCoincidencias,
+    ...(conLLM ? { "acierto LLM": porcentaje(aciertosLLM, consultas.length) } : {}),
+    fallos
+  };
+}
+
+async function main() {
+  const { archivo, ks, conLLM } = leerArgumentos();
+  const { empresa: empresaArchivo, consultas }: ArchivoConsultas = JSON.parse(fs.readFileSync(archivo, "utf-8"));
+  const empresa = cargarConfiguracion(empresaArchivo).empresa.nombre;
+  const totalEndpoints = IndiceEndpoints.para(cargarConfiguracion(empresa)).total;
+
+  console.log(`Empresa ${empresa}: ${totalEndpoints} endpoints, ${consultas.length} consultas${conLLM ? " (con LLM)" : ""}\n`);
+
+  const completo = await evaluar(empresa, consultas, 0, conLLM);
+  const resultados = [completo];
+  for (const k of ks) {
+    resultados.push(await evaluar(empresa, consultas, k, conLLM, completo["tokens (media)"]));
+  }
+
+  console.table(resultados.map(({ fallos, ...fila }) => fila));
+
+  for (const resultado of resultados) {
+    if (resultado.fallos.length === 0) continue;
+    console.log(`\nFallos ${resultado.prompt}:`);
+    resultado.fallos.forEach(fallo => console.log(`   - ${fallo}`));
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch(error => {
+    console.error(error);
+    process.exit(1);
+  });
@@ -0,0 +1,170 @@
+import { AccionCRUD, ConfiguracionAPI, Endpoint } from "../../../erp/configs/api-config";
+
+/* ============================================================
+   Índice BM25 de endpoints para preseleccionar el prompt
+   ============================================================ */
+
+export interface CandidatoEndpoint {
+  modulo: string;
+  accion: AccionCRUD;
+  endpoint: Endpoint;
+  puntuacion: number;
+}
+
+interface DocumentoEndpoint {
+  modulo: string;
+  accion: AccionCRUD;
+  endpoint: Endpoint;
+  frecuencias: Map<string, number>;
+  longitud: number;
+}
+
+const ACCIONES: AccionCRUD[] = ["leer", "crear", "actualizar", "eliminar"];
+
+// Verbos con los que el usuario suele pedir cada acción
+const SINONIMOS_ACCION: Record<AccionCRUD, string> = {
+  leer: "leer listar buscar obtener consultar ver mostrar reporte",
+  crear: "crear registrar agregar nuevo insertar",
+  actualizar: "actualizar modificar editar cambiar",
+  eliminar: "eliminar borrar anular quitar"
+};
+
+const PALABRAS_VACIAS = new Set([
+  "de", "la", "el", "los", "las", "lo", "un", "una", "unos", "unas", "con", "en", "y", "o", "a",
+  "al", "del", "por", "para", "que", "se", "su", "sus", "me", "mi", "es", "son", "hay", "como",
+  "cual", "cuales", "todos", "todas", "objeto", "enviando", "string", "boolean", "int", "date",
+  "ejemplo", "debe", "ser", "siempre", "str"
+]);
+
+// Peso del nombre de referencia frente a descripción y parámetros
+const PESO_NOMBRE = 3;
+
+const K1 = 1.2;
+const B = 0.75;
+
+/**
+ * Raíz aproximada en español: plurales y la vocal o terminación verbal final,
+ * para que "pacientes"/"paciente" o "pagar"/"pago" coincidan
+ */
+function raiz(palabra: string): string {
+  let base = palabra;
+  if (base.length > 4 && base.endsWith("es")) base = base.slice(0, -2);
+  else if (base.length > 3 && base.endsWith("s")) base = base.slice(0, -1);
+
+  if (base.length >= 5 && /(ar|er|ir)$/.test(base)) return base.slice(0, -2);
+  if (base.length >= 4 && /[aeo]$/.test(base)) return base.slice(0, -1);
+  return base;
+}
+
+/**
+ * Separa camelCase y guiones bajos (F_Listar_Autocomplete, sTipo), quita tildes y palabras vacías
+ */
+export function tokenizar(texto: string): string[] {
+  return texto
+    .replace(/([a-z])([A-Z])/g, "$1 $2")
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(palabra => palabra.length > 1 && !PALABRAS_VACIAS.has(palabra))
+    .map(raiz);
+}
+
+function textoDelEndpoint(modulo: string, accion: AccionCRUD, endpoint: Endpoint): string {
+  const parametros = endpoint.parametros.flatMap(param => [
+    param.nombre,
+    ...(param.estructura?.propiedades || []).map(prop => prop.nombre)
+  ]);
+
+  return [
+    ...Array(PESO_NOMBRE).fill(endpoint.nombreReferencia),
+    endpoint.descripcion,
+    modulo,
+    SINONIMOS_ACCION[accion],
+    ...parametros
+  ].join(" ");
+}
+
+/**
+ * Índice local (sin servicios externos) sobre nombreReferencia, descripción,
+ * nombres de parámetros y módulo de cada endpoint
+ */
+export class IndiceEndpoints {
+  private static readonly cache = new WeakMap<ConfiguracionAPI, IndiceEndpoints>();
+
+  private readonly documentos: DocumentoEndpoint[] = [];
+  private readonly documentosPorTermino = new Map<string, number>();
+  private readonly longitudMedia: number;
+
+  /**
+   * Índice de la configuración; el registro devuelve un objeto nuevo al recargar,
+   * así que el índice se reconstruye solo cuando cambia el archivo
+   */
+  static para(config: ConfiguracionAPI): IndiceEndpoints {
+    let indice = IndiceEndpoints.cache.get(config);
+    if (!indice) {
+      indice = new IndiceEndpoints(config);
+      IndiceEndpoints.cache.set(config, indice);
+    }
+    return indice;
+  }
+
+  constructor(config: ConfiguracionAPI) {
+    for (const modulo of config.modulos) {
+      for (const accion of ACCIONES) {
+        for (const endpoint of modulo[accion] || []) {
+          const terminos = tokenizar(textoDelEndpoint(modulo.nombre, accion, endpoint));
+          const frecuencias = new Map<string, number>();
+          for (const termino of terminos) {
+            frecuencias.set(termino, (frecuencias.get(termino) || 0) + 1);
+          }
+          for (const termino of frecuencias.keys()) {
+            this.documentosPorTermino.set(termino, (this.documentosPorTermino.get(termino) || 0) + 1);
+          }
+          this.documentos.push({ modulo: modulo.nombre, accion, endpoint, frecuencias, longitud: terminos.length });
+        }
+      }
+    }
+
+    const total = this.documentos.reduce((suma, doc) => suma + doc.longitud, 0);
+    this.longitudMedia = this.documentos.length > 0 ? total / this.documentos.length : 0;
+  }
+
+  get total(): number {
+    return this.documentos.length;
+  }
+
+  /**
+   * Los k endpoints con mayor puntuación BM25; solo los que comparten algún término con la consulta
+   */
+  buscar(consulta: string, k: number): CandidatoEndpoint[] {
+    const terminos = [...new Set(tokenizar(consulta))];
+    const n = this.documentos.length;
+
+    return this.documentos
+      .map(doc => {
+        let puntuacion = 0;
+        for (const termino of terminos) {
+          const frecuencia = doc.frecuencias.get(termino);
+          if (!frecuencia) continue;
+
+          const conTermino = this.documentosPorTermino.get(termino)!;
+          const idf = Math.log(1 + (n - conTermino + 0.5) / (conTermino + 0.5));
+          const normalizacion = K1 * (1 - B + B * doc.longitud / this.longitudMedia);
+          puntuacion += idf * (frecuencia * (K1 + 1)) / (frecuencia + normalizacion);
+        }
+        return { modulo: doc.modulo, accion: doc.accion, endpoint: doc.endpoint, puntuacion };
+      })
+      .filter(candidato => candidato.puntuacion > 0)
+      .sort((a, b) => b.puntuacion - a.puntuacion)
+      .slice(0, k);
+  }
+}
+
+/**
+ * IA_TOP_K: endpoints que se incluyen en el prompt (0 = catálogo completo)
+ */
+export function topKConfigurado(): number {
+  const valor = Number(process.env.IA_TOP_K);
+  return Number.isInteger(valor) && valor >= 0 ? valor : 8;
+}
@@ -0,0 +1,17 @@
+import { ConversationStore } from "./conversation-store";
+import { MemoryConversationStore } from "./memory-conversation.store";
+import { RedisConversationStore } from "./redis-conversation.store";
+import { obtenerClienteRedis } from "./redis-client";
+
+let store: ConversationStore | undefined;
+
+/**
+ * Store compartido: Redis si REDIS_URL está configurada, memoria en caso contrario
+ */
+export function obtenerConversationStore(): ConversationStore {
+  if (!store) {
+    const redis = obtenerClienteRedis();
+    store = redis ? new RedisConversationStore(redis) : new MemoryConversationStore();
+  }
+  return store;
+}
@@ -0,0 +1,50 @@
+import { LLMMensaje } from "../llm/llm-provider";
+import { TitularSesion } from "./session-store";
+
+/**
+ * Historial de chat por sessionId (solo mensajes user/assistant, nunca el system prompt)
+ */
+export interface ConversationStore {
+  obtener(sessionId: string): Promise<LLMMensaje[]>;
+  agregar(sessionId: string, mensajes: LLMMensaje[]): Promise<void>;
+  limpiar(sessionId: string): Promise<void>;
+}
+
+/**
+ * Clave del historial: el sessionId del cliente dentro del espacio de su empresa y usuario,
+ * de modo que otro titular con el mismo sessionId no lee ni amplía esa conversación
+ */
+export function claveConversacion(sessionId: string, titular: TitularSesion): string {
+  return `${titular.empresa.toLowerCase()}:${titular.usuarioId ?? ""}:${sessionId}`;
+}
+
+export const HISTORIAL_TOKENS = Number(process.env.IA_HISTORIAL_TOKENS) || 2000;
+export const HISTORIAL_TTL_SEG = Number(process.env.IA_HISTORIAL_TTL_SEG) || 60 * 60;
+
+/**
+ * Aproximación barata: ~4 caracteres por token
+ */
+export function estimarTokens(texto: string): number {
+  return Math.ceil(texto.length / 4);
+}
+
+/**
+ * Conserva los mensajes más recientes que caben en el presupuesto.
+ * El historial resultante siempre empieza por un mensaje del usuario.
+ */
+export function recortarHistorial(mensajes: LLMMensaje[], presupuestoTokens = HISTORIAL_TOKENS): LLMMensaje[] {
+  const recortado: LLMMensaje[] = [];
+  let usados = 0;
+
+  for (let i = mensajes.length - 1; i >= 0; i--) {
+    const tokens = estimarTokens(mensajes[i].content);
+    if (usados + tokens > presupuestoTokens) break;
+    usados += tokens;
+    recortado.unshift(mensajes[i]);
+  }
+
+  while (recortado.length > 0 && recortado[0].role !== "user") {
+    recortado.shift();
+  }
+  return recortado;
+}
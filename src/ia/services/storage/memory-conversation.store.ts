@@ -0,0 +1,61 @@
+import { LLMMensaje } from "../llm/llm-provider";
+import { ConversationStore, HISTORIAL_TOKENS, HISTORIAL_TTL_SEG, recortarHistorial } from "./conversation-store";
+import { MAX_ENTRADAS_MEMORIA } from "./session-store";
+
+interface Conversacion {
+  mensajes: LLMMensaje[];
+  expiraEn: number;
+}
+
+/**
+ * Historial en el proceso; caduca por inactividad al consultarlo y, si se supera el
+ * máximo de conversaciones, al agregar (se descartan las vencidas y luego las más antiguas)
+ */
+export class MemoryConversationStore implements ConversationStore {
+  private conversaciones = new Map<string, Conversacion>();
+
+  constructor(
+    private readonly presupuestoTokens = HISTORIAL_TOKENS,
+    private readonly ttlMs = HISTORIAL_TTL_SEG * 1000,
+    private readonly maxConversaciones = MAX_ENTRADAS_MEMORIA
+  ) {}
+
+  async obtener(sessionId: string): Promise<LLMMensaje[]> {
+    const conversacion = this.conversaciones.get(sessionId);
+    if (!conversacion) return [];
+
+    if (conversacion.expiraEn <= Date.now()) {
+      this.conversaciones.delete(sessionId);
+      return [];
+    }
+    return [...conversacion.mensajes];
+  }
+
+  async agregar(sessionId: string, mensajes: LLMMensaje[]): Promise<void> {
+    const previos = await this.obtener(sessionId);
+    // Se reinserta para que el Map quede ordenado por última actividad
+    this.conversaciones.delete(sessionId);
+    this.conversaciones.set(sessionId, {
+      mensajes: recortarHistorial([...previos, ...mensajes], this.presupuestoTokens),
+      expiraEn: Date.now() + this.ttlMs
+    });
+    this.podar();
+  }
+
+  async limpiar(sessionId: string): Promise<void> {
+    this.conversaciones.delete(sessionId);
+  }
+
+  private podar(): void {
+    if (this.conversaciones.size <= this.maxConversaciones) return;
+
+    const ahora = Date.now();
+    for (const [sessionId, conversacion] of this.conversaciones) {
+      if (conversacion.expiraEn <= ahora) this.conversaciones.delete(sessionId);
+    }
+    for (const sessionId of this.conversaciones.keys()) {
+      if (this.conversaciones.size <= this.maxConversaciones) break;
+      this.conversaciones.delete(sessionId);
+    }
+  }
+}
@@ -0,0 +1,55 @@
+import { MAX_ENTRADAS_MEMORIA, SesionGuardada, SessionStore } from "./session-store";
+
+/**
+ * Sesiones en el proceso; las vencidas se descartan al leerlas y, si se supera el
+ * máximo de entradas, al guardar (el Map conserva el orden de uso: se reinserta al guardar)
+ */
+export class MemorySessionStore<T> implements SessionStore<T> {
+  private sesiones = new Map<string, SesionGuardada<T>>();
+
+  constructor(private readonly maxEntradas = MAX_ENTRADAS_MEMORIA) {}
+
+  async guardar(sessionId: string, valor: T, ttlMs: number): Promise<void> {
+    this.sesiones.delete(sessionId);
+    this.sesiones.set(sessionId, { sessionId, valor, expiraEn: Date.now() + ttlMs });
+    this.podar();
+  }
+
+  async obtener(sessionId: string): Promise<T | null> {
+    return this.vigente(sessionId)?.valor ?? null;
+  }
+
+  async eliminar(sessionId: string): Promise<boolean> {
+    const existia = !!this.vigente(sessionId);
+    this.sesiones.delete(sessionId);
+    return existia;
+  }
+
+  async listar(): Promise<SesionGuardada<T>[]> {
+    return [...this.sesiones.keys()]
+      .map(sessionId => this.vigente(sessionId))
+      .filter((sesion): sesion is SesionGuardada<T> => !!sesion);
+  }
+
+  private podar(): void {
+    if (this.sesiones.size <= this.maxEntradas) return;
+
+    const ahora = Date.now();
+    for (const [sessionId, sesion] of this.sesiones) {
+      if (sesion.expiraEn <= ahora) this.sesiones.delete(sessionId);
+    }
+    for (const sessionId of this.sesiones.keys()) {
+      if (this.sesiones.size <= this.maxEntradas) break;
+      this.sesiones.delete(sessionId);
+    }
+  }
+
+  private vigente(sessionId: string): SesionGuardada<T> | undefined {
+    const sesion = this.sesiones.get(sessionId);
+    if (sesion && sesion.expiraEn <= Date.now()) {
+      this.sesiones.delete(sessionId);
+      return undefined;
+    }
+    return sesion;
+  }
+}
@@ -0,0 +1,29 @@
+import Redis from "ioredis";
+
+let cliente: Redis | null | undefined;
+
+/**
+ * Cliente Redis compartido por los stores; null si REDIS_URL no está configurada
+ */
+export function obtenerClienteRedis(): Redis | null {
+  if (cliente !== undefined) return cliente;
+
+  const url = process.env.REDIS_URL;
+  if (!url) {
+    cliente = null;
+    return cliente;
+  }
+
+  cliente = new Redis(url, { maxRetriesPerRequest: 2 });
+  cliente.on("error", (error) => {
+    console.error("Error de conexión con Redis:", error.message);
+  });
+  return cliente;
+}
+
+/**
+ * Prefijo común de las claves, para compartir la instancia con otros servicios
+ */
+export function claveRedis(...partes: string[]): string {
+  return [process.env.REDIS_PREFIX || "erp-ia", ...partes].join(":");
+}
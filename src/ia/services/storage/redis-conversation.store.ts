@@ -0,0 +1,44 @@
+import Redis from "ioredis";
+import { LLMMensaje } from "../llm/llm-provider";
+import { ConversationStore, HISTORIAL_TOKENS, HISTORIAL_TTL_SEG, recortarHistorial } from "./conversation-store";
+import { claveRedis } from "./redis-client";
+
+/**
+ * Historial en una lista de Redis (un JSON por mensaje) con expiración por inactividad
+ */
+export class RedisConversationStore implements ConversationStore {
+  constructor(
+    private readonly redis: Redis,
+    private readonly presupuestoTokens = HISTORIAL_TOKENS,
+    private readonly ttlSeg = HISTORIAL_TTL_SEG
+  ) {}
+
+  private clave(sessionId: string): string {
+    return claveRedis("historial", sessionId);
+  }
+
+  async obtener(sessionId: string): Promise<LLMMensaje[]> {
+    const elementos = await this.redis.lrange(this.clave(sessionId), 0, -1);
+    return elementos.map(elemento => JSON.parse(elemento) as LLMMensaje);
+  }
+
+  async agregar(sessionId: string, mensajes: LLMMensaje[]): Promise<void> {
+    if (mensajes.length === 0) return;
+
+    const clave = this.clave(sessionId);
+    const previos = await this.obtener(sessionId);
+    const recortado = recortarHistorial([...previos, ...mensajes], this.presupuestoTokens);
+
+    // Se reescribe la lista completa: el recorte puede descartar mensajes antiguos
+    const transaccion = this.redis.multi().del(clave);
+    if (recortado.length > 0) {
+      transaccion.rpush(clave, ...recortado.map(mensaje => JSON.stringify(mensaje)));
+      transaccion.expire(clave, this.ttlSeg);
+    }
+    await transaccion.exec();
+  }
+
+  async limpiar(sessionId: string): Promise<void> {
+    await this.redis.del(this.clave(sessionId));
+  }
+}
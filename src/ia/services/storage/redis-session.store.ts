@@ -0,0 +1,50 @@
+import Redis from "ioredis";
+import { SesionGuardada, SessionStore } from "./session-store";
+import { claveRedis } from "./redis-client";
+
+/**
+ * Sesiones en Redis: SET con PX para la expiración y SCAN para listarlas
+ */
+export class RedisSessionStore<T> implements SessionStore<T> {
+  private readonly prefijo: string;
+
+  constructor(private readonly redis: Redis, espacio: string) {
+    this.prefijo = claveRedis("sesiones", espacio) + ":";
+  }
+
+  async guardar(sessionId: string, valor: T, ttlMs: number): Promise<void> {
+    await this.redis.set(this.prefijo + sessionId, JSON.stringify(valor), "PX", ttlMs);
+  }
+
+  async obtener(sessionId: string): Promise<T | null> {
+    const dato = await this.redis.get(this.prefijo + sessionId);
+    return dato ? (JSON.parse(dato) as T) : null;
+  }
+
+  async eliminar(sessionId: string): Promise<boolean> {
+    return (await this.redis.del(this.prefijo + sessionId)) > 0;
+  }
+
+  async listar(): Promise<SesionGuardada<T>[]> {
+    const claves: string[] = [];
+    let cursor = "0";
+    do {
+      const [siguiente, encontradas] = await this.redis.scan(cursor, "MATCH", `${this.prefijo}*`, "COUNT", 100);
+      claves.push(...encontradas);
+      cursor = siguiente;
+    } while (cursor !== "0");
+
+    const sesiones: SesionGuardada<T>[] = [];
+    for (const clave of claves) {
+      const [dato, ttl] = await Promise.all([this.redis.get(clave), this.redis.pttl(clave)]);
+      // Pudo expirar entre el SCAN y la lectura
+      if (!dato || ttl < 0) continue;
+      sesiones.push({
+        sessionId: clave.slice(this.prefijo.length),
+        valor: JSON.parse(dato) as T,
+        expiraEn: Date.now() + ttl
+      });
+    }
+    return sesiones;
+  }
+}
@@ -0,0 +1,13 @@
+import { SessionStore } from "./session-store";
+import { MemorySessionStore } from "./memory-session.store";
+import { RedisSessionStore } from "./redis-session.store";
+import { obtenerClienteRedis } from "./redis-client";
+
+/**
+ * Redis si REDIS_URL está configurada (sobrevive reinicios y se comparte entre réplicas),
+ * memoria en caso contrario
+ */
+export function crearSessionStore<T>(espacio: string): SessionStore<T> {
+  const redis = obtenerClienteRedis();
+  return redis ? new RedisSessionStore<T>(redis, espacio) : new MemorySessionStore<T>();
+}
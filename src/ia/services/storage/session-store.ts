@@ -0,0 +1,36 @@
+/**
+ * Empresa y usuario dueños de una sesión: solo ellos pueden continuarla, listarla o cancelarla
+ */
+export interface TitularSesion {
+  empresa: string;
+  usuarioId?: string;
+}
+
+export function esDelTitular(titular: TitularSesion | undefined, solicitante: TitularSesion): boolean {
+  return !!titular
+    && titular.empresa.toLowerCase() === solicitante.empresa.toLowerCase()
+    && titular.usuarioId === solicitante.usuarioId;
+}
+
+/**
+ * Entradas que conserva como máximo cada store en memoria; al superarlo se descartan
+ * primero las vencidas y luego las de uso más antiguo
+ */
+export const MAX_ENTRADAS_MEMORIA = Number(process.env.IA_SESIONES_MAX) || 10_000;
+
+export interface SesionGuardada<T> {
+  sessionId: string;
+  valor: T;
+  expiraEn: number;
+}
+
+/**
+ * Sesiones con expiración por TTL (sin barridos periódicos).
+ * Cada store trabaja en su propio espacio de claves.
+ */
+export interface SessionStore<T> {
+  guardar(sessionId: string, valor: T, ttlMs: number): Promise<void>;
+  obtener(sessionId: string): Promise<T | null>;
+  eliminar(sessionId: string): Promise<boolean>;
+  listar(): Promise<SesionGuardada<T>[]>;
+}
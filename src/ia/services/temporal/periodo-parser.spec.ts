@@ -0,0 +1,40 @@
+import { formatearFecha, interpretarPeriodo } from "./periodo-parser";
+
+// Miércoles 18 de marzo de 2026, 10:00 en Lima
+const referencia = new Date("2026-03-18T15:00:00Z");
+const opciones = { referencia, zonaHoraria: "America/Lima" };
+
+describe("interpretarPeriodo", () => {
+  it.each([
+    ["ventas de hoy", "2026-03-18", "2026-03-18"],
+    ["ayer", "2026-03-17", "2026-03-17"],
+    ["la semana pasada", "2026-03-09", "2026-03-15"],
+    ["este mes", "2026-03-01", "2026-03-31"],
+    ["el mes pasado", "2026-02-01", "2026-02-28"],
+    ["últimos 30 días", "2026-02-17", "2026-03-18"],
+    ["del 1 al 15 de enero", "2026-01-01", "2026-01-15"],
+    ["en marzo de 2025", "2025-03-01", "2025-03-31"],
+    ["desde el 05/02/2026 hasta el 10/02/2026", "2026-02-05", "2026-02-10"]
+  ])("%s", (mensaje, desde, hasta) => {
+    expect(interpretarPeriodo(mensaje, opciones)).toMatchObject({ desde, hasta, zonaHoraria: "America/Lima" });
+  });
+
+  it("calcula el día en la zona horaria de la empresa", () => {
+    // 03:00 UTC del 19 todavía es el 18 en Lima
+    const periodo = interpretarPeriodo("hoy", { referencia: new Date("2026-03-19T03:00:00Z"), zonaHoraria: "America/Lima" });
+    expect(periodo).toMatchObject({ desde: "2026-03-18", hasta: "2026-03-18" });
+  });
+
+  it("devuelve null sin expresión temporal o con fechas imposibles", () => {
+    expect(interpretarPeriodo("listar pacientes", opciones)).toBeNull();
+    expect(interpretarPeriodo("del 30 al 31 de febrero", opciones)).toBeNull();
+  });
+});
+
+describe("formatearFecha", () => {
+  it("aplica el formato del ERP", () => {
+    expect(formatearFecha("2026-03-05")).toBe("2026-03-05");
+    expect(formatearFecha("2026-03-05", "DD/MM/YYYY")).toBe("05/03/2026");
+    expect(formatearFecha("2026-03-05", "YYYYMMDD")).toBe("20260305");
+  });
+});
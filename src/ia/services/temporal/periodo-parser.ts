@@ -0,0 +1,271 @@
+/**
+ * Parser de expresiones temporales en español ("hoy", "la semana pasada",
+ * "del 1 al 15 de enero", "últimos 30 días"...) a rangos de fechas de calendario.
+ * Las fechas se calculan en la zona horaria de la empresa y se devuelven AAAA-MM-DD.
+ */
+
+export interface Periodo {
+  desde: string;        // AAAA-MM-DD, inclusive
+  hasta: string;        // AAAA-MM-DD, inclusive
+  zonaHoraria: string;
+  expresion: string;    // fragmento del mensaje que originó el periodo
+}
+
+export interface OpcionesPeriodo {
+  zonaHoraria?: string;
+  referencia?: Date;    // "ahora"; por defecto new Date()
+}
+
+const MESES: Record<string, number> = {
+  enero: 1, febrero: 2, marzo: 3, abril: 4, mayo: 5, junio: 6, julio: 7,
+  agosto: 8, septiembre: 9, setiembre: 9, octubre: 10, noviembre: 11, diciembre: 12
+};
+const PATRON_MES = Object.keys(MESES).join("|");
+
+/* ============================================================
+   Aritmética de fechas de calendario (sin horas, en UTC)
+   ============================================================ */
+
+interface Dia {
+  anio: number;
+  mes: number;   // 1-12
+  dia: number;
+}
+
+function aDate(d: Dia): Date {
+  return new Date(Date.UTC(d.anio, d.mes - 1, d.dia));
+}
+
+function deDate(fecha: Date): Dia {
+  return { anio: fecha.getUTCFullYear(), mes: fecha.getUTCMonth() + 1, dia: fecha.getUTCDate() };
+}
+
+function sumarDias(d: Dia, dias: number): Dia {
+  const fecha = aDate(d);
+  fecha.setUTCDate(fecha.getUTCDate() + dias);
+  return deDate(fecha);
+}
+
+function sumarMeses(d: Dia, meses: number): Dia {
+  const total = d.anio * 12 + (d.mes - 1) + meses;
+  const anio = Math.floor(total / 12);
+  const mes = (total % 12) + 1;
+  return { anio, mes, dia: Math.min(d.dia, diasDelMes(anio, mes)) };
+}
+
+function diasDelMes(anio: number, mes: number): number {
+  return new Date(Date.UTC(anio, mes, 0)).getUTCDate();
+}
+
+function esDiaValido(d: Dia): boolean {
+  return d.mes >= 1 && d.mes <= 12 && d.dia >= 1 && d.dia <= diasDelMes(d.anio, d.mes);
+}
+
+export function formatearISO(d: Dia): string {
+  return `${d.anio}-${String(d.mes).padStart(2, "0")}-${String(d.dia).padStart(2, "0")}`;
+}
+
+/**
+ * Fecha de hoy en la zona horaria indicada (IANA, p. ej. "America/Lima")
+ */
+function hoyEnZona(referencia: Date, zonaHoraria: string): Dia {
+  const partes = new Intl.DateTimeFormat("en-CA", {
+    timeZone: zonaHoraria,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit"
+  }).formatToParts(referencia);
+  const valor = (tipo: string) => Number(partes.find(p => p.type === tipo)?.value);
+  return { anio: valor("year"), mes: valor("month"), dia: valor("day") };
+}
+
+/**
+ * Mes sin año: el más reciente que no esté en el futuro
+ */
+function anioDelMes(mes: number, hoy: Dia): number {
+  return mes > hoy.mes ? hoy.anio - 1 : hoy.anio;
+}
+
+/* ============================================================
+   Reglas (la primera que coincide gana; las más específicas primero)
+   ============================================================ */
+
+type Regla = (texto: string, hoy: Dia) => { desde: Dia; hasta: Dia; expresion: string } | null;
+
+const REGLAS: Regla[] = [
+  // del 01/03/2025 al 15/03/2025  |  desde 2025-03-01 hasta 2025-03-15
+  (texto) => {
+    const fecha = "(\\d{4}-\\d{1,2}-\\d{1,2}|\\d{1,2}/\\d{1,2}/\\d{4})";
+    const m = texto.match(new RegExp(`(?:del|desde(?: el)?|entre(?: el)?)\\s+${fecha}\\s+(?:al|hasta(?: el)?|y(?: el)?)\\s+${fecha}`));
+    if (!m) return null;
+    const desde = parsearFechaNumerica(m[1]);
+    const hasta = parsearFechaNumerica(m[2]);
+    return desde && hasta ? { desde, hasta, expresion: m[0] } : null;
+  },
+
+  // del 1 de enero al 15 de febrero [de 2025]
+  (texto, hoy) => {
+    const m = texto.match(new RegExp(`del?\\s+(\\d{1,2})\\s+de\\s+(${PATRON_MES})\\s+al\\s+(\\d{1,2})\\s+de\\s+(${PATRON_MES})(?:\\s+(?:de|del)\\s+(\\d{4}))?`));
+    if (!m) return null;
+    const mesDesde = MESES[m[2]];
+    const mesHasta = MESES[m[4]];
+    const anioHasta = m[5] ? Number(m[5]) : anioDelMes(mesHasta, hoy);
+    const anioDesde = mesDesde > mesHasta ? anioHasta - 1 : anioHasta;
+    return {
+      desde: { anio: anioDesde, mes: mesDesde, dia: Number(m[1]) },
+      hasta: { anio: anioHasta, mes: mesHasta, dia: Number(m[3]) },
+      expresion: m[0]
+    };
+  },
+
+  // del 1 al 15 de enero [de 2025]
+  (texto, hoy) => {
+    const m = texto.match(new RegExp(`del?\\s+(\\d{1,2})\\s+al\\s+(\\d{1,2})\\s+de\\s+(${PATRON_MES})(?:\\s+(?:de|del)\\s+(\\d{4}))?`));
+    if (!m) return null;
+    const mes = MESES[m[3]];
+    const anio = m[4] ? Number(m[4]) : anioDelMes(mes, hoy);
+    return {
+      desde: { anio, mes, dia: Number(m[1]) },
+      hasta: { anio, mes, dia: Number(m[2]) },
+      expresion: m[0]
+    };
+  },
+
+  // el 5 de marzo [de 2024]
+  (texto, hoy) => {
+    const m = texto.match(new RegExp(`(\\d{1,2})\\s+de\\s+(${PATRON_MES})(?:\\s+(?:de|del)\\s+(\\d{4}))?`));
+    if (!m) return null;
+    const mes = MESES[m[2]];
+    const dia = { anio: m[3] ? Number(m[3]) : anioDelMes(mes, hoy), mes, dia: Number(m[1]) };
+    return { desde: dia, hasta: dia, expresion: m[0] };
+  },
+
+  // 15/03/2025 | 2025-03-15
+  (texto) => {
+    const m = texto.match(/\b(\d{4}-\d{1,2}-\d{1,2}|\d{1,2}\/\d{1,2}\/\d{4})\b/);
+    const dia = m ? parsearFechaNumerica(m[1]) : null;
+    return m && dia ? { desde: dia, hasta: dia, expresion: m[0] } : null;
+  },
+
+  // últimos 30 días | últimas 2 semanas | últimos 3 meses
+  (texto, hoy) => {
+    const m = texto.match(/ultim[oa]s\s+(\d+)\s+(dias?|semanas?|mes(?:es)?)/);
+    if (!m) return null;
+    const n = Number(m[1]);
+    if (n <= 0) return null;
+    const desde = m[2].startsWith("dia")
+      ? sumarDias(hoy, -(n - 1))
+      : m[2].startsWith("semana")
+        ? sumarDias(hoy, -(n * 7 - 1))
+        : sumarDias(sumarMeses(hoy, -n), 1);
+    return { desde, hasta: hoy, expresion: m[0] };
+  },
+
+  (texto, hoy) => {
+    const m = texto.match(/\b(anteayer|antier)\b/);
+    if (!m) return null;
+    const dia = sumarDias(hoy, -2);
+    return { desde: dia, hasta: dia, expresion: m[0] };
+  },
+
+  (texto, hoy) => {
+    const m = texto.match(/\bayer\b/);
+    if (!m) return null;
+    const dia = sumarDias(hoy, -1);
+    return { desde: dia, hasta: dia, expresion: m[0] };
+  },
+
+  (texto, hoy) => {
+    const m = texto.match(/\bhoy\b/);
+    return m ? { desde: hoy, hasta: hoy, expresion: m[0] } : null;
+  },
+
+  // semana de lunes a domingo
+  (texto, hoy) => {
+    const m = texto.match(/\b(?:la\s+)?semana\s+pasada\b|\besta\s+semana\b/);
+    if (!m) return null;
+    const diaSemana = (aDate(hoy).getUTCDay() + 6) % 7;   // 0 = lunes
+    const lunes = sumarDias(hoy, -diaSemana - (m[0].includes("pasada") ? 7 : 0));
+    return { desde: lunes, hasta: sumarDias(lunes, 6), expresion: m[0] };
+  },
+
+  (texto, hoy) => {
+    const m = texto.match(/\b(?:el\s+)?mes\s+pasado\b|\beste\s+mes\b/);
+    if (!m) return null;
+    const base = m[0].includes("pasado") ? sumarMeses({ ...hoy, dia: 1 }, -1) : { ...hoy, dia: 1 };
+    return {
+      desde: base,
+      hasta: { ...base, dia: diasDelMes(base.anio, base.mes) },
+      expresion: m[0]
+    };
+  },
+
+  (texto, hoy) => {
+    const m = texto.match(/\b(?:el\s+)?ano\s+pasado\b|\beste\s+ano\b/);
+    if (!m) return null;
+    const anio = m[0].includes("pasado") ? hoy.anio - 1 : hoy.anio;
+    return { desde: { anio, mes: 1, dia: 1 }, hasta: { anio, mes: 12, dia: 31 }, expresion: m[0] };
+  },
+
+  // marzo | marzo de 2024
+  (texto, hoy) => {
+    const m = texto.match(new RegExp(`\\b(${PATRON_MES})\\b(?:\\s+(?:de|del)\\s+(\\d{4}))?`));
+    if (!m) return null;
+    const mes = MESES[m[1]];
+    const anio = m[2] ? Number(m[2]) : anioDelMes(mes, hoy);
+    return {
+      desde: { anio, mes, dia: 1 },
+      hasta: { anio, mes, dia: diasDelMes(anio, mes) },
+      expresion: m[0]
+    };
+  }
+];
+
+function parsearFechaNumerica(texto: string): Dia | null {
+  const iso = texto.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  const local = texto.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  const dia = iso
+    ? { anio: Number(iso[1]), mes: Number(iso[2]), dia: Number(iso[3]) }
+    : local
+      ? { anio: Number(local[3]), mes: Number(local[2]), dia: Number(local[1]) }
+      : null;
+  return dia && esDiaValido(dia) ? dia : null;
+}
+
+/**
+ * Minúsculas y sin tildes ("Últimos" -> "ultimos", "año" -> "ano")
+ */
+function normalizar(texto: string): string {
+  return texto
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "");
+}
+
+/**
+ * Primer periodo reconocible en el mensaje, o null si no menciona ninguno
+ */
+export function interpretarPeriodo(mensaje: string, opciones: OpcionesPeriodo = {}): Periodo | null {
+  const zonaHoraria = opciones.zonaHoraria || process.env.ERP_ZONA_HORARIA || "UTC";
+  const hoy = hoyEnZona(opciones.referencia || new Date(), zonaHoraria);
+  const texto = normalizar(mensaje);
+
+  for (const regla of REGLAS) {
+    const resultado = regla(texto, hoy);
+    if (!resultado) continue;
+
+    const { desde, hasta, expresion } = resultado;
+    if (!esDiaValido(desde) || !esDiaValido(hasta) || aDate(desde) > aDate(hasta)) return null;
+
+    return { desde: formatearISO(desde), hasta: formatearISO(hasta), zonaHoraria, expresion };
+  }
+  return null;
+}
+
+/**
+ * AAAA-MM-DD al formato del ERP (tokens YYYY, MM, DD; p. ej. "DD/MM/YYYY", "YYYYMMDD")
+ */
+export function formatearFecha(iso: string, formato = "YYYY-MM-DD"): string {
+  const [anio, mes, dia] = iso.split("-");
+  return formato.replace("YYYY", anio).replace("MM", mes).replace("DD", dia);
+}
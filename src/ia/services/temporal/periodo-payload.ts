@@ -0,0 +1,75 @@
+import { Empresa, Endpoint, RolFecha } from "../../../erp/configs/api-config";
+import { CampoDefinido, recorrerParametros } from "../../../erp/configs/parametros";
+import { asignarValorPorRuta } from "../plan/plan-rutas";
+import { Periodo, formatearFecha, interpretarPeriodo } from "./periodo-parser";
+
+export interface AplicacionPeriodo {
+  payload: Record<string, any>;
+  periodo: Periodo | null;
+  aplicados: string[];      // rutas de los campos que se rellenaron
+}
+
+const PALABRAS_DESDE = ["desde", "inicio", "inicial", "ini", "emision", "from", "start", "begin"];
+const PALABRAS_HASTA = ["hasta", "fin", "final", "vencimiento", "termino", "cierre", "to", "end", "until"];
+
+/**
+ * "F_Fecha_Emision" -> ["f", "fecha", "emision"]; "fechaFin" -> ["fecha", "fin"]
+ */
+function palabrasDelNombre(nombre: string): string[] {
+  return nombre
+    .replace(/([a-z])([A-Z])/g, "$1 $2")
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+}
+
+function esCampoFecha(campo: CampoDefinido): boolean {
+  return campo.tipo === "date" || (campo.tipo === "string" && /fecha|date/i.test(campo.nombre));
+}
+
+/**
+ * rolFecha de la configuración, o deducido del nombre (F_Fecha_Emision -> desde, F_Fecha_Vencimiento -> hasta)
+ */
+export function rolDeCampo(campo: CampoDefinido): RolFecha | null {
+  if (campo.rolFecha) return campo.rolFecha;
+  const palabras = palabrasDelNombre(campo.nombre);
+  if (palabras.some(p => PALABRAS_HASTA.includes(p))) return "hasta";
+  if (palabras.some(p => PALABRAS_DESDE.includes(p))) return "desde";
+  return null;
+}
+
+/**
+ * Rellena los campos fecha del endpoint con el periodo que mencione el mensaje.
+ * Los campos "date" reciben AAAA-MM-DD; los string, el formatoFecha de la empresa.
+ * Un campo fecha sin rol solo se rellena cuando el periodo es un único día.
+ */
+export function aplicarPeriodo(
+  endpoint: Endpoint,
+  payload: Record<string, any>,
+  mensaje: string,
+  empresa: Empresa,
+  referencia?: Date
+): AplicacionPeriodo {
+  const campos = recorrerParametros(endpoint).filter(esCampoFecha);
+  if (campos.length === 0) return { payload, periodo: null, aplicados: [] };
+
+  const periodo = interpretarPeriodo(mensaje, { zonaHoraria: empresa.zonaHoraria, referencia });
+  if (!periodo) return { payload, periodo: null, aplicados: [] };
+
+  const resultado = JSON.parse(JSON.stringify(payload || {}));
+  const aplicados: string[] = [];
+
+  for (const campo of campos) {
+    const rol = rolDeCampo(campo) ?? (periodo.desde === periodo.hasta ? "desde" : null);
+    if (!rol) continue;
+
+    const iso = rol === "desde" ? periodo.desde : periodo.hasta;
+    const valor = campo.tipo === "date" ? iso : formatearFecha(iso, empresa.formatoFecha || process.env.ERP_FORMATO_FECHA);
+    asignarValorPorRuta(resultado, campo.ruta, valor);
+    aplicados.push(campo.ruta);
+  }
+
+  return { payload: resultado, periodo, aplicados };
+}
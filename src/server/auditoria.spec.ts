@@ -0,0 +1,77 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { AuditLog } from "./auditoria";
+
+describe("AuditLog", () => {
+  let directorio: string;
+  let ruta: string;
+
+  beforeEach(() => {
+    directorio = fs.mkdtempSync(path.join(os.tmpdir(), "auditoria-"));
+    ruta = path.join(directorio, "auditoria.jsonl");
+  });
+
+  afterEach(() => {
+    fs.rmSync(directorio, { recursive: true, force: true });
+  });
+
+  async function registrarTres(log: AuditLog): Promise<string[]> {
+    await Promise.all([
+      log.registrar({ tipo: "INTERPRETACION", empresa: "demo", usuarioId: "u1", mensaje: "lista pacientes" }),
+      log.registrar({ tipo: "EJECUCION", empresa: "demo", usuarioId: "u1", endpointId: 1 }),
+      log.registrar({ tipo: "CONFIRMACION", empresa: "demo", usuarioId: "u2", endpointId: 8 })
+    ]);
+    return fs.readFileSync(ruta, "utf-8").trim().split("\n");
+  }
+
+  it("encadena las entradas en orden y verifica la cadena completa", async () => {
+    const log = new AuditLog(ruta);
+    const lineas = (await registrarTres(log)).map(l => JSON.parse(l));
+
+    expect(lineas.map(e => e.secuencia)).toEqual([1, 2, 3]);
+    expect(lineas[0].hashAnterior).toBe("0".repeat(64));
+    expect(lineas[1].hashAnterior).toBe(lineas[0].hash);
+    expect(await log.verificar()).toEqual({ valida: true, entradas: 3 });
+  });
+
+  it("continúa la cadena del archivo existente desde otra instancia", async () => {
+    await registrarTres(new AuditLog(ruta));
+
+    const otra = new AuditLog(ruta);
+    const entrada = await otra.registrar({ tipo: "PLAN", empresa: "demo" });
+
+    expect(entrada.secuencia).toBe(4);
+    expect(await otra.verificar()).toEqual({ valida: true, entradas: 4 });
+  });
+
+  it("detecta una entrada modificada", async () => {
+    const lineas = await registrarTres(new AuditLog(ruta));
+    lineas[1] = lineas[1].replace('"endpointId":1', '"endpointId":2');
+    fs.writeFileSync(ruta, lineas.join("\n") + "\n");
+
+    expect(await new AuditLog(ruta).verificar()).toEqual({
+      valida: false,
+      entradas: 1,
+      error: { linea: 2, motivo: "El contenido de la entrada fue modificado" }
+    });
+  });
+
+  it("detecta una entrada borrada", async () => {
+    const lineas = await registrarTres(new AuditLog(ruta));
+    fs.writeFileSync(ruta, [lineas[0], lineas[2]].join("\n") + "\n");
+
+    expect(await new AuditLog(ruta).verificar()).toMatchObject({
+      valida: false,
+      error: { linea: 2, motivo: "La cadena se interrumpe: falta o se reordenó una entrada" }
+    });
+  });
+
+  it("filtra las consultas por usuario", async () => {
+    const log = new AuditLog(ruta);
+    await registrarTres(log);
+
+    const entradas = await log.consultar({ usuarioId: "u1" });
+    expect(entradas.map(e => e.tipo).sort()).toEqual(["EJECUCION", "INTERPRETACION"]);
+  });
+});
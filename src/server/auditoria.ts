@@ -0,0 +1,237 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as readline from "readline";
+import { createHash, randomUUID } from "crypto";
+import { IAResponseSchema, LlamadaModelo } from "../ia/schemas/ia-response.schema";
+import { ResultadoEjecucion } from "../erp/erp-executor.service";
+import { ExecutionMode } from "../types/ia-output.schema";
+
+/* ============================================================
+   Auditoría: registro append-only encadenado por hash
+   ============================================================ */
+
+// hashAnterior de la primera entrada
+const GENESIS = "0".repeat(64);
+
+export type TipoAuditoria = "INTERPRETACION" | "EJECUCION" | "CONFIRMACION" | "PLAN";
+
+/**
+ * Una llamada al ERP: solo estado y tiempos, la respuesta no se guarda
+ */
+export interface LlamadaERP {
+  metodo: string;
+  url: string;
+  modo: ExecutionMode;
+  ejecutado: boolean;
+  status?: number;
+  duracionMs?: number;
+  error?: string;
+}
+
+export interface DatosAuditoria {
+  tipo: TipoAuditoria;
+  empresa: string;
+  usuarioId?: string;
+  sessionId?: string;
+  modulo?: string;
+  endpointId?: number;
+  mensaje?: string;                 // mensaje original del usuario
+  motor?: string;
+  llamadas?: LlamadaModelo[];       // hash del prompt y salida cruda de cada llamada al modelo
+  respuesta?: IAResponseSchema;     // respuesta final del motor, con intentos y advertencias
+  resultado?: any;                  // lo que respondió la API (validaciones, permisos, errores)
+  erp?: LlamadaERP[];
+  duracionMs?: number;
+}
+
+export interface EntradaAuditoria extends DatosAuditoria {
+  secuencia: number;
+  id: string;
+  fecha: string;
+  hashAnterior: string;
+  hash: string;                     // sha256(hashAnterior + JSON de la entrada sin hash)
+}
+
+export interface FiltroAuditoria {
+  empresa?: string;
+  usuarioId?: string;
+  modulo?: string;
+  tipo?: TipoAuditoria;
+  desde?: Date;
+  hasta?: Date;
+  limite?: number;
+}
+
+export interface VerificacionAuditoria {
+  valida: boolean;
+  entradas: number;
+  error?: { linea: number; motivo: string };
+}
+
+export function llamadaERP(ejecucion: ResultadoEjecucion): LlamadaERP {
+  return {
+    metodo: ejecucion.request.metodo,
+    url: ejecucion.request.url,
+    modo: ejecucion.modo,
+    ejecutado: ejecucion.ejecutado,
+    status: ejecucion.status,
+    duracionMs: ejecucion.duracionMs,
+    error: ejecucion.error
+  };
+}
+
+function calcularHash(hashAnterior: string, contenido: string): string {
+  return createHash("sha256").update(hashAnterior).update(contenido).digest("hex");
+}
+
+/**
+ * Registro de auditoría en JSONL (AUDITORIA_PATH, por defecto logs/auditoria.jsonl). Cada
+ * entrada guarda el hash de la anterior: editar o borrar una línea rompe la cadena desde
+ * ahí, y verificar() lo detecta. Un solo proceso debe escribir cada archivo.
+ */
+export class AuditLog {
+  private cola: Promise<unknown> = Promise.resolve();
+  private ultima: { secuencia: number; hash: string } | null = null;
+
+  // Sin ruta se lee AUDITORIA_PATH al usarlo (dotenv se carga después de los imports)
+  constructor(private readonly ruta?: string) {}
+
+  private archivo(): string {
+    return this.ruta ?? process.env.AUDITORIA_PATH ?? path.join(process.cwd(), "logs", "auditoria.jsonl");
+  }
+
+  /**
+   * Agrega una entrada al final de la cadena; las escrituras se encolan para no intercalarse
+   */
+  registrar(datos: DatosAuditoria): Promise<EntradaAuditoria> {
+    const escritura = this.cola.then(() => this.agregar(datos));
+    this.cola = escritura.catch(() => undefined);
+    return escritura;
+  }
+
+  private async agregar(datos: DatosAuditoria): Promise<EntradaAuditoria> {
+    const archivo = this.archivo();
+    if (!this.ultima) {
+      await fs.promises.mkdir(path.dirname(archivo), { recursive: true });
+      this.ultima = await this.leerUltima(archivo);
+    }
+
+    const sinHash = {
+      secuencia: this.ultima.secuencia + 1,
+      id: randomUUID(),
+      fecha: new Date().toISOString(),
+      ...datos,
+      hashAnterior: this.ultima.hash
+    };
+    const entrada: EntradaAuditoria = { ...sinHash, hash: calcularHash(sinHash.hashAnterior, JSON.stringify(sinHash)) };
+
+    await fs.promises.appendFile(archivo, JSON.stringify(entrada) + "\n", { flag: "a" });
+    this.ultima = { secuencia: entrada.secuencia, hash: entrada.hash };
+    return entrada;
+  }
+
+  /**
+   * Última entrada del archivo, leyendo desde el final
+   */
+  private async leerUltima(archivo: string): Promise<{ secuencia: number; hash: string }> {
+    if (!fs.existsSync(archivo)) return { secuencia: 0, hash: GENESIS };
+
+    const handle = await fs.promises.open(archivo, "r");
+    try {
+      const { size } = await handle.stat();
+      let texto = "";
+      for (let fin = size; fin > 0;) {
+        const inicio = Math.max(0, fin - 64 * 1024);
+        const buffer = Buffer.alloc(fin - inicio);
+        await handle.read(buffer, 0, buffer.length, inicio);
+        texto = buffer.toString("utf-8") + texto;
+        fin = inicio;
+
+        const lineas = texto.split("\n").filter(l => l.trim());
+        if (lineas.length > 1 || (inicio === 0 && lineas.length === 1)) {
+          const { secuencia, hash } = JSON.parse(lineas[lineas.length - 1]);
+          return { secuencia, hash };
+        }
+      }
+      return { secuencia: 0, hash: GENESIS };
+    } finally {
+      await handle.close();
+    }
+  }
+
+  private async *entradas(): AsyncGenerator<{ linea: number; texto: string }> {
+    const archivo = this.archivo();
+    if (!fs.existsSync(archivo)) return;
+
+    const lector = readline.createInterface({ input: fs.createReadStream(archivo, "utf-8"), crlfDelay: Infinity });
+    let linea = 0;
+    for await (const texto of lector) {
+      linea++;
+      if (texto.trim()) yield { linea, texto };
+    }
+  }
+
+  /**
+   * Entradas que cumplen el filtro, de la más reciente a la más antigua
+   */
+  async consultar(filtro: FiltroAuditoria = {}): Promise<EntradaAuditoria[]> {
+    const limite = filtro.limite ?? 100;
+    const modulo = filtro.modulo?.toLowerCase();
+    const empresa = filtro.empresa?.toLowerCase();
+    const coincidentes: EntradaAuditoria[] = [];
+
+    for await (const { texto } of this.entradas()) {
+      let entrada: EntradaAuditoria;
+      try {
+        entrada = JSON.parse(texto);
+      } catch {
+        continue;
+      }
+
+      const fecha = new Date(entrada.fecha);
+      if (empresa && entrada.empresa?.toLowerCase() !== empresa) continue;
+      if (filtro.usuarioId && entrada.usuarioId !== filtro.usuarioId) continue;
+      if (modulo && entrada.modulo?.toLowerCase() !== modulo) continue;
+      if (filtro.tipo && entrada.tipo !== filtro.tipo) continue;
+      if (filtro.desde && fecha < filtro.desde) continue;
+      if (filtro.hasta && fecha > filtro.hasta) continue;
+
+      coincidentes.push(entrada);
+      if (coincidentes.length > limite) coincidentes.shift();
+    }
+
+    return coincidentes.reverse();
+  }
+
+  /**
+   * Recorre la cadena completa: cada hash debe corresponder a su contenido y a la entrada anterior
+   */
+  async verificar(): Promise<VerificacionAuditoria> {
+    let anterior = { secuencia: 0, hash: GENESIS };
+    let entradas = 0;
+
+    for await (const { linea, texto } of this.entradas()) {
+      let entrada: EntradaAuditoria;
+      try {
+        entrada = JSON.parse(texto);
+      } catch {
+        return { valida: false, entradas, error: { linea, motivo: "La línea no es JSON válido" } };
+      }
+
+      const { hash, ...sinHash } = entrada;
+      if (entrada.hashAnterior !== anterior.hash || entrada.secuencia !== anterior.secuencia + 1) {
+        return { valida: false, entradas, error: { linea, motivo: "La cadena se interrumpe: falta o se reordenó una entrada" } };
+      }
+      if (calcularHash(entrada.hashAnterior, JSON.stringify(sinHash)) !== hash) {
+        return { valida: false, entradas, error: { linea, motivo: "El contenido de la entrada fue modificado" } };
+      }
+
+      anterior = { secuencia: entrada.secuencia, hash };
+      entradas++;
+    }
+
+    return { valida: true, entradas };
+  }
+}
+
+export const auditLog = new AuditLog();
@@ -0,0 +1,57 @@
+import Fastify, { FastifyInstance } from "fastify";
+import { verificarAdmin } from "./auth";
+import { firmarJWT } from "./jwt";
+
+const SECRETO = "secreto-de-prueba";
+
+function token(roles: string[]): string {
+  return firmarJWT({ sub: "u1", empresa: "demo", roles, exp: Math.floor(Date.now() / 1000) + 600 }, "HS256", SECRETO);
+}
+
+describe("verificarAdmin", () => {
+  const entorno = { ...process.env };
+  let app: FastifyInstance;
+
+  beforeEach(async () => {
+    process.env.AUTH_JWT_SECRET = SECRETO;
+    delete process.env.AUTH_JWT_PUBLIC_KEY;
+    delete process.env.ERP_ADMIN_TOKEN;
+    delete process.env.AUTH_DESACTIVADA;
+
+    app = Fastify();
+    app.get("/admin", { preHandler: verificarAdmin }, async () => ({ success: true }));
+    await app.ready();
+  });
+
+  afterEach(async () => {
+    await app.close();
+    process.env = { ...entorno };
+  });
+
+  const pedir = (autorizacion?: string) =>
+    app.inject({ method: "GET", url: "/admin", headers: autorizacion ? { authorization: `Bearer ${autorizacion}` } : {} });
+
+  it("admite un JWT con rol admin", async () => {
+    expect((await pedir(token(["admin"]))).statusCode).toBe(200);
+  });
+
+  it("rechaza sin token o sin el rol", async () => {
+    expect((await pedir()).statusCode).toBe(401);
+    expect((await pedir(token(["lector"]))).json()).toMatchObject({ error: "ROL_ADMIN_REQUERIDO" });
+  });
+
+  it("con AUTH_DESACTIVADA responde 401 en lugar de fallar con el JWT", async () => {
+    process.env.AUTH_DESACTIVADA = "true";
+
+    const respuesta = await pedir(token(["admin"]));
+    expect(respuesta.statusCode).toBe(401);
+    expect(respuesta.json()).toMatchObject({ error: "NO_AUTORIZADO" });
+  });
+
+  it("con AUTH_DESACTIVADA sigue admitiendo ERP_ADMIN_TOKEN", async () => {
+    process.env.AUTH_DESACTIVADA = "true";
+    process.env.ERP_ADMIN_TOKEN = "token-admin";
+
+    expect((await pedir("token-admin")).statusCode).toBe(200);
+  });
+});
@@ -0,0 +1,167 @@
+import { timingSafeEqual } from "crypto";
+import { FastifyReply, FastifyRequest } from "fastify";
+import { COMODIN, Permisos, combinarPermisos } from "../erp/permisos";
+import { PoliticaAcceso } from "../erp/politicas";
+import { ClaimsJWT, claveDesdeEntorno, opcionesDesdeEntorno, verificarJWT } from "./jwt";
+import { roleStore } from "./roles";
+import { HEADER_EMPRESA } from "./tenant";
+
+/**
+ * Usuario autenticado: sale de los claims verificados del token, nunca del body
+ */
+export interface Usuario {
+  id: string;
+  empresa: string;           // "*" = puede elegir empresa con x-erp-empresa
+  roles: string[];
+  permisos: Permisos;        // claims "permisos" + roles del almacén local
+  politica?: PoliticaAcceso; // endpoints y campos, solo desde el almacén de roles de la empresa
+}
+
+declare module "fastify" {
+  interface FastifyRequest {
+    usuario?: Usuario;
+  }
+}
+
+export const ROL_ADMIN = "admin";
+
+/**
+ * AUTH_DESACTIVADA=true vuelve al comportamiento anterior (permisos del body); solo para desarrollo
+ */
+export function autenticacionDesactivada(): boolean {
+  return process.env.AUTH_DESACTIVADA === "true";
+}
+
+/**
+ * Al arrancar: sin clave JWT la autenticación debe estar desactivada de forma explícita
+ */
+export function verificarConfiguracionAuth(): void {
+  if (autenticacionDesactivada()) {
+    console.warn("-- AUTH_DESACTIVADA: los permisos se toman del body de cada petición --");
+    return;
+  }
+  if (!claveDesdeEntorno()) {
+    throw new Error("Define AUTH_JWT_SECRET (HS256) o AUTH_JWT_PUBLIC_KEY (RS256), o AUTH_DESACTIVADA=true");
+  }
+}
+
+function tokenDePeticion(request: FastifyRequest): string | undefined {
+  const header = request.headers.authorization;
+  const match = header?.match(/^Bearer\s+(.+)$/i);
+  return match ? match[1].trim() : undefined;
+}
+
+function listaDeClaim(valor: unknown): string[] {
+  if (Array.isArray(valor)) return valor.filter((v): v is string => typeof v === "string");
+  if (typeof valor === "string") return valor.split(/[\s,]+/).filter(Boolean);
+  return [];
+}
+
+function usuarioDesdeClaims(claims: ClaimsJWT): Usuario {
+  const empresa = claims.empresa ?? claims.erp;
+  if (typeof claims.sub !== "string" || !claims.sub) throw new Error("El token no tiene sub");
+  if (typeof empresa !== "string" || !empresa) throw new Error("El token no indica la empresa (claim empresa)");
+
+  const roles = listaDeClaim(claims.roles);
+  const delToken: Permisos | undefined = claims.permisos
+    ? { modulos: listaDeClaim(claims.permisos.modulos), acciones: listaDeClaim(claims.permisos.acciones) }
+    : undefined;
+
+  return {
+    id: claims.sub,
+    empresa,
+    roles,
+    permisos: combinarPermisos(delToken, roleStore.permisosDeRoles(empresa, roles)),
+    politica: roleStore.politicaDeRoles(empresa, roles)
+  };
+}
+
+/**
+ * Verifica el Bearer y deja el usuario en request.usuario; undefined si no hay token
+ */
+function usuarioDePeticion(request: FastifyRequest): Usuario | undefined {
+  const token = tokenDePeticion(request);
+  if (!token) return undefined;
+
+  const clave = claveDesdeEntorno();
+  if (!clave) throw new Error("No hay clave JWT configurada");
+  return usuarioDesdeClaims(verificarJWT(token, clave, opcionesDesdeEntorno()));
+}
+
+function noAutorizado(reply: FastifyReply, details: string) {
+  return reply.status(401).send({
+    success: false,
+    error: "NO_AUTORIZADO",
+    details
+  });
+}
+
+/**
+ * preHandler: exige un JWT válido. La empresa del token manda; si además viene
+ * x-erp-empresa debe coincidir (salvo tokens con empresa "*")
+ */
+export async function autenticar(request: FastifyRequest, reply: FastifyReply) {
+  if (autenticacionDesactivada()) return;
+
+  let usuario: Usuario | undefined;
+  try {
+    usuario = usuarioDePeticion(request);
+  } catch (error: any) {
+    return noAutorizado(reply, error.message);
+  }
+  if (!usuario) return noAutorizado(reply, "Falta Authorization: Bearer <token>");
+
+  const header = request.headers[HEADER_EMPRESA];
+  const pedida = Array.isArray(header) ? header[0] : header;
+  if (usuario.empresa !== COMODIN && pedida && pedida.toLowerCase() !== usuario.empresa.toLowerCase()) {
+    return reply.status(403).send({
+      success: false,
+      error: "EMPRESA_NO_AUTORIZADA",
+      details: `El token es de la empresa '${usuario.empresa}', no de '${pedida}'`
+    });
+  }
+
+  request.usuario = usuario;
+}
+
+function mismoToken(recibido: string, esperado: string): boolean {
+  const a = Buffer.from(recibido);
+  const b = Buffer.from(esperado);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+/**
+ * preHandler de las rutas de administración: JWT con rol "admin" o, para scripts,
+ * el token fijo ERP_ADMIN_TOKEN
+ */
+export async function verificarAdmin(request: FastifyRequest, reply: FastifyReply) {
+  const recibido = tokenDePeticion(request);
+  const estatico = process.env.ERP_ADMIN_TOKEN;
+  if (recibido && estatico && mismoToken(recibido, estatico)) return;
+
+  if (!recibido) return noAutorizado(reply, "Falta el token de administración");
+  if (!claveDesdeEntorno()) {
+    return estatico
+      ? noAutorizado(reply, "El token de administración no es válido")
+      : reply.status(403).send({
+        success: false,
+        error: "ADMIN_DESHABILITADO",
+        details: "Define ERP_ADMIN_TOKEN o una clave JWT para habilitar la administración de configuraciones"
+      });
+  }
+
+  await autenticar(request, reply);
+  if (reply.sent) return;
+
+  // Con AUTH_DESACTIVADA autenticar no verifica el token: sin usuario solo vale ERP_ADMIN_TOKEN
+  const usuario = request.usuario;
+  if (!usuario) return noAutorizado(reply, "El token de administración no es válido");
+
+  if (!usuario.roles.includes(ROL_ADMIN)) {
+    return reply.status(403).send({
+      success: false,
+      error: "ROL_ADMIN_REQUERIDO",
+      details: `El usuario ${usuario.id} no tiene el rol ${ROL_ADMIN}`
+    });
+  }
+}
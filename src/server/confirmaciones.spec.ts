@@ -0,0 +1,70 @@
+import { AccionPendiente, ConfirmacionService } from "./confirmaciones";
+import { MemorySessionStore } from "../ia/services/storage/memory-session.store";
+
+const SECRETO = "secreto-de-prueba";
+const titular = { empresa: "demo", usuarioId: "u1" };
+
+const pendiente: AccionPendiente = {
+  tipo: "ENDPOINT",
+  endpointId: 8,
+  accion: "crear",
+  request: { metodo: "POST", url: "http://localhost:8098/Servicios/Ventas/Crear", body: { oEntity: { T_Descripcion: "Venta" } } }
+};
+
+describe("ConfirmacionService", () => {
+  let store: MemorySessionStore<any>;
+  let servicio: ConfirmacionService;
+
+  beforeEach(() => {
+    store = new MemorySessionStore();
+    servicio = new ConfirmacionService(SECRETO, store);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("devuelve la acción pendiente una sola vez", async () => {
+    const { token, resumen } = await servicio.emitir(titular, pendiente, "Crear venta");
+
+    expect(await servicio.confirmar(token, titular)).toEqual({ success: true, pendiente, resumen });
+    expect(await servicio.confirmar(token, titular)).toMatchObject({ success: false, error: "CONFIRMACION_USADA" });
+  });
+
+  it("con dos confirmaciones simultáneas solo una ejecuta", async () => {
+    const { token } = await servicio.emitir(titular, pendiente, "Crear venta");
+
+    const resultados = await Promise.all([servicio.confirmar(token, titular), servicio.confirmar(token, titular)]);
+
+    expect(resultados.filter(r => r.success)).toHaveLength(1);
+  });
+
+  it("solo vale para la misma empresa y usuario", async () => {
+    const { token } = await servicio.emitir(titular, pendiente, "Crear venta");
+
+    expect(await servicio.confirmar(token, { empresa: "demo", usuarioId: "u2" })).toMatchObject({ error: "CONFIRMACION_AJENA" });
+    expect(await servicio.confirmar(token, { empresa: "otra", usuarioId: "u1" })).toMatchObject({ error: "CONFIRMACION_AJENA" });
+    expect(await servicio.confirmar(token, titular)).toMatchObject({ success: true });
+  });
+
+  it("rechaza tokens firmados con otro secreto", async () => {
+    const { token } = await new ConfirmacionService("otro-secreto", store).emitir(titular, pendiente, "Crear venta");
+
+    expect(await servicio.confirmar(token, titular)).toMatchObject({ success: false, error: "CONFIRMACION_INVALIDA" });
+  });
+
+  it("rechaza la acción si lo guardado ya no es lo que se firmó", async () => {
+    const { token } = await servicio.emitir(titular, pendiente, "Crear venta");
+    const [{ sessionId: jti, valor }] = await store.listar();
+    await store.guardar(jti, { ...valor, request: { ...pendiente.request, body: { oEntity: { T_Descripcion: "Otra" } } } }, 60_000);
+
+    expect(await servicio.confirmar(token, titular)).toMatchObject({ success: false, error: "CONFIRMACION_INVALIDA" });
+  });
+
+  it("rechaza el token vencido", async () => {
+    const { token, expiraEn } = await servicio.emitir(titular, pendiente, "Crear venta");
+    jest.spyOn(Date, "now").mockReturnValue(expiraEn + 1000);
+
+    expect(await servicio.confirmar(token, titular)).toMatchObject({ success: false, error: "CONFIRMACION_EXPIRADA" });
+  });
+});
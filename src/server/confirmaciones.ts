@@ -0,0 +1,200 @@
+import { createHash, randomBytes, randomUUID } from "crypto";
+import { AccionCRUD, ConfiguracionAPI, RequestPreparado, obtenerEndpointPorId } from "../erp/configs/api-config";
+import { SessionStore } from "../ia/services/storage/session-store";
+import { crearSessionStore } from "../ia/services/storage/session-store.factory";
+import { IAOutput } from "../types/ia-output.schema";
+import { ClaveJWT, firmarJWT, verificarJWT } from "./jwt";
+
+/* ============================================================
+   Confirmación humana de escrituras
+   ============================================================ */
+
+const AUDIENCIA = "erp-confirmacion";
+
+export type ErrorConfirmacion =
+  | "CONFIRMACION_INVALIDA"     // firma, formato o contenido alterado
+  | "CONFIRMACION_EXPIRADA"
+  | "CONFIRMACION_USADA"        // ya se ejecutó (o venció en el almacén)
+  | "CONFIRMACION_AJENA"        // emitida para otro usuario o empresa
+  | "CONFIRMACION_DESACTUALIZADA"; // el plan ya no resuelve las escrituras que se confirmaron
+
+/**
+ * Lo que se devuelve al cliente para que un humano confirme
+ */
+export interface Confirmacion {
+  token: string;
+  resumen: string;
+  expiraEn: number;
+}
+
+/**
+ * Quién pide la escritura: el token solo vale para la misma empresa y usuario
+ */
+export interface TitularConfirmacion {
+  empresa: string;
+  usuarioId?: string;
+}
+
+/**
+ * Escritura pendiente, guardada por jti hasta que se confirma o vence. Un plan guarda además
+ * sus escrituras ya resueltas en el PREVIEW: es eso, y no solo el plan, lo que se confirma.
+ */
+export type AccionPendiente =
+  | { tipo: "ENDPOINT"; endpointId: number; accion: AccionCRUD; request: RequestPreparado }
+  | { tipo: "PLAN"; plan: IAOutput; escrituras: RequestPreparado[] };
+
+type Pendiente = AccionPendiente & TitularConfirmacion & { hash: string; resumen: string };
+
+export type ResultadoConfirmacion =
+  | { success: true; pendiente: AccionPendiente; resumen: string }
+  | { success: false; error: ErrorConfirmacion; details: string };
+
+/**
+ * JSON con las claves ordenadas: el mismo payload da el mismo hash aunque cambie el orden
+ */
+function canonico(valor: any): string {
+  if (Array.isArray(valor)) return `[${valor.map(canonico).join(",")}]`;
+  if (valor && typeof valor === "object") {
+    return `{${Object.keys(valor).sort().map(k => `${JSON.stringify(k)}:${canonico(valor[k])}`).join(",")}}`;
+  }
+  return JSON.stringify(valor ?? null);
+}
+
+/**
+ * Hash de lo que se va a ejecutar: método, URL y body, o el plan con cada escritura resuelta
+ */
+function hashDe(pendiente: AccionPendiente): string {
+  const contenido = pendiente.tipo === "ENDPOINT"
+    ? { metodo: pendiente.request.metodo, url: pendiente.request.url, body: pendiente.request.body ?? null }
+    : {
+      plan: pendiente.plan,
+      escrituras: pendiente.escrituras.map(r => ({ metodo: r.metodo, url: r.url, body: r.body ?? null, headers: r.headers ?? null }))
+    };
+  return createHash("sha256").update(canonico(contenido)).digest("hex");
+}
+
+function ttlConfigurado(): number {
+  const valor = Number(process.env.CONFIRMACION_TTL_SEG);
+  return Number.isInteger(valor) && valor > 0 ? valor : 300;
+}
+
+/**
+ * Datos escalares del payload para el resumen ("oEntity.T_Descripcion: Juan")
+ */
+function datosDelPayload(valor: any, prefijo = ""): string[] {
+  if (Array.isArray(valor)) return valor.flatMap(item => datosDelPayload(item, prefijo));
+  if (valor && typeof valor === "object") {
+    return Object.entries(valor).flatMap(([clave, hijo]) => datosDelPayload(hijo, prefijo ? `${prefijo}.${clave}` : clave));
+  }
+  return valor === undefined || valor === null || valor === "" ? [] : [`${prefijo}: ${valor}`];
+}
+
+/**
+ * "Vas a eliminar el paciente X": parte del mensaje del motor si lo hay ("✅ Voy a ..."),
+ * y agrega los valores que se enviarán
+ */
+export function resumirEscritura(
+  config: ConfiguracionAPI,
+  endpointId: number,
+  accion: AccionCRUD,
+  payload: Record<string, any>,
+  mensaje?: string
+): string {
+  const endpoint = obtenerEndpointPorId(config, endpointId);
+  const delMotor = (mensaje || "")
+    .replace(/^[^\p{L}\p{N}]+/u, "")
+    .replace(/^voy a /i, "Vas a ")
+    .trim();
+  const frase = /^vas a /i.test(delMotor)
+    ? delMotor
+    : `Vas a ${accion}: ${endpoint?.descripcion || endpoint?.nombreReferencia || `endpoint ${endpointId}`}`;
+
+  const datos = datosDelPayload(payload);
+  const detalle = datos.length > 0
+    ? ` (${datos.slice(0, 6).join(", ")}${datos.length > 6 ? `, y ${datos.length - 6} más` : ""})`
+    : "";
+  return `${frase}${detalle}`;
+}
+
+export function resumirPlan(plan: IAOutput, escrituras: string[]): string {
+  return `Vas a ejecutar el plan '${plan.intent.action}' con ${escrituras.length} escritura(s): ${escrituras.join(", ")}`;
+}
+
+/**
+ * Emite tokens firmados (HS256, CONFIRMACION_SECRET) que atan una escritura concreta a su
+ * hash, a la empresa y al usuario. La escritura queda guardada por jti y se borra al
+ * confirmarla: un token repetido ya no encuentra nada que ejecutar.
+ */
+export class ConfirmacionService {
+  private readonly clave: ClaveJWT;
+  private readonly pendientes: SessionStore<Pendiente>;
+
+  constructor(secreto: string | undefined = process.env.CONFIRMACION_SECRET, pendientes?: SessionStore<Pendiente>) {
+    if (!secreto) {
+      // Sin secreto compartido los tokens solo valen en este proceso
+      console.warn("-- CONFIRMACION_SECRET no definido: los tokens de confirmación no sobreviven un reinicio --");
+    }
+    this.clave = { algoritmo: "HS256", secreto: secreto ? Buffer.from(secreto) : randomBytes(32) };
+    this.pendientes = pendientes || crearSessionStore<Pendiente>("confirmaciones");
+  }
+
+  async emitir(titular: TitularConfirmacion, pendiente: AccionPendiente, resumen: string): Promise<Confirmacion> {
+    const jti = randomUUID();
+    const ttl = ttlConfigurado();
+    const ahora = Math.floor(Date.now() / 1000);
+    const hash = hashDe(pendiente);
+
+    await this.pendientes.guardar(jti, { ...pendiente, ...titular, hash, resumen }, ttl * 1000);
+
+    const token = firmarJWT({
+      jti,
+      aud: AUDIENCIA,
+      sub: titular.usuarioId ?? "",
+      empresa: titular.empresa,
+      tipo: pendiente.tipo,
+      ...(pendiente.tipo === "ENDPOINT"
+        ? { endpointId: pendiente.endpointId, metodo: pendiente.request.metodo, url: pendiente.request.url }
+        : {}),
+      hash,
+      iat: ahora,
+      exp: ahora + ttl
+    }, "HS256", this.clave.secreto!);
+
+    return { token, resumen, expiraEn: (ahora + ttl) * 1000 };
+  }
+
+  /**
+   * Valida el token y consume la escritura pendiente; solo una llamada puede consumirla
+   */
+  async confirmar(token: string, titular: TitularConfirmacion): Promise<ResultadoConfirmacion> {
+    let claims: Record<string, any>;
+    try {
+      claims = verificarJWT(token, this.clave, { audiencia: AUDIENCIA, toleranciaSeg: 0 });
+    } catch (error: any) {
+      return /expiró/.test(error.message)
+        ? { success: false, error: "CONFIRMACION_EXPIRADA", details: "La confirmación expiró; vuelve a solicitar la acción" }
+        : { success: false, error: "CONFIRMACION_INVALIDA", details: error.message };
+    }
+
+    if (claims.empresa !== titular.empresa || claims.sub !== (titular.usuarioId ?? "")) {
+      return { success: false, error: "CONFIRMACION_AJENA", details: "La confirmación se emitió para otro usuario o empresa" };
+    }
+
+    const pendiente = typeof claims.jti === "string" ? await this.pendientes.obtener(claims.jti) : null;
+    if (!pendiente) {
+      return { success: false, error: "CONFIRMACION_USADA", details: "La confirmación ya se usó o venció" };
+    }
+
+    // Lo guardado debe ser exactamente lo que el token firmó
+    const { hash, resumen, empresa, usuarioId, ...accion } = pendiente;
+    if (hash !== claims.hash || hashDe(accion) !== claims.hash || empresa !== claims.empresa) {
+      return { success: false, error: "CONFIRMACION_INVALIDA", details: "La acción pendiente no coincide con la confirmación" };
+    }
+
+    if (!(await this.pendientes.eliminar(claims.jti))) {
+      return { success: false, error: "CONFIRMACION_USADA", details: "La confirmación ya se usó o venció" };
+    }
+
+    return { success: true, pendiente: accion, resumen };
+  }
+}
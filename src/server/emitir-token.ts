@@ -0,0 +1,73 @@
+import dotenv from "dotenv";
+import { firmarJWT } from "./jwt";
+
+/**
+ * Emite un JWT de desarrollo firmado con la clave local.
+ *
+ *   npm run auth:token -- --sub <usuario> --empresa <empresa|*> [--roles a,b]
+ *                         [--modulos Clinico,Ventas] [--acciones leer,crear] [--horas 8]
+ *
+ * HS256 con AUTH_JWT_SECRET, o RS256 con la clave privada de AUTH_JWT_PRIVATE_KEY (PEM o ruta).
+ * Incluye iss/aud si AUTH_JWT_ISSUER / AUTH_JWT_AUDIENCE están definidos.
+ */
+
+dotenv.config({ quiet: true });
+
+function leerArgumentos() {
+  const args = process.argv.slice(2);
+  const valor = (nombre: string) => {
+    const indice = args.indexOf(`--${nombre}`);
+    return indice >= 0 ? args[indice + 1] : undefined;
+  };
+  const lista = (nombre: string) => (valor(nombre) || "").split(",").map(v => v.trim()).filter(Boolean);
+
+  return {
+    sub: valor("sub"),
+    empresa: valor("empresa"),
+    roles: lista("roles"),
+    modulos: lista("modulos"),
+    acciones: lista("acciones"),
+    horas: Number(valor("horas")) || 8
+  };
+}
+
+function main() {
+  const { sub, empresa, roles, modulos, acciones, horas } = leerArgumentos();
+  if (!sub || !empresa) {
+    console.error("Uso: npm run auth:token -- --sub <usuario> --empresa <empresa|*> [--roles a,b] [--modulos m] [--acciones a] [--horas n]");
+    process.exit(1);
+  }
+
+  const ahora = Math.floor(Date.now() / 1000);
+  const claims = {
+    sub,
+    empresa,
+    ...(roles.length > 0 ? { roles } : {}),
+    ...(modulos.length > 0 || acciones.length > 0 ? { permisos: { modulos, acciones } } : {}),
+    ...(process.env.AUTH_JWT_ISSUER ? { iss: process.env.AUTH_JWT_ISSUER } : {}),
+    ...(process.env.AUTH_JWT_AUDIENCE ? { aud: process.env.AUTH_JWT_AUDIENCE } : {}),
+    iat: ahora,
+    exp: ahora + Math.round(horas * 3600)
+  };
+
+  try {
+    const token = process.env.AUTH_JWT_PRIVATE_KEY
+      ? firmarJWT(claims, "RS256", process.env.AUTH_JWT_PRIVATE_KEY)
+      : process.env.AUTH_JWT_SECRET
+        ? firmarJWT(claims, "HS256", process.env.AUTH_JWT_SECRET)
+        : null;
+
+    if (!token) {
+      console.error("✖ Define AUTH_JWT_SECRET o AUTH_JWT_PRIVATE_KEY para firmar el token");
+      process.exit(1);
+    }
+
+    process.stdout.write(token + "\n");
+    process.exit(0);
+  } catch (error: any) {
+    console.error(`✖ ${error.message}`);
+    process.exit(1);
+  }
+}
+
+main();
@@ -1,6 +1,11 @@
 import Fastify from "fastify";
 import dotenv from "dotenv";
 import { iaRoutes } from "./routes/ia.routes";
+import { erpRoutes } from "./routes/erp.routes";
+import { adminConfigRoutes } from "./routes/admin-config.routes";
+import { auditoriaRoutes } from "./routes/auditoria.routes";
+import { configuracionRegistry } from "../erp/configs/config-registry";
+import { verificarConfiguracionAuth } from "./auth";
 import cors from "@fastify/cors";
 
 dotenv.config();
@@ -9,9 +14,12 @@ const server = Fastify({
   logger: true
 });
 
-// Habilitar CORS para cualquier origen (o reemplaza con tu dominio seguro)
+// CORS solo para los orígenes de CORS_ORIGENES (separados por coma); sin la variable no se admite ninguno
+const origenesCors = (process.env.CORS_ORIGENES || "").split(",").map(o => o.trim()).filter(Boolean);
 server.register(cors, {
-  origin: "*" // o por ejemplo: "http://localhost:8098"
+  origin: origenesCors.length > 0 ? origenesCors : false,
+  allowedHeaders: ["Authorization", "Content-Type", "If-Match", "x-erp-empresa"],
+  exposedHeaders: ["ETag"]
 });
 
 const PORT = Number(process.env.PORT) || 8085;
@@ -20,8 +28,41 @@ server.register(iaRoutes, {
   prefix: "/api/v1"
 });
 
+server.register(erpRoutes, {
+  prefix: "/api/v1"
+});
+
+server.register(adminConfigRoutes, {
+  prefix: "/api/v1"
+});
+
+server.register(auditoriaRoutes, {
+  prefix: "/api/v1"
+});
+
+/**
+ * Valida las configuraciones de empresa antes de aceptar tráfico: un archivo con errores
+ * impide arrancar (el detalle con JSONPath ya lo imprimió el registro al leerlo)
+ */
+function verificarConfiguraciones(): void {
+  const diagnosticos = configuracionRegistry.diagnosticos();
+  const invalidas = diagnosticos.filter(d => d.errores.length > 0);
+
+  if (invalidas.length > 0) {
+    throw new Error(`Configuraciones inválidas: ${invalidas.map(d => d.ruta).join(", ")} (npm run config:validate)`);
+  }
+  if (diagnosticos.length === 0) {
+    throw new Error("No se encontró ninguna configuración de empresa");
+  }
+
+  console.log(`-- ${diagnosticos.length} configuraciones válidas: ${configuracionRegistry.listarEmpresas().join(", ")} --`);
+}
+
 const start = async () => {
   try {
+    verificarConfiguraciones();
+    verificarConfiguracionAuth();
+
     await server.listen({
       port: PORT,
       host: "0.0.0.0"
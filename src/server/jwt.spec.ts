@@ -0,0 +1,79 @@
+import { generateKeyPairSync } from "crypto";
+import { ClaveJWT, firmarJWT, verificarJWT } from "./jwt";
+
+const SECRETO = "secreto-de-prueba";
+const hs256: ClaveJWT = { algoritmo: "HS256", secreto: Buffer.from(SECRETO) };
+
+function ahora(): number {
+  return Math.floor(Date.now() / 1000);
+}
+
+function base64url(valor: unknown): string {
+  return Buffer.from(JSON.stringify(valor)).toString("base64url");
+}
+
+describe("verificarJWT", () => {
+  it("devuelve los claims de un token HS256 vigente", () => {
+    const token = firmarJWT({ sub: "u1", empresa: "demo", exp: ahora() + 600 }, "HS256", SECRETO);
+
+    expect(verificarJWT(token, hs256)).toMatchObject({ sub: "u1", empresa: "demo" });
+  });
+
+  it("rechaza una firma con otro secreto", () => {
+    const token = firmarJWT({ sub: "u1", exp: ahora() + 600 }, "HS256", "otro-secreto");
+
+    expect(() => verificarJWT(token, hs256)).toThrow("Firma del token inválida");
+  });
+
+  describe("el algoritmo lo fija la clave, no el header", () => {
+    it("rechaza alg none", () => {
+      const token = `${base64url({ alg: "none" })}.${base64url({ sub: "u1", exp: ahora() + 600 })}.`;
+
+      expect(() => verificarJWT(token, hs256)).toThrow("Algoritmo none no admitido; se espera HS256");
+    });
+
+    it("rechaza un HS256 firmado con la clave pública cuando se espera RS256", () => {
+      const { publicKey } = generateKeyPairSync("rsa", { modulusLength: 2048 });
+      const pem = publicKey.export({ type: "spki", format: "pem" });
+      const token = firmarJWT({ sub: "u1", exp: ahora() + 600 }, "HS256", pem);
+
+      expect(() => verificarJWT(token, { algoritmo: "RS256", clavePublica: publicKey })).toThrow("Algoritmo HS256 no admitido");
+    });
+
+    it("acepta RS256 con la clave pública correspondiente", () => {
+      const { publicKey, privateKey } = generateKeyPairSync("rsa", { modulusLength: 2048 });
+      const token = firmarJWT({ sub: "u1", exp: ahora() + 600 }, "RS256", privateKey);
+
+      expect(verificarJWT(token, { algoritmo: "RS256", clavePublica: publicKey }).sub).toBe("u1");
+    });
+  });
+
+  describe("vigencia", () => {
+    it("exige exp", () => {
+      const token = firmarJWT({ sub: "u1" }, "HS256", SECRETO);
+
+      expect(() => verificarJWT(token, hs256)).toThrow("El token no tiene exp");
+    });
+
+    it("rechaza un token expirado fuera de la tolerancia", () => {
+      const token = firmarJWT({ sub: "u1", exp: ahora() - 60 }, "HS256", SECRETO);
+
+      expect(() => verificarJWT(token, hs256, { toleranciaSeg: 30 })).toThrow("El token expiró");
+      expect(verificarJWT(token, hs256, { toleranciaSeg: 120 }).sub).toBe("u1");
+    });
+
+    it("rechaza un token que aún no es válido (nbf)", () => {
+      const token = firmarJWT({ sub: "u1", nbf: ahora() + 600, exp: ahora() + 1200 }, "HS256", SECRETO);
+
+      expect(() => verificarJWT(token, hs256)).toThrow("El token aún no es válido (nbf)");
+    });
+  });
+
+  it("comprueba emisor y audiencia si se configuran", () => {
+    const token = firmarJWT({ sub: "u1", iss: "sso", aud: ["erp", "otra"], exp: ahora() + 600 }, "HS256", SECRETO);
+
+    expect(verificarJWT(token, hs256, { emisor: "sso", audiencia: "erp" }).sub).toBe("u1");
+    expect(() => verificarJWT(token, hs256, { emisor: "otro" })).toThrow("Emisor sso no admitido");
+    expect(() => verificarJWT(token, hs256, { audiencia: "admin" })).toThrow("El token no es para esta audiencia");
+  });
+});
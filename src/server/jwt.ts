@@ -0,0 +1,121 @@
+import * as fs from "fs";
+import { KeyObject, createHmac, createPrivateKey, createPublicKey, sign, timingSafeEqual, verify } from "crypto";
+
+/* ============================================================
+   JWT HS256 / RS256 con node:crypto
+   ============================================================ */
+
+export type AlgoritmoJWT = "HS256" | "RS256";
+
+export interface ClaveJWT {
+  algoritmo: AlgoritmoJWT;
+  secreto?: Buffer;          // HS256
+  clavePublica?: KeyObject;  // RS256
+}
+
+export interface OpcionesVerificacion {
+  emisor?: string;           // iss esperado
+  audiencia?: string;        // aud esperado
+  toleranciaSeg?: number;    // desfase de reloj admitido en exp/nbf
+}
+
+export type ClaimsJWT = Record<string, any>;
+
+function base64url(datos: Buffer | string): string {
+  return Buffer.from(datos).toString("base64url");
+}
+
+/**
+ * PEM en la variable o ruta a un archivo .pem
+ */
+function leerPem(valor: string): string {
+  return valor.includes("-----BEGIN") ? valor.replace(/\\n/g, "\n") : fs.readFileSync(valor, "utf-8");
+}
+
+/**
+ * AUTH_JWT_PUBLIC_KEY (RS256) tiene prioridad sobre AUTH_JWT_SECRET (HS256); null si no hay ninguna
+ */
+export function claveDesdeEntorno(): ClaveJWT | null {
+  if (process.env.AUTH_JWT_PUBLIC_KEY) {
+    return { algoritmo: "RS256", clavePublica: createPublicKey(leerPem(process.env.AUTH_JWT_PUBLIC_KEY)) };
+  }
+  if (process.env.AUTH_JWT_SECRET) {
+    return { algoritmo: "HS256", secreto: Buffer.from(process.env.AUTH_JWT_SECRET) };
+  }
+  return null;
+}
+
+export function opcionesDesdeEntorno(): OpcionesVerificacion {
+  return {
+    emisor: process.env.AUTH_JWT_ISSUER || undefined,
+    audiencia: process.env.AUTH_JWT_AUDIENCE || undefined,
+    toleranciaSeg: Number(process.env.AUTH_JWT_TOLERANCIA_SEG) || 30
+  };
+}
+
+function decodificarParte(parte: string, nombre: string): any {
+  try {
+    return JSON.parse(Buffer.from(parte, "base64url").toString("utf-8"));
+  } catch {
+    throw new Error(`${nombre} del token no es JSON base64url`);
+  }
+}
+
+/**
+ * Verifica firma y vigencia y devuelve los claims. El algoritmo lo fija la clave configurada,
+ * nunca el header del token (evita "none" y la confusión HS256/RS256).
+ */
+export function verificarJWT(token: string, clave: ClaveJWT, opciones: OpcionesVerificacion = {}): ClaimsJWT {
+  const partes = token.split(".");
+  if (partes.length !== 3) throw new Error("El token no tiene formato JWT");
+
+  const [headerB64, payloadB64, firmaB64] = partes;
+  const header = decodificarParte(headerB64, "El header");
+  if (header.alg !== clave.algoritmo) {
+    throw new Error(`Algoritmo ${header.alg} no admitido; se espera ${clave.algoritmo}`);
+  }
+
+  const datos = Buffer.from(`${headerB64}.${payloadB64}`);
+  const firma = Buffer.from(firmaB64, "base64url");
+
+  const valida = clave.algoritmo === "HS256"
+    ? (() => {
+      const esperada = createHmac("sha256", clave.secreto!).update(datos).digest();
+      return esperada.length === firma.length && timingSafeEqual(esperada, firma);
+    })()
+    : verify("RSA-SHA256", datos, clave.clavePublica!, firma);
+  if (!valida) throw new Error("Firma del token inválida");
+
+  const claims: ClaimsJWT = decodificarParte(payloadB64, "El payload");
+  const ahora = Math.floor(Date.now() / 1000);
+  const tolerancia = opciones.toleranciaSeg ?? 30;
+
+  if (typeof claims.exp !== "number") throw new Error("El token no tiene exp");
+  if (ahora - tolerancia >= claims.exp) throw new Error("El token expiró");
+  if (typeof claims.nbf === "number" && ahora + tolerancia < claims.nbf) throw new Error("El token aún no es válido (nbf)");
+
+  if (opciones.emisor && claims.iss !== opciones.emisor) {
+    throw new Error(`Emisor ${claims.iss ?? "(sin iss)"} no admitido`);
+  }
+  if (opciones.audiencia) {
+    const audiencias = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+    if (!audiencias.includes(opciones.audiencia)) throw new Error("El token no es para esta audiencia");
+  }
+
+  return claims;
+}
+
+/**
+ * Firma un token (para emitir tokens de desarrollo y en pruebas). RS256 requiere la clave privada.
+ */
+export function firmarJWT(claims: ClaimsJWT, algoritmo: AlgoritmoJWT, clave: string | Buffer | KeyObject): string {
+  const header = base64url(JSON.stringify({ alg: algoritmo, typ: "JWT" }));
+  const payload = base64url(JSON.stringify(claims));
+  const datos = `${header}.${payload}`;
+
+  const firma = algoritmo === "HS256"
+    ? createHmac("sha256", clave as string | Buffer).update(datos).digest()
+    : sign("RSA-SHA256", Buffer.from(datos), clave instanceof KeyObject ? clave : createPrivateKey(leerPem(String(clave))));
+
+  return `${datos}.${base64url(firma)}`;
+}
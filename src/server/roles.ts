@@ -0,0 +1,98 @@
+import * as fs from "fs";
+import { z } from "zod";
+import { COMODIN, Permisos, combinarPermisos } from "../erp/permisos";
+import { PoliticaAcceso, combinarPoliticas } from "../erp/politicas";
+
+const ReglasCamposSchema = z.strictObject({
+  denegados: z.array(z.string()).optional(),
+  ocultos: z.array(z.string()).optional(),
+  fijos: z.record(z.string(), z.any()).optional()
+});
+
+const DefinicionRolSchema = z.strictObject({
+  modulos: z.array(z.string()),
+  acciones: z.array(z.string()),
+  politica: ReglasCamposSchema.extend({
+    endpointsPermitidos: z.array(z.number().int()).optional(),
+    endpointsDenegados: z.array(z.number().int()).optional(),
+    endpoints: z.record(z.string().regex(/^\d+$/, "la clave debe ser el id del endpoint"), ReglasCamposSchema).optional()
+  }).optional()
+});
+
+const DefinicionRolesSchema = z.record(z.string(), z.record(z.string(), DefinicionRolSchema));
+
+/**
+ * Roles por empresa. La clave "*" define roles comunes a todas las empresas; `politica`
+ * limita endpoints y campos dentro de los módulos permitidos (ver PoliticaAcceso):
+ *
+ *   {
+ *     "*":    { "auditor":  { "modulos": ["*"], "acciones": ["leer"] } },
+ *     "demo": {
+ *       "recepcion": {
+ *         "modulos": ["Clinico"], "acciones": ["leer"],
+ *         "politica": {
+ *           "endpointsDenegados": [9],
+ *           "ocultos": ["str_telefono"],
+ *           "endpoints": { "1": { "fijos": { "oEntity.str_codigo_regla": "R01" } } }
+ *         }
+ *       }
+ *     }
+ *   }
+ */
+export type DefinicionRol = Permisos & { politica?: PoliticaAcceso };
+export type DefinicionRoles = Record<string, Record<string, DefinicionRol>>;
+
+/**
+ * Almacén local de roles (AUTH_ROLES_PATH). Se relee cuando cambia el archivo;
+ * sin archivo los permisos salen solo de los claims del token.
+ */
+export class RoleStore {
+  private definicion: DefinicionRoles = {};
+  private mtimeMs = -1;
+
+  // Sin ruta se lee AUTH_ROLES_PATH en cada consulta (dotenv se carga después de los imports)
+  constructor(private readonly ruta?: string) {}
+
+  permisosDeRoles(empresa: string, roles: string[]): Permisos {
+    return combinarPermisos(...this.definicionesDeRoles(empresa, roles));
+  }
+
+  /**
+   * Política combinada de los roles; undefined si ninguno define política
+   */
+  politicaDeRoles(empresa: string, roles: string[]): PoliticaAcceso | undefined {
+    return combinarPoliticas(...this.definicionesDeRoles(empresa, roles).map(rol => rol?.politica));
+  }
+
+  private definicionesDeRoles(empresa: string, roles: string[]): (DefinicionRol | undefined)[] {
+    const definicion = this.cargar();
+    const clave = Object.keys(definicion).find(e => e.toLowerCase() === empresa.toLowerCase());
+    const deEmpresa = clave ? definicion[clave] : {};
+    const comunes = definicion[COMODIN] || {};
+
+    return roles.flatMap(rol => [comunes[rol], deEmpresa[rol]]);
+  }
+
+  private cargar(): DefinicionRoles {
+    const ruta = this.ruta ?? process.env.AUTH_ROLES_PATH;
+    if (!ruta || !fs.existsSync(ruta)) return {};
+
+    const mtimeMs = fs.statSync(ruta).mtimeMs;
+    if (mtimeMs !== this.mtimeMs) {
+      try {
+        const parsed = DefinicionRolesSchema.safeParse(JSON.parse(fs.readFileSync(ruta, "utf-8")));
+        if (!parsed.success) {
+          throw new Error(parsed.error.issues.map(i => `${i.path.join(".")}: ${i.message}`).join("; "));
+        }
+        this.definicion = parsed.data;
+      } catch (error: any) {
+        // Un archivo roto no amplía permisos: se conserva la última versión válida
+        console.error(`Error leyendo roles ${ruta}: ${error.message}`);
+      }
+      this.mtimeMs = mtimeMs;
+    }
+    return this.definicion;
+  }
+}
+
+export const roleStore = new RoleStore();
@@ -0,0 +1,177 @@
+import { FastifyInstance, FastifyReply, FastifyRequest } from "fastify";
+import { z } from "zod";
+import { ConfigAdminService, ErrorAdmin, ResultadoAdmin } from "../../erp/config-admin.service";
+import { EndpointSchema } from "../../erp/configs/config-validator";
+import { verificarAdmin } from "../auth";
+import { resolverEmpresa, verificarEmpresa } from "../tenant";
+
+const AccionSchema = z.enum(["crear", "leer", "actualizar", "eliminar"]);
+
+const ModuloBodySchema = z.object({
+  nombre: z.string().trim().min(1)
+});
+
+// Forma del endpoint; las referencias entre endpoints se validan con el resto de la configuración
+const EndpointDefinicionSchema = EndpointSchema.partial({ id: true });
+
+const CrearEndpointBodySchema = z.object({
+  accion: AccionSchema,
+  endpoint: EndpointDefinicionSchema
+});
+
+const ActualizarEndpointBodySchema = z.object({
+  endpoint: EndpointDefinicionSchema,
+  modulo: z.string().trim().min(1).optional(),
+  accion: AccionSchema.optional()
+});
+
+const ESTADO_POR_ERROR: Record<ErrorAdmin, number> = {
+  EMPRESA_NO_CONFIGURADA: 404,
+  FORMATO_LEGACY: 409,
+  ARCHIVO_INVALIDO: 409,
+  CONFLICTO_VERSION: 412,
+  CONFIGURACION_INVALIDA: 422,
+  MODULO_NO_ENCONTRADO: 404,
+  MODULO_DUPLICADO: 409,
+  ENDPOINT_NO_ENCONTRADO: 404
+};
+
+/**
+ * If-Match: "3" (o 3, o W/"3"). undefined si no viene o no es una versión
+ */
+function versionEsperada(request: FastifyRequest): number | undefined {
+  const header = request.headers["if-match"];
+  if (header === undefined) return undefined;
+  const match = String(header).trim().match(/^(?:W\/)?"?(\d+)"?$/);
+  return match ? Number(match[1]) : undefined;
+}
+
+function ifMatchValido(request: FastifyRequest): boolean {
+  return request.headers["if-match"] === undefined || versionEsperada(request) !== undefined;
+}
+
+function responder<T>(reply: FastifyReply, resultado: ResultadoAdmin<T>, estadoOk = 200) {
+  if (!resultado.success) {
+    return reply.status(ESTADO_POR_ERROR[resultado.error]).send(resultado);
+  }
+  return reply.header("etag", `"${resultado.version}"`).status(estadoOk).send(resultado);
+}
+
+function peticionInvalida(reply: FastifyReply, details: unknown) {
+  return reply.status(400).send({
+    success: false,
+    error: "PETICION_INVALIDA",
+    details
+  });
+}
+
+/**
+ * Administración de módulos y endpoints de la empresa (x-erp-empresa) sin reiniciar.
+ * Las escrituras aceptan If-Match con la versión leída y devuelven la nueva en ETag.
+ */
+export async function adminConfigRoutes(app: FastifyInstance) {
+  const admin = new ConfigAdminService();
+
+  app.addHook("preHandler", verificarAdmin);
+
+  // Un archivo que el registro rechazó no es una empresa inexistente: se responde con sus errores
+  app.addHook("preHandler", async (request, reply) => {
+    const empresa = resolverEmpresa(request);
+    const rechazo = empresa ? admin.archivoRechazado(empresa) : null;
+    if (rechazo) return responder(reply, rechazo);
+  });
+
+  app.addHook("preHandler", verificarEmpresa);
+
+  app.addHook("preHandler", async (request, reply) => {
+    if (request.method !== "GET" && !ifMatchValido(request)) {
+      return peticionInvalida(reply, "If-Match debe ser la versión numérica de la configuración");
+    }
+  });
+
+  // Configuración completa con su versión
+  app.get("/admin/config", async (request, reply) => {
+    return responder(reply, admin.leer(resolverEmpresa(request)!));
+  });
+
+  app.get("/admin/config/modulos", async (request, reply) => {
+    return responder(reply, admin.listarModulos(resolverEmpresa(request)!));
+  });
+
+  app.post("/admin/config/modulos", async (request, reply) => {
+    const parsed = ModuloBodySchema.safeParse(request.body);
+    if (!parsed.success) return peticionInvalida(reply, parsed.error.issues);
+
+    return responder(
+      reply,
+      admin.crearModulo(resolverEmpresa(request)!, parsed.data.nombre, versionEsperada(request)),
+      201
+    );
+  });
+
+  // Renombra el módulo
+  app.put("/admin/config/modulos/:modulo", async (request, reply) => {
+    const { modulo } = request.params as { modulo: string };
+    const parsed = ModuloBodySchema.safeParse(request.body);
+    if (!parsed.success) return peticionInvalida(reply, parsed.error.issues);
+
+    return responder(
+      reply,
+      admin.renombrarModulo(resolverEmpresa(request)!, modulo, parsed.data.nombre, versionEsperada(request))
+    );
+  });
+
+  // Borra el módulo y todos sus endpoints
+  app.delete("/admin/config/modulos/:modulo", async (request, reply) => {
+    const { modulo } = request.params as { modulo: string };
+    return responder(reply, admin.eliminarModulo(resolverEmpresa(request)!, modulo, versionEsperada(request)));
+  });
+
+  app.get("/admin/config/modulos/:modulo/endpoints", async (request, reply) => {
+    const { modulo } = request.params as { modulo: string };
+    return responder(reply, admin.listarEndpoints(resolverEmpresa(request)!, modulo));
+  });
+
+  // Alta de endpoint; sin endpoint.id se asigna el siguiente libre
+  app.post("/admin/config/modulos/:modulo/endpoints", async (request, reply) => {
+    const { modulo } = request.params as { modulo: string };
+    const parsed = CrearEndpointBodySchema.safeParse(request.body);
+    if (!parsed.success) return peticionInvalida(reply, parsed.error.issues);
+
+    const { accion, endpoint } = parsed.data;
+    return responder(
+      reply,
+      admin.crearEndpoint(resolverEmpresa(request)!, modulo, accion, endpoint, versionEsperada(request)),
+      201
+    );
+  });
+
+  app.get("/admin/config/endpoints/:id", async (request, reply) => {
+    const id = Number((request.params as { id: string }).id);
+    if (!Number.isInteger(id)) return peticionInvalida(reply, "El id del endpoint debe ser un entero");
+
+    return responder(reply, admin.obtenerEndpoint(resolverEmpresa(request)!, id));
+  });
+
+  // Reemplaza la definición (conserva el id); modulo/accion lo mueven
+  app.put("/admin/config/endpoints/:id", async (request, reply) => {
+    const id = Number((request.params as { id: string }).id);
+    if (!Number.isInteger(id)) return peticionInvalida(reply, "El id del endpoint debe ser un entero");
+
+    const parsed = ActualizarEndpointBodySchema.safeParse(request.body);
+    if (!parsed.success) return peticionInvalida(reply, parsed.error.issues);
+
+    const { endpoint, modulo, accion } = parsed.data;
+    return responder(
+      reply,
+      admin.actualizarEndpoint(resolverEmpresa(request)!, id, { endpoint, modulo, accion }, versionEsperada(request))
+    );
+  });
+
+  app.delete("/admin/config/endpoints/:id", async (request, reply) => {
+    const id = Number((request.params as { id: string }).id);
+    if (!Number.isInteger(id)) return peticionInvalida(reply, "El id del endpoint debe ser un entero");
+
+    return responder(reply, admin.eliminarEndpoint(resolverEmpresa(request)!, id, versionEsperada(request)));
+  });
+}
@@ -0,0 +1,49 @@
+import { FastifyInstance } from "fastify";
+import { z } from "zod";
+import { auditLog } from "../auditoria";
+import { verificarAdmin } from "../auth";
+import { resolverEmpresa, verificarEmpresa } from "../tenant";
+
+const ConsultaAuditoriaSchema = z.object({
+  usuario: z.string().trim().min(1).optional(),
+  modulo: z.string().trim().min(1).optional(),
+  tipo: z.enum(["INTERPRETACION", "EJECUCION", "CONFIRMACION", "PLAN"]).optional(),
+  desde: z.coerce.date().optional(),
+  hasta: z.coerce.date().optional(),
+  limite: z.coerce.number().int().min(1).max(1000).default(100)
+});
+
+/**
+ * Consulta del registro de auditoría de la empresa (x-erp-empresa); solo administradores
+ */
+export async function auditoriaRoutes(app: FastifyInstance) {
+  app.addHook("preHandler", verificarAdmin);
+  app.addHook("preHandler", verificarEmpresa);
+
+  // ?usuario=&modulo=&tipo=&desde=2025-03-01&hasta=2025-03-31T23:59:59Z&limite=100 (más recientes primero)
+  app.get("/admin/auditoria", async (request, reply) => {
+    const parsed = ConsultaAuditoriaSchema.safeParse(request.query);
+    if (!parsed.success) {
+      return reply.status(400).send({
+        success: false,
+        error: "PETICION_INVALIDA",
+        details: parsed.error.issues
+      });
+    }
+
+    const { usuario, ...filtro } = parsed.data;
+    const entradas = await auditLog.consultar({
+      ...filtro,
+      empresa: resolverEmpresa(request),
+      usuarioId: usuario
+    });
+
+    return reply.send({ success: true, total: entradas.length, entradas });
+  });
+
+  // Recorre la cadena de hashes del archivo completo
+  app.get("/admin/auditoria/verificar", async (request, reply) => {
+    const verificacion = await auditLog.verificar();
+    return reply.status(verificacion.valida ? 200 : 409).send({ success: verificacion.valida, ...verificacion });
+  });
+}
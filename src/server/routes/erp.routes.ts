@@ -0,0 +1,15 @@
+import { FastifyInstance } from "fastify";
+import { cargarConfiguracion } from "../../erp/configs/api-config";
+import { generarOpenAPI } from "../../erp/configs/openapi";
+import { resolverEmpresa, verificarEmpresa } from "../tenant";
+import { autenticar } from "../auth";
+
+export async function erpRoutes(app: FastifyInstance) {
+  app.addHook("preHandler", autenticar);
+  app.addHook("preHandler", verificarEmpresa);
+
+  // Catálogo de endpoints de la empresa (x-erp-empresa) en OpenAPI 3.1
+  app.get("/erp/openapi.json", async (request, reply) => {
+    return reply.send(generarOpenAPI(cargarConfiguracion(resolverEmpresa(request))));
+  });
+}
@@ -1,44 +1,497 @@
-import { FastifyInstance } from "fastify";
-import { DeepSeekRawService } from "../../ia/services/deepseek/deepseek-raw.service";
+import { isDeepStrictEqual } from "util";
+import { FastifyInstance, FastifyRequest } from "fastify";
+import { z } from "zod";
+import { IAInterpreterService } from "../../ia/services/ia-interpreter.service";
+import { IAOutputService } from "../../ia/services/ia-output.service";
+import { receiveMessage } from "../../ia/services/ia-receiver.service";
+import { IAMotor } from "../../ia/services/ia-motor-factory";
+import { obtenerConversationStore } from "../../ia/services/storage/conversation-store.factory";
+import { claveConversacion } from "../../ia/services/storage/conversation-store";
+import { ERPExecutorService, ResultadoEjecucion } from "../../erp/erp-executor.service";
+import { PlanEngineService, ResultadoPlan, mismasEscrituras } from "../../ia/services/plan/plan-engine.service";
+import { ExecutionModeSchema } from "../../types/ia-output.schema";
+import {
+  ConfiguracionAPI,
+  cargarConfiguracion,
+  obtenerAccionDeEndpoint,
+  obtenerModuloDeEndpoint
+} from "../../erp/configs/api-config";
+import { resolverEmpresa, verificarEmpresa } from "../tenant";
+import { autenticar } from "../auth";
+import { describirPermisoDenegado, verificarPermisoEndpoint } from "../../erp/permisos";
+import { aplicarPoliticaPayload, describirCamposDenegados, filtrarRespuesta } from "../../erp/politicas";
+import {
+  Confirmacion,
+  ConfirmacionService,
+  ErrorConfirmacion,
+  TitularConfirmacion,
+  resumirEscritura,
+  resumirPlan
+} from "../confirmaciones";
+import { DatosAuditoria, auditLog, llamadaERP } from "../auditoria";
+import { TrazaIA } from "../../ia/schemas/ia-response.schema";
+
+const ExecuteBodySchema = z.object({
+  endpointId: z.number().int(),
+  payload: z.record(z.string(), z.any()),
+  modo: ExecutionModeSchema.default("PREVIEW")
+});
+
+const ConfirmBodySchema = z.object({
+  token: z.string().min(1)
+});
+
+/**
+ * Lo que se audita de un plan: el resultado de cada paso sin sus datos
+ */
+function resumirResultadoPlan(resultado: ResultadoPlan) {
+  return {
+    success: resultado.success,
+    executionMode: resultado.executionMode,
+    pasos: resultado.pasos.map(({ id, type, ejecutado, duracionMs }) => ({ id, type, ejecutado, duracionMs })),
+    errores: resultado.errores
+  };
+}
+
+const STATUS_CONFIRMACION: Record<ErrorConfirmacion, number> = {
+  CONFIRMACION_INVALIDA: 400,
+  CONFIRMACION_EXPIRADA: 410,
+  CONFIRMACION_USADA: 409,
+  CONFIRMACION_AJENA: 403,
+  CONFIRMACION_DESACTUALIZADA: 409
+};
+
+function titularDe(request: FastifyRequest): TitularConfirmacion {
+  return { empresa: resolverEmpresa(request)!, usuarioId: request.usuario?.id };
+}
+
+/**
+ * Registra la operación en la auditoría; un fallo del registro se loguea pero no corta la respuesta
+ */
+async function auditar(request: FastifyRequest, datos: Omit<DatosAuditoria, "empresa" | "usuarioId">): Promise<void> {
+  try {
+    await auditLog.registrar({ empresa: resolverEmpresa(request)!, usuarioId: request.usuario?.id, ...datos });
+  } catch (error: any) {
+    request.log.error({ err: error }, "No se pudo registrar la entrada de auditoría");
+  }
+}
 
 export async function iaRoutes(app: FastifyInstance) {
-  const deepseekService = new DeepSeekRawService();
+  const interpreterService = new IAInterpreterService((process.env.IA_MOTOR as IAMotor | undefined) || "DEEPSEEK_RAW");
+  const outputService = new IAOutputService();
+  const executor = new ERPExecutorService();
+  const planEngine = new PlanEngineService(executor);
+  const confirmaciones = new ConfirmacionService();
+
+  /**
+   * Token para confirmar una escritura ya previsualizada (nunca se ejecuta sin /ia/confirm)
+   */
+  const emitirConfirmacion = (
+    request: FastifyRequest,
+    config: ConfiguracionAPI,
+    endpointId: number,
+    ejecucion: ResultadoEjecucion,
+    mensaje?: string
+  ): Promise<Confirmacion> =>
+    confirmaciones.emitir(
+      titularDe(request),
+      { tipo: "ENDPOINT", endpointId, accion: ejecucion.accion, request: ejecucion.request },
+      resumirEscritura(config, endpointId, ejecucion.accion, ejecucion.request.body || {}, mensaje)
+    );
+
+  // Identidad y tenant antes de cualquier ruta de IA
+  app.addHook("preHandler", autenticar);
+  app.addHook("preHandler", verificarEmpresa);
 
   app.post("/ia/interpret", async (request, reply) => {
+    const empresa = resolverEmpresa(request)!;
+
+    // La empresa resuelta y, con usuario autenticado, su id, permisos y política mandan en el
+    // contexto: lo que el cliente ponga en context.permisos o context.politica se ignora
+    const body = request.body as any;
+    const usuario = request.usuario;
+    const contexto = body && typeof body === "object" && body.context && typeof body.context === "object"
+      ? body.context
+      : usuario ? {} : undefined;
+    const recibido = await receiveMessage(
+      contexto
+        ? {
+          ...body,
+          context: {
+            ...contexto,
+            erp: empresa,
+            ...(usuario ? { usuarioId: usuario.id, permisos: usuario.permisos, politica: usuario.politica } : {})
+          }
+        }
+        : body
+    );
+    if (!recibido.success || !recibido.payload) {
+      return reply.status(400).send({
+        success: false,
+        error: recibido.error,
+        details: recibido.details
+      });
+    }
+
+    const { sessionId, motor, ...input } = recibido.payload;
+    const motorSolicitado = motor || (process.env.IA_MOTOR as IAMotor | undefined) || "DEEPSEEK_RAW";
+    const traza: TrazaIA = { llamadas: [] };
+    const inicio = Date.now();
+
     try {
-      // Tomamos el mensaje directamente del body
-      const message = (request.body as any)?.message;
-      if (!message || typeof message !== "string") {
-        return reply.status(400).send({
-          success: false,
-          error: "INVALID_MESSAGE",
-          details: "El body debe tener un campo 'message' de tipo string"
+      const interpretacion = await interpreterService.interpret(input, sessionId, motorSolicitado, traza);
+      const output = outputService.generate(interpretacion, input.context);
+
+      // Las lecturas se ejecutan de inmediato; las escrituras quedan en PREVIEW con su confirmación
+      let ejecucion: ResultadoEjecucion | undefined;
+      let confirmacion: Confirmacion | undefined;
+      if (output.success && "endpointId" in output && output.endpointId !== undefined) {
+        try {
+          const config = cargarConfiguracion(empresa);
+          ejecucion = await executor.ejecutarEndpoint(config, output.endpointId, output.payload || {}, "PREVIEW");
+          ejecucion.data = filtrarRespuesta(usuario?.politica, output.endpointId, ejecucion.data);
+
+          if (ejecucion.accion !== "leer") {
+            confirmacion = await emitirConfirmacion(request, config, output.endpointId, ejecucion, output.mensaje);
+          }
+        } catch (error: any) {
+          request.log.warn({ err: error }, "No se pudo previsualizar la acción interpretada");
+        }
+      }
+
+      await auditar(request, {
+        tipo: "INTERPRETACION",
+        sessionId: "sessionId" in output ? output.sessionId : sessionId,
+        modulo: "module" in output ? output.module : traza.respuesta?.modulo,
+        endpointId: "endpointId" in output ? output.endpointId : undefined,
+        mensaje: input.message,
+        motor: ("motorUsado" in output && output.motorUsado) || motorSolicitado,
+        llamadas: traza.llamadas,
+        respuesta: traza.respuesta,
+        resultado: output,
+        erp: ejecucion ? [llamadaERP(ejecucion)] : undefined,
+        duracionMs: Date.now() - inicio
+      });
+
+      // Los permisos denegados llegan como { success: false, error }
+      return reply.status("error" in output ? 403 : 200).send({
+        ...output,
+        ejecucion,
+        ...(confirmacion ? { confirmacion } : {})
+      });
+    } catch (error: any) {
+      const fallo = {
+        success: false,
+        error: "INTERPRETACION_FALLIDA",
+        details: error.message
+      };
+      await auditar(request, {
+        tipo: "INTERPRETACION",
+        sessionId,
+        mensaje: input.message,
+        motor: motorSolicitado,
+        llamadas: traza.llamadas,
+        respuesta: traza.respuesta,
+        resultado: fallo,
+        duracionMs: Date.now() - inicio
+      });
+      return reply.status(422).send(fallo);
+    }
+  });
+
+  // Ejecuta lecturas o previsualiza escrituras; una escritura solo se ejecuta con /ia/confirm
+  app.post("/ia/execute", async (request, reply) => {
+    const parsed = ExecuteBodySchema.safeParse(request.body);
+    if (!parsed.success) {
+      return reply.status(400).send({
+        success: false,
+        error: "INVALID_EXECUTION",
+        details: parsed.error.issues
+      });
+    }
+
+    const { endpointId, payload, modo } = parsed.data;
+    const config = cargarConfiguracion(resolverEmpresa(request));
+    const auditoria = { tipo: "EJECUCION" as const, endpointId, modulo: obtenerModuloDeEndpoint(config, endpointId) ?? undefined };
+
+    // Lo ya interpretado se vuelve a autorizar: el cliente puede enviar cualquier endpointId y payload
+    const usuario = request.usuario;
+    const denegado = usuario ? verificarPermisoEndpoint(usuario.permisos, config, endpointId, usuario.politica) : null;
+    if (denegado) {
+      const rechazo = {
+        success: false,
+        error: denegado.error,
+        details: describirPermisoDenegado(denegado.error, denegado.modulo, denegado.accion)
+      };
+      await auditar(request, { ...auditoria, resultado: rechazo });
+      return reply.status(403).send(rechazo);
+    }
+
+    const conPolitica = aplicarPoliticaPayload(usuario?.politica, endpointId, payload);
+    if (conPolitica.denegados.length > 0) {
+      const rechazo = {
+        success: false,
+        error: "PERMISO_CAMPO_DENEGADO",
+        details: describirCamposDenegados(conPolitica.denegados)
+      };
+      await auditar(request, { ...auditoria, resultado: rechazo });
+      return reply.status(403).send(rechazo);
+    }
+
+    try {
+      const escritura = obtenerAccionDeEndpoint(config, endpointId) !== "leer";
+      const ejecucion = await executor.ejecutarEndpoint(
+        config,
+        endpointId,
+        conPolitica.payload,
+        escritura ? "PREVIEW" : modo
+      );
+      ejecucion.data = filtrarRespuesta(usuario?.politica, endpointId, ejecucion.data);
+
+      if (!escritura) {
+        await auditar(request, {
+          ...auditoria,
+          resultado: { success: !ejecucion.error, accion: ejecucion.accion, payload: conPolitica.payload },
+          erp: [llamadaERP(ejecucion)]
+        });
+        return reply.send({
+          success: !ejecucion.error,
+          ejecucion
         });
       }
 
-      // Enviamos el mensaje crudo a DeepSeek
-      const deepseekOutput = await deepseekService.sendAndMapToSchema(message);
+      const confirmacion = await emitirConfirmacion(request, config, endpointId, ejecucion);
+      await auditar(request, {
+        ...auditoria,
+        resultado: { success: modo !== "COMMIT", accion: ejecucion.accion, payload: conPolitica.payload, resumen: confirmacion.resumen },
+        erp: [llamadaERP(ejecucion)]
+      });
+      if (modo === "COMMIT") {
+        return reply.status(428).send({
+          success: false,
+          error: "CONFIRMACION_REQUERIDA",
+          details: "Las escrituras se ejecutan con POST /ia/confirm y el token de confirmación",
+          ejecucion,
+          confirmacion
+        });
+      }
 
-      // Devolvemos la respuesta tal cual la devuelve DeepSeek
       return reply.send({
         success: true,
-        output: deepseekOutput
+        ejecucion,
+        confirmacion
       });
     } catch (error: any) {
-      console.error("Error enviando mensaje a DeepSeek:", error);
-      return reply.status(500).send({
+      const rechazo = {
+        success: false,
+        error: "EJECUCION_RECHAZADA",
+        details: error.message
+      };
+      await auditar(request, { ...auditoria, resultado: rechazo });
+      return reply.status(422).send(rechazo);
+    }
+  });
+
+  // Ejecuta una escritura (o un plan con escrituras) confirmada por un humano
+  app.post("/ia/confirm", async (request, reply) => {
+    const parsed = ConfirmBodySchema.safeParse(request.body);
+    if (!parsed.success) {
+      return reply.status(400).send({
+        success: false,
+        error: "INVALID_CONFIRMATION",
+        details: parsed.error.issues
+      });
+    }
+
+    const resultado = await confirmaciones.confirmar(parsed.data.token, titularDe(request));
+    if (!resultado.success) {
+      await auditar(request, { tipo: "CONFIRMACION", resultado });
+      return reply.status(STATUS_CONFIRMACION[resultado.error]).send(resultado);
+    }
+
+    const { pendiente, resumen } = resultado;
+    const usuario = request.usuario;
+    const config = cargarConfiguracion(resolverEmpresa(request));
+
+    if (pendiente.tipo === "PLAN") {
+      // Las escrituras se resuelven con datos de pasos anteriores, que pudieron cambiar: si ya no
+      // son las confirmadas, se previsualiza de nuevo y hace falta otra confirmación
+      const preview = await planEngine.ejecutar(
+        { ...pendiente.plan, executionMode: "PREVIEW" },
+        config,
+        usuario?.permisos,
+        usuario?.politica
+      );
+      if (!preview.success) {
+        await auditar(request, { tipo: "PLAN", mensaje: pendiente.plan.intent.action, resultado: { ...resumirResultadoPlan(preview), resumen } });
+        return reply.status(422).send(preview);
+      }
+
+      const escrituras = planEngine.escriturasResueltas(preview);
+      if (!mismasEscrituras(escrituras, pendiente.escrituras)) {
+        const confirmacion = await confirmaciones.emitir(
+          titularDe(request),
+          { tipo: "PLAN", plan: pendiente.plan, escrituras },
+          resumirPlan(pendiente.plan, planEngine.escrituras(pendiente.plan, config))
+        );
+        const rechazo = {
+          success: false,
+          error: "CONFIRMACION_DESACTUALIZADA" as const,
+          details: "Los datos del plan cambiaron desde la confirmación; revisa la nueva previsualización y vuelve a confirmar"
+        };
+        await auditar(request, { tipo: "CONFIRMACION", mensaje: pendiente.plan.intent.action, resultado: { ...rechazo, resumen } });
+        return reply.status(STATUS_CONFIRMACION[rechazo.error]).send({ ...rechazo, preview, confirmacion });
+      }
+
+      const ejecucionPlan = await planEngine.ejecutar(
+        pendiente.plan,
+        config,
+        usuario?.permisos,
+        usuario?.politica,
+        pendiente.escrituras
+      );
+      await auditar(request, { tipo: "PLAN", mensaje: pendiente.plan.intent.action, resultado: { ...resumirResultadoPlan(ejecucionPlan), resumen } });
+      return reply.status(ejecucionPlan.success ? 200 : 422).send({ ...ejecucionPlan, resumen });
+    }
+
+    const auditoria = {
+      tipo: "CONFIRMACION" as const,
+      endpointId: pendiente.endpointId,
+      modulo: obtenerModuloDeEndpoint(config, pendiente.endpointId) ?? undefined
+    };
+
+    // Los permisos pudieron cambiar desde que se emitió la confirmación
+    const denegado = usuario ? verificarPermisoEndpoint(usuario.permisos, config, pendiente.endpointId, usuario.politica) : null;
+    if (denegado) {
+      const rechazo = {
+        success: false,
+        error: denegado.error,
+        details: describirPermisoDenegado(denegado.error, denegado.modulo, denegado.accion)
+      };
+      await auditar(request, { ...auditoria, resultado: { ...rechazo, resumen } });
+      return reply.status(403).send(rechazo);
+    }
+
+    // Y también la política de campos: el body confirmado debe seguir cumpliéndola tal cual
+    const body = pendiente.request.body || {};
+    const conPolitica = aplicarPoliticaPayload(usuario?.politica, pendiente.endpointId, body);
+    if (conPolitica.denegados.length > 0) {
+      const rechazo = {
+        success: false,
+        error: "PERMISO_CAMPO_DENEGADO",
+        details: describirCamposDenegados(conPolitica.denegados)
+      };
+      await auditar(request, { ...auditoria, resultado: { ...rechazo, resumen } });
+      return reply.status(403).send(rechazo);
+    }
+    if (!isDeepStrictEqual(conPolitica.payload, body)) {
+      const rechazo = {
+        success: false,
+        error: "CONFIRMACION_DESACTUALIZADA" as const,
+        details: "La política de campos cambió desde la confirmación; vuelve a previsualizar la escritura"
+      };
+      await auditar(request, { ...auditoria, resultado: { ...rechazo, resumen } });
+      return reply.status(STATUS_CONFIRMACION[rechazo.error]).send(rechazo);
+    }
+
+    const ejecucion = await executor.ejecutar(pendiente.request, pendiente.accion, "COMMIT");
+    ejecucion.data = filtrarRespuesta(usuario?.politica, pendiente.endpointId, ejecucion.data);
+    await auditar(request, {
+      ...auditoria,
+      resultado: { success: !ejecucion.error, accion: pendiente.accion, payload: pendiente.request.body, resumen },
+      erp: [llamadaERP(ejecucion)]
+    });
+
+    return reply.send({
+      success: !ejecucion.error,
+      resumen,
+      ejecucion
+    });
+  });
+
+  // Ejecuta un plan multi-paso (IAOutputSchema); en COMMIT, si escribe, primero se confirma
+  app.post("/ia/plan", async (request, reply) => {
+    const plan = (request.body as any)?.plan;
+    const config = cargarConfiguracion(resolverEmpresa(request));
+    const usuario = request.usuario;
+
+    const validacion = planEngine.validar(plan);
+    const escrituras = validacion.valido && validacion.plan!.executionMode === "COMMIT"
+      ? planEngine.escrituras(validacion.plan!, config)
+      : [];
+
+    if (escrituras.length > 0) {
+      const preview = await planEngine.ejecutar(
+        { ...validacion.plan!, executionMode: "PREVIEW" },
+        config,
+        usuario?.permisos,
+        usuario?.politica
+      );
+      const confirmacion = preview.success
+        ? await confirmaciones.emitir(
+          titularDe(request),
+          { tipo: "PLAN", plan: validacion.plan!, escrituras: planEngine.escriturasResueltas(preview) },
+          resumirPlan(validacion.plan!, escrituras)
+        )
+        : undefined;
+      await auditar(request, {
+        tipo: "PLAN",
+        mensaje: validacion.plan!.intent.action,
+        resultado: { ...resumirResultadoPlan(preview), resumen: confirmacion?.resumen }
+      });
+      if (!confirmacion) return reply.status(422).send(preview);
+
+      return reply.status(428).send({
         success: false,
-        error: "ERROR_INTERNO",
-        details: error.message || "Error interno del servidor"
+        error: "CONFIRMACION_REQUERIDA",
+        details: "El plan escribe en el ERP; ejecútalo con POST /ia/confirm y el token de confirmación",
+        preview,
+        confirmacion
       });
     }
+
+    const resultado = await planEngine.ejecutar(plan, config, usuario?.permisos, usuario?.politica);
+    await auditar(request, {
+      tipo: "PLAN",
+      mensaje: validacion.plan?.intent.action,
+      resultado: resumirResultadoPlan(resultado)
+    });
+
+    return reply.status(resultado.success ? 200 : 422).send(resultado);
+  });
+
+  // Diálogos con parámetros pendientes del usuario
+  app.get("/ia/sessions", async (request, reply) => {
+    return reply.send({
+      success: true,
+      sesiones: await interpreterService.listSessions(titularDe(request))
+    });
+  });
+
+  // Cancela un diálogo pendiente y olvida su historial de conversación
+  app.delete("/ia/sessions/:id", async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const titular = titularDe(request);
+    const cancelada = await interpreterService.cancelSession(id, titular);
+    if (!cancelada) {
+      return reply.status(404).send({
+        success: false,
+        error: "SESION_NO_ENCONTRADA",
+        details: `No hay una sesión pendiente '${id}'`
+      });
+    }
+
+    await obtenerConversationStore().limpiar(claveConversacion(id, titular));
+    return reply.send({ success: true, sessionId: id });
   });
 
   // Endpoint de debug
   app.get("/ia/debug", async (request, reply) => {
     return reply.send({
       success: true,
-      info: "Endpoint funcionando. Mensajes se envían directamente a DeepSeek."
+      info: "Endpoint funcionando. Mensajes se interpretan con el motor configurado.",
+      empresa: resolverEmpresa(request),
+      interprete: await interpreterService.debugInfo()
     });
   });
 }
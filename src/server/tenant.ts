@@ -0,0 +1,39 @@
+import { FastifyReply, FastifyRequest } from "fastify";
+import { configuracionRegistry } from "../erp/configs/config-registry";
+
+export const HEADER_EMPRESA = "x-erp-empresa";
+
+/**
+ * Empresa (tenant) de la petición: la del token autenticado, luego header x-erp-empresa,
+ * luego context.erp del body, y si no viene ninguno la empresa por defecto del registro.
+ * Un token con empresa "*" deja elegirla con el header o el body.
+ */
+export function resolverEmpresa(request: FastifyRequest): string | undefined {
+  const delToken = request.usuario?.empresa;
+  if (delToken && delToken !== "*") return delToken;
+
+  const header = request.headers[HEADER_EMPRESA];
+  const desdeHeader = Array.isArray(header) ? header[0] : header;
+  const desdeBody = (request.body as any)?.context?.erp;
+
+  const empresa = desdeHeader || (typeof desdeBody === "string" ? desdeBody : undefined);
+  return empresa || configuracionRegistry.empresaPorDefecto();
+}
+
+export function empresaConfigurada(empresa: string | undefined): empresa is string {
+  return !!empresa && configuracionRegistry.existe(empresa);
+}
+
+/**
+ * preHandler: responde 404 si la empresa de la petición no tiene configuración
+ */
+export async function verificarEmpresa(request: FastifyRequest, reply: FastifyReply) {
+  const empresa = resolverEmpresa(request);
+  if (!empresaConfigurada(empresa)) {
+    return reply.status(404).send({
+      success: false,
+      error: "EMPRESA_NO_CONFIGURADA",
+      details: `No existe configuración para la empresa '${empresa ?? ""}'`
+    });
+  }
+}
@@ -1,4 +1,13 @@
 import { z } from "zod";
+import type { PoliticaAcceso } from "../erp/politicas";
+
+export const IAMotorSchema = z.enum([
+  "LOCAL",
+  "GEMINI",
+  "DEEPSEEK",
+  "DEEPSEEK_RAW",
+  "HYBRID"
+]);
 
 export const IAInputSchema = z.object({
   message: z.string().min(1),
@@ -11,8 +20,15 @@ export const IAInputSchema = z.object({
     permisos: z.object({
       modulos: z.array(z.string()),
       acciones: z.array(z.string())
-    })
-  })
+    }),
+
+    // La pone el servidor a partir del usuario autenticado
+    politica: z.custom<PoliticaAcceso>(valor => typeof valor === "object" && valor !== null && !Array.isArray(valor)).optional()
+  }),
+
+  sessionId: z.string().optional(),
+
+  motor: IAMotorSchema.optional()
 });
 
 export type IAInput = z.infer<typeof IAInputSchema>;
@@ -50,11 +50,26 @@ export const ValueSchema = z.union([
   z.number(),
   z.boolean(),
   z.null(),
-  z.record(z.any()),
+  z.record(z.string(), z.any()),
   z.array(z.any()),
   DynamicValueSchema
 ]);
 
+/*
+  Headers que un plan puede enviar al ERP. Content-Type, Authorization, Host y
+  similares los pone el servidor: un plan no debe poder cambiarlos.
+*/
+export const HEADERS_PLAN_PERMITIDOS = [
+  "accept-language",
+  "x-request-id",
+  "x-correlation-id"
+];
+
+export const HeadersPlanSchema = z.record(z.string(), ValueSchema).refine(
+  headers => Object.keys(headers).every(nombre => HEADERS_PLAN_PERMITIDOS.includes(nombre.toLowerCase())),
+  { message: `Solo se admiten los headers: ${HEADERS_PLAN_PERMITIDOS.join(", ")}` }
+);
+
 /*
   ============================
   STEP DEFINITION
@@ -74,9 +89,9 @@ export const StepSchema = z.object({
     method: HttpMethodSchema,
     endpoint: z.string(),
 
-    query: z.record(ValueSchema).optional(),
-    headers: z.record(ValueSchema).optional(),
-    body: z.record(ValueSchema).optional()
+    query: z.record(z.string(), ValueSchema).optional(),
+    headers: HeadersPlanSchema.optional(),
+    body: z.record(z.string(), ValueSchema).optional()
   }).optional(),
 
   transform: z.object({
@@ -101,6 +116,23 @@ export const StepSchema = z.object({
     )
   }).optional(),
 
+  map: z.object({
+    inputPath: z.string(),
+    fields: z.record(z.string(), z.string())   // campo destino -> ruta en el item origen
+  }).optional(),
+
+  aggregate: z.object({
+    inputPath: z.string(),
+    groupBy: z.array(z.string()).optional(),
+    operations: z.array(
+      z.object({
+        operator: z.enum(["SUM", "COUNT", "AVG", "MIN", "MAX"]),
+        field: z.string().optional(),
+        as: z.string()
+      })
+    ).min(1)
+  }).optional(),
+
   selectFields: z.object({
     inputPath: z.string(),
     fields: z.array(z.string()),
@@ -177,3 +209,6 @@ export const IAOutputSchema = z.object({
 */
 
 export type IAOutput = z.infer<typeof IAOutputSchema>;
+export type Step = z.infer<typeof StepSchema>;
+export type DynamicValue = z.infer<typeof DynamicValueSchema>;
+export type ExecutionMode = z.infer<typeof ExecutionModeSchema>;